@@ -0,0 +1,121 @@
+/**
+ * mcp-x-query — argument completions
+ *
+ * Backs `completion/complete` for resource template variables and prompt
+ * arguments with data the server already holds — completing never calls
+ * Grok:
+ *
+ *   usernames          → authors seen in recent tool results, then the
+ *                        profiles in profileCache
+ *   list IDs           → lists queried recently with get_list_tweets
+ *   trending category  → categories of cached get_trending calls and the
+ *                        `category` of the topics they returned
+ *   trending country   → countries of cached get_trending calls
+ *
+ * Matching is a case-insensitive prefix match (a leading "@" is ignored for
+ * usernames), most recent first, capped at the 100 values MCP allows per
+ * response.
+ */
+
+import { RecentValues } from "./lib/recent-values.js";
+import { profileCache } from "./tools/get-user-profile.js";
+import { recentListIds } from "./tools/get-list-tweets.js";
+import { trendingCache } from "./tools/get-trending.js";
+
+/** Maximum number of values in one completion response (MCP limit). */
+const MAX_COMPLETIONS = 100;
+
+// Authors of tweets returned by recent tool calls and resource reads.
+// Exported so test suites can call recentAuthors.clear() between tests.
+export const recentAuthors = new RecentValues(500);
+
+/** Distinct `candidates` starting with `prefix` (case-insensitive), in order. */
+function matching(candidates: Iterable<string>, prefix: string): string[] {
+  const wanted = prefix.toLowerCase();
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const candidate of candidates) {
+    const key = candidate.toLowerCase();
+    if (!key.startsWith(wanted) || seen.has(key)) continue;
+    seen.add(key);
+    out.push(candidate);
+    if (out.length === MAX_COMPLETIONS) break;
+  }
+  return out;
+}
+
+function authorOf(tweet: unknown): string | undefined {
+  const author = (tweet as { author?: { username?: unknown } } | null)?.author;
+  return typeof author?.username === "string" && author.username ? author.username : undefined;
+}
+
+/** Fields holding one nested tweet or tree node. */
+const NESTED_FIELDS = ["tweet", "quoted_tweet", "root"];
+
+/**
+ * Fields holding a list of tweets or wrappers: `tweets` (timelines, searches,
+ * threads, quote tweets), `results` (get_tweets), `replies` / `orphans`
+ * (get_conversation_tree nodes).
+ */
+const LIST_FIELDS = ["tweets", "results", "replies", "orphans"];
+
+/**
+ * Remember the authors of the tweets in a tool result: a single tweet, any
+ * result with a `tweets` array, get_tweets `results[].tweet`, and every node
+ * of a get_conversation_tree. Authors of quoted tweets are included. Other
+ * results are ignored.
+ */
+export function rememberAuthors(result: unknown): void {
+  if (!result || typeof result !== "object") return;
+  const username = authorOf(result);
+  if (username) recentAuthors.add(username);
+  const fields = result as Record<string, unknown>;
+  for (const name of NESTED_FIELDS) rememberAuthors(fields[name]);
+  for (const name of LIST_FIELDS) {
+    const items = fields[name];
+    if (Array.isArray(items)) for (const item of items) rememberAuthors(item);
+  }
+}
+
+/** Complete a username (with or without "@"). */
+export function completeUsername(value: string): string[] {
+  // profileCache entries are oldest first.
+  const profiles = profileCache.entries().map(([username]) => username).reverse();
+  return matching([...recentAuthors.values(), ...profiles], value.replace(/^@/, ""));
+}
+
+/** Complete a list ID. */
+export function completeListId(value: string): string[] {
+  return matching(recentListIds.values(), value);
+}
+
+/** Live trending cache entries split into category and country, newest first. */
+function trendingEntries() {
+  return trendingCache
+    .entries()
+    .reverse()
+    .map(([key, value]) => {
+      const [category, country] = key.split("|");
+      return { category, country, topics: value.topics };
+    });
+}
+
+/** Complete a trending category. */
+export function completeTrendingCategory(value: string): string[] {
+  const candidates: string[] = [];
+  for (const entry of trendingEntries()) {
+    if (entry.category) candidates.push(entry.category);
+    for (const topic of entry.topics) {
+      if (topic.category) candidates.push(topic.category.toLowerCase());
+    }
+  }
+  return matching(candidates, value);
+}
+
+/** Complete a trending country or region. */
+export function completeTrendingCountry(value: string): string[] {
+  return matching(
+    trendingEntries().flatMap((entry) => (entry.country ? [entry.country] : [])),
+    value
+  );
+}
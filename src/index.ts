@@ -3,51 +3,80 @@
  *
  * This is the root of the MCP server. It:
  *  1. Validates the XAI_API_KEY environment variable (hard-fails without it).
- *  2. Creates a shared GrokClient that wraps the Grok API.
- *  3. Registers all twelve MCP tools with their input schemas and descriptions.
- *  4. Starts a stdio-based transport so that MCP hosts (e.g. Claude Desktop)
- *     can communicate with this server via standard input/output.
+ *  2. Creates a shared GrokClient that wraps the Grok API, configured from
+ *     GROK_CONFIG_FILE and GROK_* variables (endpoint, per-tool models,
+ *     timeouts, output caps — see lib/config.ts).
+ *  3. Builds the McpServer (all seventeen tools) via createServer() in server.ts,
+ *     with a shared RateLimiter (built-in per-tool limits, overridable through
+ *     the JSON file named by MCP_LIMITS_FILE — see lib/rate-limiter.ts).
+ *     MCP_USAGE_META=true attaches each call's token usage as `_meta.usage`.
+ *     Optional spending ceilings (BUDGET_DAILY_USD / BUDGET_MONTHLY_USD, soft
+ *     limit at BUDGET_SOFT_RATIO of each) are enforced by a BudgetGuard whose
+ *     counters persist in CACHE_DIR/budget.json when CACHE_DIR is set.
+ *     A shared FeedPoller backs resource subscriptions: subscribed timelines,
+ *     mention feeds and searches are re-fetched every MCP_POLL_INTERVAL_MS
+ *     (default 5 minutes — every poll is a billed Grok call).
+ *     A shared ToolCache serves repeated read-tool calls with identical
+ *     inputs for a per-tool TTL (see lib/tool-cache.ts); its entries persist
+ *     in CACHE_DIR/tool-<name>.json when CACHE_DIR is set, or in the shared
+ *     CACHE_DIR/cache.sqlite database with CACHE_BACKEND=sqlite (as do the
+ *     profile and trending caches — see lib/cache-backend.ts).
+ *  4. Starts the selected transport:
+ *       - stdio (default) — MCP hosts (e.g. Claude Desktop) spawn this process
+ *         and communicate via standard input/output.
+ *       - http — Streamable HTTP on /mcp so one shared instance can back
+ *         several hosts. Enabled with MCP_TRANSPORT=http or the --http flag.
  *
- * Architecture note:
- *  Each tool lives in its own file under src/tools/ and exports:
- *    - An `Input` Zod object (used as the MCP input schema)
- *    - An async function that performs the actual query via GrokClient
+ * HTTP settings (environment):
+ *   MCP_HTTP_PORT       — port to listen on (default 3000)
+ *   MCP_HTTP_HOST       — interface to bind (default 127.0.0.1)
+ *   MCP_HTTP_STATELESS  — "true" disables session management
+ *   MCP_SESSION_IDLE_MS — close a session idle this long (default 30 minutes)
+ *   MCP_MAX_SESSIONS    — most open sessions (default 100)
+ *   MCP_AUTH_FILE       — JSON file of bearer tokens → client names (see lib/auth.ts);
+ *                         when set, every HTTP request must authenticate
  *
- * Error handling:
- *  The `run()` helper converts any thrown Error into a proper MCP error
- *  response (isError: true) so the host always receives a structured reply.
+ * Fixtures (environment, see lib/fixtures.ts):
+ *   GROK_FIXTURES_MODE  — "record" saves every API call, "replay" serves them
+ *                         offline (XAI_API_KEY then becomes optional)
+ *   GROK_FIXTURES_DIR   — directory holding the fixture files
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { join } from "node:path";
+import { TokenAuthenticator } from "./lib/auth.js";
+import { BudgetGuard, type BudgetLimits } from "./lib/budget.js";
+import { loadGrokConfig, type GrokConfig } from "./lib/config.js";
+import { FixtureStore } from "./lib/fixtures.js";
 import { GrokClient } from "./lib/grok-client.js";
-import { GrokAuthError, GrokRateLimitError, GrokCircuitOpenError } from "./lib/errors.js";
+import { startHttpServer } from "./lib/http-server.js";
+import { FeedPoller } from "./lib/feed-poller.js";
 import { log } from "./lib/logger.js";
-import { GetTweetInput, getTweet } from "./tools/get-tweet.js";
-import {
-  GetTweetRepliesInput,
-  getTweetReplies,
-} from "./tools/get-tweet-replies.js";
-import { GetUserTweetsInput, getUserTweets } from "./tools/get-user-tweets.js";
-import {
-  GetUserProfileInput,
-  getUserProfile,
-} from "./tools/get-user-profile.js";
-import { SearchTweetsInput, searchTweets } from "./tools/search-tweets.js";
-import { GetThreadInput, getThread } from "./tools/get-thread.js";
-import { GetTrendingInput, getTrending } from "./tools/get-trending.js";
-import { AnalyzeSentimentInput, analyzeSentiment } from "./tools/analyze-sentiment.js";
-import { AnalyzeThreadInput, analyzeThread } from "./tools/analyze-thread.js";
-import { ExtractLinksInput, extractLinks } from "./tools/extract-links.js";
-import {
-  GetUserMentionsInput,
-  getUserMentions,
-} from "./tools/get-user-mentions.js";
-import { GetListTweetsInput, getListTweets } from "./tools/get-list-tweets.js";
+import { RateLimiter } from "./lib/rate-limiter.js";
+import { ToolCache } from "./lib/tool-cache.js";
+import { cacheStorageFromEnv, parseCacheBackend } from "./lib/cache-backend.js";
+import { createServer, type ServerOptions } from "./server.js";
 
 // ─── Bootstrap ────────────────────────────────────────────────────────────────
 
-const apiKey = process.env.XAI_API_KEY;
+let fixtures: FixtureStore | undefined;
+const fixturesMode = process.env.GROK_FIXTURES_MODE;
+if (fixturesMode) {
+  if (fixturesMode !== "record" && fixturesMode !== "replay") {
+    log("fatal", 'GROK_FIXTURES_MODE must be "record" or "replay".');
+    process.exit(1);
+  }
+  if (!process.env.GROK_FIXTURES_DIR) {
+    log("fatal", "GROK_FIXTURES_DIR is required when GROK_FIXTURES_MODE is set.");
+    process.exit(1);
+  }
+  fixtures = new FixtureStore(process.env.GROK_FIXTURES_DIR, fixturesMode);
+  log("info", "Grok fixtures enabled", { mode: fixturesMode, dir: fixtures.dir });
+}
+
+// Replay never reaches the API, so a well-formed placeholder key is enough.
+const apiKey =
+  process.env.XAI_API_KEY || (fixtures?.mode === "replay" ? "xai-" + "0".repeat(40) : undefined);
 if (!apiKey) {
   log("fatal", "XAI_API_KEY environment variable is required.");
   process.exit(1);
@@ -57,156 +86,164 @@ if (!/^xai-[A-Za-z0-9]{40,}$/.test(apiKey)) {
   process.exit(1);
 }
 
-// Single shared GrokClient — stateless, safe to reuse across tool calls.
-const grok = new GrokClient(apiKey);
+/** Parse an optional positive number from the environment, or exit. */
+function positiveEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    log("fatal", `${name} must be a positive number.`);
+    process.exit(1);
+  }
+  return value;
+}
 
-const server = new McpServer({
-  name: "mcp-x-query",
-  version: "1.0.0",
-});
+/** Parse an optional positive integer from the environment, or exit. */
+function positiveIntegerEnv(name: string): number | undefined {
+  const value = positiveEnv(name);
+  if (value !== undefined && !Number.isInteger(value)) {
+    log("fatal", `${name} must be a positive integer.`);
+    process.exit(1);
+  }
+  return value;
+}
 
-// ─── Helper ───────────────────────────────────────────────────────────────────
+// Spending ceilings — only guarded when at least one hard limit is set.
+const budgetLimits: BudgetLimits = {
+  dailyUsd: positiveEnv("BUDGET_DAILY_USD"),
+  monthlyUsd: positiveEnv("BUDGET_MONTHLY_USD"),
+  softRatio: positiveEnv("BUDGET_SOFT_RATIO"),
+};
+if (budgetLimits.softRatio !== undefined && budgetLimits.softRatio > 1) {
+  log("fatal", "BUDGET_SOFT_RATIO must be between 0 and 1.");
+  process.exit(1);
+}
+const budget =
+  budgetLimits.dailyUsd !== undefined || budgetLimits.monthlyUsd !== undefined
+    ? new BudgetGuard(
+        budgetLimits,
+        process.env.CACHE_DIR ? join(process.env.CACHE_DIR, "budget.json") : undefined
+      )
+    : undefined;
+
+let config: GrokConfig;
+try {
+  config = loadGrokConfig();
+} catch (err) {
+  log("fatal", err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
 
-/**
- * Wraps a tool call and converts any thrown error into an MCP error response.
- *
- * MCP hosts expect one of two shapes:
- *   - Success: { content: [{ type: "text", text: "..." }] }
- *   - Failure: { isError: true, content: [{ type: "text", text: "Error: ..." }] }
- *
- * Using this wrapper ensures every tool always returns the correct shape,
- * even when GrokClient throws or a validation error occurs.
- */
-async function run<T>(
-  tool: string,
-  fn: () => Promise<T>
-): Promise<{ content: { type: "text"; text: string }[]; isError?: boolean }> {
-  try {
-    const result = await fn();
-    return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-
-    if (err instanceof GrokAuthError) {
-      // Fatal — wrong or expired key. Log prominently so the operator notices.
-      log("error", "Authentication error", { tool, detail: message });
-    } else if (err instanceof GrokRateLimitError) {
-      log("warn", "Rate limit exceeded", { tool, detail: message });
-    } else if (err instanceof GrokCircuitOpenError) {
-      log("warn", "Circuit open — Grok API unavailable", { tool, retryInMs: err.retryInMs });
-    } else {
-      log("error", "Tool error", { tool, detail: message });
-    }
+// Single shared GrokClient — stateless, safe to reuse across tool calls and sessions.
+const grok = new GrokClient(apiKey, { budget, config, fixtures });
+
+// One limiter for the whole process so quotas hold across HTTP sessions.
+let rateLimiter: RateLimiter;
+try {
+  rateLimiter = process.env.MCP_LIMITS_FILE
+    ? RateLimiter.fromFile(process.env.MCP_LIMITS_FILE)
+    : new RateLimiter();
+} catch (err) {
+  log("fatal", err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
+// One poller for the whole process so a feed watched by several sessions is fetched once.
+const feedPoller = new FeedPoller(positiveEnv("MCP_POLL_INTERVAL_MS") ?? 5 * 60_000);
 
-    return {
-      isError: true,
-      content: [{ type: "text", text: `Error: ${message}` }],
-    };
-  }
+// Validated here; read by the profile and trending caches (lib/cache-backend.ts).
+positiveEnv("CACHE_STALE_GRACE_MS");
+if (!parseCacheBackend()) {
+  log("fatal", 'CACHE_BACKEND must be "json" or "sqlite".');
+  process.exit(1);
 }
+// One result cache for the whole process so a repeated call hits whichever session made the first.
+const toolCache = new ToolCache(undefined, cacheStorageFromEnv());
 
-// ─── Tool registrations ───────────────────────────────────────────────────────
-
-// get_tweet — retrieve a single tweet by ID or URL (full schema: media, metrics, quoted tweet…)
-server.tool(
-  "get_tweet",
-  "Retrieve a single tweet by its ID or URL (full data: media, quoted tweet, metrics)",
-  GetTweetInput.shape,
-  (input) => run("get_tweet", () => getTweet(grok, input))
-);
-
-// get_tweet_replies — fetch the most-engaged replies to a tweet, with optional date range
-server.tool(
-  "get_tweet_replies",
-  "Get replies to a tweet by its ID or URL, with optional date range (from_date/to_date)",
-  GetTweetRepliesInput.shape,
-  (input) => run("get_tweet_replies", () => getTweetReplies(grok, input))
-);
-
-// get_user_tweets — timeline for a given handle, with optional date range and media enrichment
-server.tool(
-  "get_user_tweets",
-  "Get recent tweets from a Twitter/X user, with optional date range and enrich_media (Grok Vision analysis)",
-  GetUserTweetsInput.shape,
-  (input) => run("get_user_tweets", () => getUserTweets(grok, input))
-);
-
-// get_user_profile — bio, counters, pinned tweet, verification status
-server.tool(
-  "get_user_profile",
-  "Get the profile information of a Twitter/X user",
-  GetUserProfileInput.shape,
-  (input) => run("get_user_profile", () => getUserProfile(grok, input))
-);
-
-// search_tweets — full-text search supporting Twitter operators, with optional media enrichment
-server.tool(
-  "search_tweets",
-  "Search Twitter/X for tweets matching a query, with optional date range and enrich_media (Grok Vision analysis)",
-  SearchTweetsInput.shape,
-  (input) => run("search_tweets", () => searchTweets(grok, input))
-);
-
-// get_thread — reconstruct a full conversation thread from any tweet in it
-server.tool(
-  "get_thread",
-  "Retrieve the full conversation thread for any tweet. Use verbose:true for complete fields (media, quoted_tweet, etc.)",
-  GetThreadInput.shape,
-  (input) => run("get_thread", () => getThread(grok, input))
-);
-
-// get_trending — current trending topics, optionally filtered by category and country
-server.tool(
-  "get_trending",
-  "Get currently trending topics on Twitter/X, with optional category and country/region filter",
-  GetTrendingInput.shape,
-  (input) => run("get_trending", () => getTrending(grok, input))
-);
-
-// analyze_sentiment — fetch tweets for a query and analyze collective sentiment
-server.tool(
-  "analyze_sentiment",
-  "Analyze the sentiment of tweets about a topic or query: returns overall sentiment, score, breakdown, dominant topics/emotions, and representative tweets",
-  AnalyzeSentimentInput.shape,
-  (input) => run("analyze_sentiment", () => analyzeSentiment(grok, input))
-);
-
-// analyze_thread — retrieve a thread and analyze its content, sentiment, and arguments
-server.tool(
-  "analyze_thread",
-  "Retrieve a full Twitter/X thread and analyze its sentiment, key arguments, topics, and tone",
-  AnalyzeThreadInput.shape,
-  (input) => run("analyze_thread", () => analyzeThread(grok, input))
-);
-
-// extract_links — aggregate and summarize all external URLs shared by a user
-server.tool(
-  "extract_links",
-  "Extract and summarize all external links shared by a Twitter/X user, with optional date range",
-  ExtractLinksInput.shape,
-  (input) => run("extract_links", () => extractLinks(grok, input))
-);
-
-// get_user_mentions — tweets from other accounts mentioning a given user
-server.tool(
-  "get_user_mentions",
-  "Get recent tweets mentioning a Twitter/X user (@username), with optional date range",
-  GetUserMentionsInput.shape,
-  (input) => run("get_user_mentions", () => getUserMentions(grok, input))
-);
-
-// get_list_tweets — tweets from a Twitter/X list by ID or URL, with pagination
-server.tool(
-  "get_list_tweets",
-  "Get recent tweets from a Twitter/X list by its ID or URL, with optional date range and cursor-based pagination",
-  GetListTweetsInput.shape,
-  (input) => run("get_list_tweets", () => getListTweets(grok, input))
-);
+const serverOptions: ServerOptions = {
+  rateLimiter,
+  includeUsageMeta: process.env.MCP_USAGE_META === "true",
+  feedPoller,
+  toolCache,
+};
+
+const useHttp =
+  process.argv.includes("--http") || process.env.MCP_TRANSPORT?.toLowerCase() === "http";
 
 // ─── Start server ─────────────────────────────────────────────────────────────
 
-// StdioServerTransport reads from stdin and writes to stdout.
-// MCP hosts (Claude Desktop, etc.) spawn this process and communicate over stdio.
-const transport = new StdioServerTransport();
-await server.connect(transport);
-log("info", "MCP server started. Listening on stdio.");
+if (useHttp) {
+  const port = Number(process.env.MCP_HTTP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    log("fatal", "MCP_HTTP_PORT must be an integer between 0 and 65535.");
+    process.exit(1);
+  }
+  const stateless = process.env.MCP_HTTP_STATELESS === "true";
+
+  // Anyone who can reach the port can spend xAI credits — require tokens
+  // unless the operator deliberately runs without an auth file.
+  let authenticator: TokenAuthenticator | undefined;
+  if (process.env.MCP_AUTH_FILE) {
+    try {
+      authenticator = TokenAuthenticator.fromFile(process.env.MCP_AUTH_FILE);
+    } catch (err) {
+      log("fatal", err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+  } else {
+    log("warn", "MCP_AUTH_FILE is not set — the HTTP endpoint accepts unauthenticated requests.");
+  }
+
+  const http = await startHttpServer({
+    createServer: () => createServer(grok, serverOptions),
+    port,
+    host: process.env.MCP_HTTP_HOST,
+    stateless,
+    sessionIdleMs: positiveEnv("MCP_SESSION_IDLE_MS"),
+    maxSessions: positiveIntegerEnv("MCP_MAX_SESSIONS"),
+    authenticate: authenticator && ((req) => authenticator.authenticate(req)),
+  });
+  log("info", "MCP server started. Listening on HTTP.", {
+    port: http.port,
+    path: "/mcp",
+    stateless,
+    auth: authenticator ? `${authenticator.size} client(s)` : "disabled",
+  });
+
+  // Close open sessions before exiting so clients see a clean disconnect.
+  const shutdown = (signal: string) => {
+    log("info", "Shutting down HTTP server", { signal });
+    feedPoller.close();
+    http.close().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+} else {
+  // StdioServerTransport reads from stdin and writes to stdout.
+  // MCP hosts (Claude Desktop, etc.) spawn this process and communicate over stdio.
+  const server = createServer(grok, serverOptions);
+  const transport = new StdioServerTransport();
+
+  // Stop polling and close the session when the host goes away (stdin ends),
+  // the transport closes, or the process is told to stop.
+  let closing = false;
+  const shutdown = (reason: string) => {
+    if (closing) return;
+    closing = true;
+    log("info", "Shutting down stdio server", { reason });
+    feedPoller.close();
+    server.close().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  // Set before connect(), which chains its own handler after this one.
+  transport.onclose = () => shutdown("transport closed");
+  await server.connect(transport);
+  process.stdin.once("end", () => shutdown("stdin closed"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  log("info", "MCP server started. Listening on stdio.");
+}
@@ -0,0 +1,119 @@
+/**
+ * Static bearer-token authentication for the HTTP transport.
+ *
+ * Tokens are read once at startup from a JSON file (path in MCP_AUTH_FILE),
+ * each mapped to a named client identity:
+ *
+ *   {
+ *     "clients": [
+ *       { "name": "alice",  "token": "a-long-random-secret" },
+ *       { "name": "ci-bot", "token": "another-long-random-secret" }
+ *     ]
+ *   }
+ *
+ * The client name becomes `AuthInfo.clientId`, which the MCP SDK forwards to
+ * tool handlers as `extra.authInfo`. From there `run()` copies it into the
+ * request context so logs, quotas and audit trails can key on it.
+ *
+ * A client entry may add `"admin": true`. Admin clients get the `admin`
+ * scope, which is required for operator actions that affect every client
+ * (resetting the process-wide usage counters).
+ *
+ * Tokens are indexed by their SHA-256 digest: lookups never compare raw
+ * secrets, so response timing does not leak how much of a guess was right.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { IncomingMessage } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+
+/** Schema of the auth token file. */
+export const AuthConfigSchema = z.object({
+  clients: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .regex(/^[A-Za-z0-9_.-]{1,64}$/, "Client name must be 1–64 letters, digits, '_', '.' or '-'")
+          .describe("Client identity reported in logs and used for quotas"),
+        token: z.string().min(16, "Token must be at least 16 characters").describe("Bearer token secret"),
+        admin: z.boolean().optional().describe("Allow operator actions such as resetting usage counters"),
+      })
+    )
+    .min(1, "At least one client must be configured"),
+});
+
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+/** Scope granted to clients marked `"admin": true`. */
+export const ADMIN_SCOPE = "admin";
+
+function digest(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Resolves bearer tokens to client identities.
+ */
+export class TokenAuthenticator {
+  /** Token digest → client name and scopes. */
+  private readonly clients = new Map<string, { clientId: string; scopes: string[] }>();
+
+  /**
+   * @param config  Parsed auth configuration.
+   * @throws        If two clients share the same token.
+   */
+  constructor(config: AuthConfig) {
+    for (const { name, token, admin } of config.clients) {
+      const key = digest(token);
+      if (this.clients.has(key)) {
+        throw new Error(`Duplicate token in auth config (client "${name}").`);
+      }
+      this.clients.set(key, { clientId: name, scopes: admin ? [ADMIN_SCOPE] : [] });
+    }
+  }
+
+  /**
+   * Load and validate an auth token file.
+   *
+   * @throws  If the file cannot be read, is not valid JSON, or fails validation.
+   */
+  static fromFile(path: string): TokenAuthenticator {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (err) {
+      throw new Error(
+        `Cannot read auth config "${path}": ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    const parsed = AuthConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      const detail = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+      throw new Error(`Invalid auth config "${path}": ${detail}`);
+    }
+    return new TokenAuthenticator(parsed.data);
+  }
+
+  /** Number of configured clients. */
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Authenticate an HTTP request from its `Authorization: Bearer <token>` header.
+   *
+   * @returns  AuthInfo for the matching client, or undefined if the header is
+   *           missing, malformed, or carries an unknown token.
+   */
+  authenticate(req: IncomingMessage): AuthInfo | undefined {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? "");
+    if (!match) return undefined;
+    const token = match[1];
+    const client = this.clients.get(digest(token));
+    if (!client) return undefined;
+    return { token, clientId: client.clientId, scopes: [...client.scopes] };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Spending budget guard for Grok API calls.
+ *
+ * GrokClient reports the token usage of every call here together with the
+ * model that served it; the guard prices it and adds it to the running spend
+ * of the current UTC day and month.
+ *
+ * Two ceilings per period:
+ *   soft — optional work is downgraded: vision calls (media enrichment) are
+ *          skipped and result counts are capped (see `downgrade()`).
+ *   hard — every API call is rejected up front with GrokBudgetExceededError.
+ *
+ * The check happens before a call and the spend is recorded after it, so the
+ * last admitted call may overshoot the hard ceiling by its own cost.
+ *
+ * Persistence:
+ *   When a file path is given (CACHE_DIR/budget.json in index.ts) the spend
+ *   counters are loaded at construction and rewritten after every record, the
+ *   same way PersistentTtlCache does: synchronous writes, and I/O failures are
+ *   ignored so the guard degrades to in-memory only.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { GrokBudgetExceededError } from "./errors.js";
+import { log } from "./logger.js";
+import type { CallUsage } from "./usage.js";
+
+/** USD price per million tokens. */
+export interface ModelPricing {
+  input_per_million: number;
+  output_per_million: number;
+}
+
+/**
+ * xAI list prices. Reasoning tokens are billed as output tokens and are
+ * already included in `output_tokens`, so they are not priced separately.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "grok-4-1-fast-non-reasoning": { input_per_million: 0.2, output_per_million: 0.5 },
+  "grok-4-1-fast-reasoning":     { input_per_million: 0.2, output_per_million: 0.5 },
+  "grok-4":                      { input_per_million: 3.0, output_per_million: 15.0 },
+  "grok-2-vision-1212":          { input_per_million: 2.0, output_per_million: 10.0 },
+};
+
+/** Pricing for models missing from the table — deliberately pessimistic. */
+const FALLBACK_PRICING: ModelPricing = { input_per_million: 3.0, output_per_million: 15.0 };
+
+/** USD price of one x_search source ($25 per 1,000 sources). */
+export const PRICE_PER_SOURCE_USD = 0.025;
+
+/** Result-count ceiling applied to `max_results` / `max_tweets` past the soft limit. */
+export const SOFT_LIMIT_MAX_RESULTS = 10;
+
+export interface BudgetLimits {
+  /** Hard daily ceiling in USD. */
+  dailyUsd?: number;
+  /** Hard monthly ceiling in USD. */
+  monthlyUsd?: number;
+  /** Soft ceiling as a fraction of each hard ceiling (default 0.8). */
+  softRatio?: number;
+}
+
+interface BudgetState {
+  day: string;
+  daySpendUsd: number;
+  month: string;
+  monthSpendUsd: number;
+}
+
+export interface BudgetStatus {
+  day: string;
+  day_spend_usd: number;
+  daily_limit_usd?: number;
+  month: string;
+  month_spend_usd: number;
+  monthly_limit_usd?: number;
+  soft_limited: boolean;
+}
+
+/** Price one call's usage for `model`. */
+export function costOf(model: string, usage: CallUsage): number {
+  const pricing = MODEL_PRICING[model] ?? FALLBACK_PRICING;
+  return (
+    (usage.input_tokens * pricing.input_per_million +
+      usage.output_tokens * pricing.output_per_million) /
+      1_000_000 +
+    usage.sources * PRICE_PER_SOURCE_USD
+  );
+}
+
+function currentPeriods(now = Date.now()): { day: string; month: string } {
+  const iso = new Date(now).toISOString();
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+}
+
+export class BudgetGuard {
+  private state: BudgetState;
+  private readonly softRatio: number;
+
+  /**
+   * @param limits    Hard ceilings (omit a period to leave it unlimited).
+   * @param filePath  Optional JSON file used to persist spend across restarts.
+   */
+  constructor(
+    private readonly limits: BudgetLimits,
+    private readonly filePath?: string
+  ) {
+    this.softRatio = limits.softRatio ?? 0.8;
+    const { day, month } = currentPeriods();
+    this.state = { day, daySpendUsd: 0, month, monthSpendUsd: 0 };
+    this.loadFromFile();
+  }
+
+  /** Restore persisted counters. Missing or corrupted files are ignored. */
+  private loadFromFile(): void {
+    if (!this.filePath) return;
+    try {
+      const stored = JSON.parse(readFileSync(this.filePath, "utf-8")) as Partial<BudgetState>;
+      if (typeof stored.daySpendUsd === "number" && typeof stored.monthSpendUsd === "number") {
+        this.state = { ...this.state, ...stored } as BudgetState;
+      }
+    } catch {
+      // File absent or corrupted — start from zero.
+    }
+    this.rollOver();
+  }
+
+  /** Persist the counters. Silently ignores I/O errors. */
+  private saveToFile(): void {
+    if (!this.filePath) return;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(this.state), "utf-8");
+    } catch {
+      // Non-fatal — the in-memory counters still apply.
+    }
+  }
+
+  /** Reset a period's spend when the UTC day or month has changed. */
+  private rollOver(): void {
+    const { day, month } = currentPeriods();
+    if (this.state.day !== day) {
+      this.state.day = day;
+      this.state.daySpendUsd = 0;
+    }
+    if (this.state.month !== month) {
+      this.state.month = month;
+      this.state.monthSpendUsd = 0;
+    }
+  }
+
+  /**
+   * Call before every API request.
+   *
+   * @throws GrokBudgetExceededError  When a hard ceiling has been reached.
+   */
+  check(): void {
+    this.rollOver();
+    const { dailyUsd, monthlyUsd } = this.limits;
+    if (dailyUsd !== undefined && this.state.daySpendUsd >= dailyUsd) {
+      throw new GrokBudgetExceededError("daily", this.state.daySpendUsd, dailyUsd);
+    }
+    if (monthlyUsd !== undefined && this.state.monthSpendUsd >= monthlyUsd) {
+      throw new GrokBudgetExceededError("monthly", this.state.monthSpendUsd, monthlyUsd);
+    }
+  }
+
+  /** Add the cost of one call served by `model` and persist the counters. */
+  record(model: string, usage: CallUsage): void {
+    this.rollOver();
+    const wasSoftLimited = this.softLimited;
+    const cost = costOf(model, usage);
+    this.state.daySpendUsd += cost;
+    this.state.monthSpendUsd += cost;
+    this.saveToFile();
+    if (!wasSoftLimited && this.softLimited) {
+      log("warn", "Soft spending limit reached — downgrading optional work", {
+        daySpendUsd: this.state.daySpendUsd,
+        monthSpendUsd: this.state.monthSpendUsd,
+      });
+    }
+  }
+
+  /** True once either period has crossed its soft ceiling. */
+  get softLimited(): boolean {
+    this.rollOver();
+    const { dailyUsd, monthlyUsd } = this.limits;
+    return (
+      (dailyUsd !== undefined && this.state.daySpendUsd >= dailyUsd * this.softRatio) ||
+      (monthlyUsd !== undefined && this.state.monthSpendUsd >= monthlyUsd * this.softRatio)
+    );
+  }
+
+  /**
+   * Strip optional work from a tool input once the soft limit is crossed:
+   * `enrich_media` is turned off and explicit `max_results` / `max_tweets`
+   * values are capped at SOFT_LIMIT_MAX_RESULTS. Inputs are returned
+   * unchanged below the soft limit.
+   */
+  downgrade<I extends object>(input: I): I {
+    if (!this.softLimited) return input;
+    const out = { ...input } as Record<string, unknown>;
+    if (out.enrich_media) out.enrich_media = false;
+    for (const key of ["max_results", "max_tweets"]) {
+      const value = out[key];
+      if (typeof value === "number" && value > SOFT_LIMIT_MAX_RESULTS) {
+        out[key] = SOFT_LIMIT_MAX_RESULTS;
+      }
+    }
+    return out as I;
+  }
+
+  /** Current spend and limits, for reporting. */
+  status(): BudgetStatus {
+    this.rollOver();
+    return {
+      day: this.state.day,
+      day_spend_usd: this.state.daySpendUsd,
+      daily_limit_usd: this.limits.dailyUsd,
+      month: this.state.month,
+      month_spend_usd: this.state.monthSpendUsd,
+      monthly_limit_usd: this.limits.monthlyUsd,
+      soft_limited: this.softLimited,
+    };
+  }
+}
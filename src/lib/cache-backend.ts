@@ -0,0 +1,70 @@
+/**
+ * Choice of storage for the server's caches.
+ *
+ * Without CACHE_DIR every cache lives in memory. With it, CACHE_BACKEND
+ * selects how entries persist:
+ *   json   — one JSON file per cache, CACHE_DIR/<name>.json, rewritten on
+ *            every write (PersistentTtlCache; the default)
+ *   sqlite — one shared database, CACHE_DIR/cache.sqlite, written row by
+ *            row and safe to share between server processes (SqliteTtlCache)
+ */
+
+import { join } from "node:path";
+import { TtlCache, PersistentTtlCache, type CacheLimits } from "./cache.js";
+import { SqliteTtlCache } from "./sqlite-cache.js";
+
+export type CacheBackend = "json" | "sqlite";
+
+/** Database file inside CACHE_DIR used by the sqlite backend. */
+export const SQLITE_CACHE_FILE = "cache.sqlite";
+
+/** Where persistent caches are kept; in memory when `dir` is omitted. */
+export interface CacheStorage {
+  dir?: string;
+  backend?: CacheBackend;
+}
+
+/**
+ * Parse a CACHE_BACKEND value ("json" when unset). Returns undefined for an
+ * unknown backend — index.ts rejects those at startup.
+ */
+export function parseCacheBackend(value: string | undefined = process.env.CACHE_BACKEND): CacheBackend | undefined {
+  const backend = (value ?? "json").trim().toLowerCase();
+  return backend === "json" || backend === "sqlite" ? backend : undefined;
+}
+
+/**
+ * CACHE_STALE_GRACE_MS: how long past their TTL the profile and trending
+ * caches may serve an entry while refreshing it (0, i.e. never, when unset
+ * or invalid — index.ts rejects invalid values at startup).
+ */
+export function staleGraceFromEnv(): number {
+  const value = Number(process.env.CACHE_STALE_GRACE_MS ?? 0);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/** Storage configured by CACHE_DIR and CACHE_BACKEND. */
+export function cacheStorageFromEnv(): CacheStorage {
+  return { dir: process.env.CACHE_DIR, backend: parseCacheBackend() ?? "json" };
+}
+
+/**
+ * Create the cache called `name` in `storage`.
+ *
+ * @param ttlMs    Time to live of each entry.
+ * @param name     Cache name: the JSON file name, or the SQLite namespace.
+ * @param storage  Directory and backend (in memory without a directory).
+ * @param limits   Size limits and sweep interval.
+ */
+export function createCache<V>(
+  ttlMs: number,
+  name: string,
+  storage: CacheStorage,
+  limits: CacheLimits = {}
+): TtlCache<string, V> {
+  if (!storage.dir) return new TtlCache<string, V>(ttlMs, limits);
+  if (storage.backend === "sqlite") {
+    return new SqliteTtlCache<V>(ttlMs, join(storage.dir, SQLITE_CACHE_FILE), name, limits);
+  }
+  return new PersistentTtlCache<V>(ttlMs, join(storage.dir, `${name}.json`), limits);
+}
@@ -1,40 +1,244 @@
 import { readFileSync, writeFileSync, mkdirSync, unlinkSync } from "node:fs";
 import { dirname } from "node:path";
 
+/**
+ * Size limits and upkeep for a TtlCache. Every field is optional; a cache
+ * without limits is unbounded, as before.
+ */
+export interface CacheLimits {
+  /** Most entries kept; the least recently used are evicted beyond it. */
+  maxEntries?: number;
+  /**
+   * Most bytes kept, measured as the JSON size of keys and values; the least
+   * recently used entries are evicted beyond it. A single value larger than
+   * this is not stored.
+   */
+  maxBytes?: number;
+  /** Remove expired entries every this many ms (no sweep when omitted). */
+  sweepIntervalMs?: number;
+  /**
+   * Keep expired entries this many ms longer so `lookup()` can serve them
+   * stale while a fresh value is fetched (stale-while-revalidate). Expired
+   * entries are dropped at once when omitted.
+   */
+  staleGraceMs?: number;
+}
+
+/** Counters and current size of a TtlCache. */
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  /** Reads that found a live entry. */
+  hits: number;
+  /** Reads that found nothing, or an expired entry. */
+  misses: number;
+  /** Entries removed to stay within maxEntries / maxBytes. */
+  evictions: number;
+}
+
+/** Result of `lookup()`: a live entry, or an expired one within the grace window. */
+export interface CacheLookup<V> {
+  value: V;
+  /** True when the entry has expired and is only kept for the grace window. */
+  stale: boolean;
+  /** Milliseconds since the entry was set. */
+  ageMs: number;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+  bytes: number;
+}
+
+/** Approximate memory footprint of an entry: UTF-8 length of its key and value as JSON. */
+function sizeOf(key: unknown, value: unknown): number {
+  return Buffer.byteLength(String(key)) + Buffer.byteLength(JSON.stringify(value) ?? "");
+}
+
 /**
  * Simple in-memory TTL cache.
  *
  * Designed for tool-level caching of stable, read-heavy data such as
  * trending topics and user profiles.  Entries expire lazily on the next
- * read after ttlMs milliseconds — no background sweep is required.
+ * read after ttlMs milliseconds; `sweepIntervalMs` adds a periodic sweep so
+ * expired entries that are never read again do not linger.
+ *
+ * With `staleGraceMs`, expired entries are kept that much longer and
+ * `lookup()` returns them flagged as stale; `get()` never does.
+ *
+ * With `maxEntries` / `maxBytes` the cache is bounded: the store is kept in
+ * least-recently-used order (a read or write moves an entry to the back)
+ * and entries are evicted from the front once a limit is exceeded.
  *
  * Usage:
- *   const cache = new TtlCache<string, MyType>(5 * 60_000); // 5 min TTL
+ *   const cache = new TtlCache<string, MyType>(5 * 60_000, { maxEntries: 500 }); // 5 min TTL
  *   const hit = cache.get(key);
  *   if (!hit) { const value = await fetch(); cache.set(key, value); }
  */
 export class TtlCache<K, V> {
-  protected readonly store = new Map<K, { value: V; expiresAt: number }>();
+  /** Entries in least-recently-used order (Map iteration order). */
+  protected readonly store = new Map<K, CacheEntry<V>>();
+  private bytes = 0;
+  protected hits = 0;
+  protected misses = 0;
+  protected evictions = 0;
+  private sweepTimer?: NodeJS.Timeout;
 
-  constructor(private readonly ttlMs: number) {}
+  constructor(
+    protected readonly ttlMs: number,
+    protected readonly limits: CacheLimits = {}
+  ) {
+    if (limits.sweepIntervalMs) {
+      this.sweepTimer = setInterval(() => this.sweep(), limits.sweepIntervalMs);
+      // Never keep the process alive just to sweep.
+      this.sweepTimer.unref();
+    }
+  }
+
+  /** How long expired entries are kept for stale reads. */
+  protected get graceMs(): number {
+    return this.limits.staleGraceMs ?? 0;
+  }
 
   get(key: K): V | undefined {
     const entry = this.store.get(key);
-    if (!entry) return undefined;
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
+    const now = Date.now();
+    if (!entry || now > entry.expiresAt) {
+      if (entry && now > entry.expiresAt + this.graceMs) this.remove(key);
+      this.misses++;
       return undefined;
     }
+    this.hits++;
+    this.touch(key, entry);
     return entry.value;
   }
 
+  /**
+   * Entry for `key` with its age — live, or expired but within the
+   * `staleGraceMs` window (`stale: true`). Stale reads count as misses.
+   */
+  lookup(key: K): CacheLookup<V> | undefined {
+    const entry = this.store.get(key);
+    const now = Date.now();
+    if (!entry || now > entry.expiresAt + this.graceMs) {
+      if (entry) this.remove(key);
+      this.misses++;
+      return undefined;
+    }
+    const stale = now > entry.expiresAt;
+    if (stale) {
+      this.misses++;
+    } else {
+      this.hits++;
+      this.touch(key, entry);
+    }
+    return { value: entry.value, stale, ageMs: now - (entry.expiresAt - this.ttlMs) };
+  }
+
   set(key: K, value: V): void {
-    this.store.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    const bytes = sizeOf(key, value);
+    this.remove(key);
+    if (this.limits.maxBytes !== undefined && bytes > this.limits.maxBytes) return;
+    this.store.set(key, { value, expiresAt: Date.now() + this.ttlMs, bytes });
+    this.bytes += bytes;
+    this.evict();
+  }
+
+  /**
+   * Entry for `key` with whether it has expired, without removing it — lets
+   * a caller tell a miss from an entry that went stale. Counts as a read.
+   */
+  peek(key: K): { value: V; expired: boolean } | undefined {
+    const entry = this.store.get(key);
+    const expired = entry !== undefined && Date.now() > entry.expiresAt;
+    if (!entry || expired) {
+      this.misses++;
+    } else {
+      this.hits++;
+      this.touch(key, entry);
+    }
+    return entry && { value: entry.value, expired };
+  }
+
+  /** Live (non-expired) entries, most recently set last. */
+  entries(): [K, V][] {
+    const now = Date.now();
+    return [...this.store.entries()]
+      .filter(([, entry]) => entry.expiresAt >= now)
+      .sort(([, a], [, b]) => a.expiresAt - b.expiresAt)
+      .map(([key, entry]) => [key, entry.value]);
+  }
+
+  /** Remove expired entries (past the grace window) now. Returns how many were removed. */
+  sweep(): number {
+    const now = Date.now() - this.graceMs;
+    let removed = 0;
+    for (const [key, entry] of this.store) {
+      if (now > entry.expiresAt) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /** Current size and hit / miss / eviction counters. */
+  stats(): CacheStats {
+    return {
+      entries: this.store.size,
+      bytes: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  /** Stop the periodic sweep, if any. */
+  close(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
   }
 
   /** Remove all entries. Useful in tests to prevent cross-test cache hits. */
   clear(): void {
     this.store.clear();
+    this.bytes = 0;
+  }
+
+  /** Add an entry as stored (e.g. read back from disk), then enforce the limits. */
+  protected restore(key: K, entry: { value: V; expiresAt: number }): void {
+    const bytes = sizeOf(key, entry.value);
+    this.remove(key);
+    this.store.set(key, { value: entry.value, expiresAt: entry.expiresAt, bytes });
+    this.bytes += bytes;
+    this.evict();
+  }
+
+  /** Move an entry to the most-recently-used end. */
+  private touch(key: K, entry: CacheEntry<V>): void {
+    this.store.delete(key);
+    this.store.set(key, entry);
+  }
+
+  private remove(key: K): void {
+    const entry = this.store.get(key);
+    if (!entry) return;
+    this.store.delete(key);
+    this.bytes -= entry.bytes;
+  }
+
+  /** Evict least recently used entries until both limits hold. */
+  private evict(): void {
+    const { maxEntries, maxBytes } = this.limits;
+    for (const key of this.store.keys()) {
+      const over =
+        (maxEntries !== undefined && this.store.size > maxEntries) ||
+        (maxBytes !== undefined && this.bytes > maxBytes);
+      if (!over) return;
+      this.remove(key);
+      this.evictions++;
+    }
   }
 }
 
@@ -46,28 +250,34 @@ export class TtlCache<K, V> {
  * read-only filesystem or missing directory never crashes the server — the
  * cache simply degrades to in-memory only.
  *
+ * The limits apply to the file as well: it holds exactly the in-memory
+ * entries, so evicted and swept entries are dropped from it, and a file
+ * written under larger limits is trimmed on load.
+ *
  * Only string keys are supported (JSON object key constraint).
  *
  * Usage:
  *   const cache = new PersistentTtlCache<MyType>(5 * 60_000, "/tmp/my-cache.json");
  */
 export class PersistentTtlCache<V> extends TtlCache<string, V> {
-  constructor(ttlMs: number, private readonly filePath: string) {
-    super(ttlMs);
+  constructor(ttlMs: number, private readonly filePath: string, limits: CacheLimits = {}) {
+    super(ttlMs, limits);
     this.loadFromFile();
   }
 
-  /** Hydrate in-memory store from the JSON file, skipping expired entries. */
+  /** Hydrate in-memory store from the JSON file, skipping entries past expiry and grace. */
   private loadFromFile(): void {
     try {
       const raw = readFileSync(this.filePath, "utf-8");
       const stored = JSON.parse(raw) as Record<string, { value: V; expiresAt: number }>;
       const now = Date.now();
-      for (const [key, entry] of Object.entries(stored)) {
-        if (entry.expiresAt > now) {
-          // Hydrate with the original expiresAt so TTL is not reset.
-          this.store.set(key, entry);
-        }
+      // Oldest first, so that when limits apply the most recently set survive.
+      const live = Object.entries(stored)
+        .filter(([, entry]) => entry.expiresAt + this.graceMs > now)
+        .sort(([, a], [, b]) => a.expiresAt - b.expiresAt);
+      for (const [key, entry] of live) {
+        // Hydrate with the original expiresAt so TTL is not reset.
+        this.restore(key, entry);
       }
     } catch {
       // File absent or corrupted — start with an empty in-memory store.
@@ -79,8 +289,8 @@ export class PersistentTtlCache<V> extends TtlCache<string, V> {
     try {
       mkdirSync(dirname(this.filePath), { recursive: true });
       const obj: Record<string, { value: V; expiresAt: number }> = {};
-      for (const [key, entry] of this.store.entries()) {
-        obj[key] = entry;
+      for (const [key, { value, expiresAt }] of this.store.entries()) {
+        obj[key] = { value, expiresAt };
       }
       writeFileSync(this.filePath, JSON.stringify(obj), "utf-8");
     } catch {
@@ -93,6 +303,12 @@ export class PersistentTtlCache<V> extends TtlCache<string, V> {
     this.saveToFile();
   }
 
+  override sweep(): number {
+    const removed = super.sweep();
+    if (removed > 0) this.saveToFile();
+    return removed;
+  }
+
   override clear(): void {
     super.clear();
     try {
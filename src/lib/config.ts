@@ -0,0 +1,172 @@
+/**
+ * Grok API configuration: endpoint, models, timeouts and output limits.
+ *
+ * Built-in defaults reproduce the original hard-coded behaviour (xAI
+ * endpoint, fast non-reasoning model for every tool, grok-2-vision for media).
+ * They can be overridden by a JSON file (path in GROK_CONFIG_FILE) and then
+ * by individual environment variables, which win over the file:
+ *
+ *   GROK_BASE_URL           — OpenAI-compatible endpoint (e.g. a local stand-in)
+ *   GROK_MODEL              — default model for x_search queries
+ *   GROK_VISION_MODEL       — model used by analyzeMedia
+ *   GROK_TIMEOUT_MS         — default per-request timeout for queries
+ *   GROK_MAX_OUTPUT_TOKENS  — default output token cap for queries
+ *
+ * File format, every field optional:
+ *
+ *   {
+ *     "base_url": "https://api.x.ai/v1",
+ *     "max_retries": 3,
+ *     "defaults": { "model": "grok-4-1-fast-non-reasoning", "timeout_ms": 60000, "max_output_tokens": 16384 },
+ *     "vision":   { "model": "grok-2-vision-1212", "timeout_ms": 30000, "max_tokens": 512 },
+ *     "tools":    { "analyze_thread": { "model": "grok-4-1-fast-reasoning", "timeout_ms": 120000 },
+ *                   "get_thread": { "continue_on_truncation": true } }
+ *   }
+ *
+ * Per-tool settings are merged field by field over `defaults`; GrokClient
+ * picks them using the tool named in the request context.
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+const QuerySettingsSchema = z.object({
+  model: z.string().min(1).optional().describe("Model identifier for x_search queries"),
+  timeout_ms: z.number().int().positive().optional().describe("Per-request timeout in milliseconds"),
+  max_output_tokens: z.number().int().positive().optional().describe("Output token cap per query"),
+  continue_on_truncation: z
+    .boolean()
+    .optional()
+    .describe("After salvaging a truncated collection, make one call for the remaining items"),
+});
+
+const VisionSettingsSchema = z.object({
+  model: z.string().min(1).optional().describe("Vision-capable model for media analysis"),
+  timeout_ms: z.number().int().positive().optional().describe("Per-request timeout in milliseconds"),
+  max_tokens: z.number().int().positive().optional().describe("Output token cap per media summary"),
+});
+
+/** Schema of the GROK_CONFIG_FILE file (and of the merged environment overrides). */
+export const GrokConfigSchema = z.object({
+  base_url: z.string().url().optional().describe("OpenAI-compatible API base URL"),
+  max_retries: z.number().int().min(0).optional().describe("SDK retries on 429 / 5xx"),
+  defaults: QuerySettingsSchema.optional(),
+  vision: VisionSettingsSchema.optional(),
+  tools: z.record(z.string(), QuerySettingsSchema).optional(),
+});
+
+export type GrokConfigInput = z.infer<typeof GrokConfigSchema>;
+export type QuerySettings = Required<z.infer<typeof QuerySettingsSchema>>;
+export type VisionSettings = Required<z.infer<typeof VisionSettingsSchema>>;
+
+/** Fully resolved configuration consumed by GrokClient. */
+export interface GrokConfig {
+  base_url: string;
+  max_retries: number;
+  defaults: QuerySettings;
+  vision: VisionSettings;
+  tools: Record<string, z.infer<typeof QuerySettingsSchema>>;
+}
+
+/**
+ * Built-in configuration.
+ *
+ * timeout 60 s — x_search calls can be slow (real-time Twitter search); the
+ *   SDK default of 10 minutes is far too long for an interactive MCP tool.
+ * max_output_tokens 16384 — large enough for threads / bulk tweet arrays.
+ * continue_on_truncation off — salvaged items are returned without an extra
+ *   (billed) continuation call unless a tool opts in.
+ * Vision analysis is faster than x_search — 30 s is plenty.
+ */
+export const DEFAULT_GROK_CONFIG: GrokConfig = {
+  base_url: "https://api.x.ai/v1",
+  max_retries: 3,
+  defaults: {
+    model: "grok-4-1-fast-non-reasoning",
+    timeout_ms: 60_000,
+    max_output_tokens: 16384,
+    continue_on_truncation: false,
+  },
+  vision: { model: "grok-2-vision-1212", timeout_ms: 30_000, max_tokens: 512 },
+  tools: {},
+};
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+}
+
+/** Merge a partial configuration over `base`, section by section. */
+export function mergeGrokConfig(base: GrokConfig, override: GrokConfigInput): GrokConfig {
+  const tools = { ...base.tools };
+  for (const [tool, settings] of Object.entries(override.tools ?? {})) {
+    tools[tool] = { ...tools[tool], ...settings };
+  }
+  return {
+    base_url: override.base_url ?? base.base_url,
+    max_retries: override.max_retries ?? base.max_retries,
+    defaults: { ...base.defaults, ...override.defaults },
+    vision: { ...base.vision, ...override.vision },
+    tools,
+  };
+}
+
+/** Effective query settings for `tool` (defaults when the tool has no entry). */
+export function settingsForTool(config: GrokConfig, tool?: string): QuerySettings {
+  return { ...config.defaults, ...(tool ? config.tools[tool] : undefined) };
+}
+
+/**
+ * Load a configuration override file.
+ *
+ * @throws Error  When the file cannot be read, is not JSON, or fails validation.
+ */
+export function readGrokConfigFile(path: string): GrokConfigInput {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `Cannot read Grok config "${path}": ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+  const parsed = GrokConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid Grok config "${path}": ${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/** Collect GROK_* environment overrides. Numbers are validated by the schema. */
+function envOverrides(env: NodeJS.ProcessEnv): GrokConfigInput {
+  const num = (value: string | undefined) => (value ? Number(value) : undefined);
+  const raw = {
+    base_url: env.GROK_BASE_URL || undefined,
+    defaults: {
+      model: env.GROK_MODEL || undefined,
+      timeout_ms: num(env.GROK_TIMEOUT_MS),
+      max_output_tokens: num(env.GROK_MAX_OUTPUT_TOKENS),
+    },
+    vision: { model: env.GROK_VISION_MODEL || undefined },
+  };
+  const parsed = GrokConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid Grok configuration in environment: ${formatIssues(parsed.error)}`);
+  }
+  // Drop unset keys so they don't mask values from the file.
+  return JSON.parse(JSON.stringify(parsed.data)) as GrokConfigInput;
+}
+
+/**
+ * Resolve the configuration: built-in defaults, then GROK_CONFIG_FILE, then
+ * individual GROK_* environment variables.
+ *
+ * @param env  Environment to read (defaults to process.env).
+ * @throws Error  On an unreadable / invalid file or invalid environment values.
+ */
+export function loadGrokConfig(env: NodeJS.ProcessEnv = process.env): GrokConfig {
+  let config = DEFAULT_GROK_CONFIG;
+  if (env.GROK_CONFIG_FILE) {
+    config = mergeGrokConfig(config, readGrokConfigFile(env.GROK_CONFIG_FILE));
+  }
+  return mergeGrokConfig(config, envOverrides(env));
+}
@@ -56,3 +56,73 @@ export class GrokCircuitOpenError extends GrokError {
     this.name = "GrokCircuitOpenError";
   }
 }
+
+/**
+ * Thrown by the local RateLimiter before any API call is made, when a client
+ * exceeds the per-tool requests-per-minute rate or its daily call budget.
+ *
+ * Mirrors GrokRateLimitError: `retryAfterMs` is when the call would next be
+ * admitted. `limit` tells which of the two ceilings was hit.
+ */
+export class GrokQuotaExceededError extends GrokError {
+  constructor(
+    public readonly tool: string,
+    public readonly limit: "rate" | "daily",
+    public readonly retryAfterMs: number
+  ) {
+    const what = limit === "rate" ? "requests-per-minute limit" : "daily call budget";
+    super(
+      `Local ${what} reached for ${tool}. Retry after ${Math.ceil(retryAfterMs / 1000)}s.`
+    );
+    this.name = "GrokQuotaExceededError";
+  }
+}
+
+/**
+ * Thrown before an API call when the configured hard spending ceiling for
+ * the current UTC day or month has been reached (see BudgetGuard).
+ * Non-retryable until the period rolls over or the operator raises the limit.
+ */
+export class GrokBudgetExceededError extends GrokError {
+  constructor(
+    public readonly period: "daily" | "monthly",
+    public readonly spentUsd: number,
+    public readonly limitUsd: number
+  ) {
+    super(
+      `Grok ${period} spending limit reached ($${spentUsd.toFixed(2)} of $${limitUsd.toFixed(2)}). ` +
+        `Calls are blocked until the ${period === "daily" ? "day" : "month"} rolls over (UTC).`
+    );
+    this.name = "GrokBudgetExceededError";
+  }
+}
+
+/**
+ * Thrown when the MCP client cancels the request (its AbortSignal fired)
+ * while a Grok call was pending or about to start. In-flight API calls are
+ * aborted, so no further tokens are spent on the cancelled request.
+ */
+export class GrokCancelledError extends GrokError {
+  constructor() {
+    super("Request cancelled by the client.");
+    this.name = "GrokCancelledError";
+  }
+}
+
+/**
+ * Thrown in fixture replay mode when no recording matches a request —
+ * usually because a prompt, schema or x_search filter changed since the
+ * fixtures were recorded. Re-record with GROK_FIXTURES_MODE=record.
+ */
+export class GrokFixtureMissError extends GrokError {
+  constructor(
+    public readonly label: string,
+    public readonly path: string
+  ) {
+    super(
+      `No recorded Grok fixture for ${label} (expected ${path}). ` +
+        `Re-record with GROK_FIXTURES_MODE=record.`
+    );
+    this.name = "GrokFixtureMissError";
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Background poller behind MCP resource subscriptions.
+ *
+ * A feed is a subscribable resource that returns a page of tweets (a user
+ * timeline, a mention feed, a saved search). While at least one listener
+ * watches a feed it is re-fetched every `intervalMs`; when the page contains
+ * a tweet newer than the feed's high-water mark (see `computeHighWaterMark`
+ * in utils.ts) every listener is called with the feed URI.
+ *
+ * One poller is shared by all sessions, so a feed watched by several clients
+ * is fetched once per interval. Each listener brings its own fetcher; a feed
+ * is fetched with the fetcher of its longest-standing listener, so when that
+ * listener leaves the next one takes over. The first fetch, made as soon as a
+ * feed is watched, only records the high-water mark. Fetch failures are
+ * logged and retried on the next tick; they never reach the listeners.
+ *
+ * Usage:
+ *   const poller = new FeedPoller(5 * 60_000);
+ *   const unwatch = poller.watch("x://user/jack/tweets", fetchPage, (uri) => notify(uri));
+ *   unwatch();       // stops polling once the feed has no listeners left
+ *   poller.close();  // stops the timer
+ */
+
+import { log } from "./logger.js";
+import { computeHighWaterMark } from "./utils.js";
+
+/** Fetch the current first page of a feed. */
+export type FeedFetcher = () => Promise<{ tweets: ReadonlyArray<{ id: string }> }>;
+
+/** Called with the feed URI when new tweets appear. */
+export type FeedListener = (uri: string) => void;
+
+interface WatchedFeed {
+  /** Listeners and their fetchers, oldest first — the first one fetches. */
+  listeners: Map<FeedListener, FeedFetcher>;
+  /** True once a fetch has succeeded — later tweets are news. */
+  baselined: boolean;
+  /** Newest tweet ID seen so far; undefined while every page was empty. */
+  highWater?: string;
+}
+
+export class FeedPoller {
+  private readonly feeds = new Map<string, WatchedFeed>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private readonly intervalMs: number) {}
+
+  /** Number of feeds currently polled. */
+  get size(): number {
+    return this.feeds.size;
+  }
+
+  /**
+   * Start watching `uri`. The first listener of a feed triggers the baseline
+   * fetch; `fetch` is used once every earlier listener has left.
+   *
+   * @returns  Function removing `listener` again.
+   */
+  watch(uri: string, fetch: FeedFetcher, listener: FeedListener): () => void {
+    let feed = this.feeds.get(uri);
+    const isNew = !feed;
+    if (!feed) {
+      feed = { listeners: new Map(), baselined: false };
+      this.feeds.set(uri, feed);
+    }
+    feed.listeners.set(listener, fetch);
+    if (isNew) void this.pollFeed(uri, feed);
+    this.startTimer();
+
+    return () => {
+      const current = this.feeds.get(uri);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        this.feeds.delete(uri);
+        if (this.feeds.size === 0) this.stopTimer();
+      }
+    };
+  }
+
+  /** Poll every watched feed once, one after the other. Overlapping runs are skipped. */
+  async pollOnce(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [uri, feed] of [...this.feeds]) {
+        await this.pollFeed(uri, feed);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /** Stop polling and forget every feed. */
+  close(): void {
+    this.stopTimer();
+    this.feeds.clear();
+  }
+
+  private async pollFeed(uri: string, feed: WatchedFeed): Promise<void> {
+    const [fetch] = feed.listeners.values();
+    if (!fetch) return;
+    let mark: string | undefined;
+    try {
+      mark = computeHighWaterMark((await fetch()).tweets);
+    } catch (err) {
+      log("warn", "Feed poll failed", { uri, detail: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    const previous = feed.highWater;
+    const baseline = !feed.baselined;
+    feed.baselined = true;
+    if (mark === undefined || mark === previous) return;
+    // Only move forward — a page missing the newest tweet must not re-trigger it later.
+    if (previous !== undefined && computeHighWaterMark([{ id: previous }, { id: mark }]) !== mark) return;
+
+    feed.highWater = mark;
+    if (baseline) return;
+    log("info", "New tweets in watched feed", { uri, listeners: feed.listeners.size });
+    for (const listener of feed.listeners.keys()) {
+      listener(uri);
+    }
+  }
+
+  private startTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.pollOnce(), this.intervalMs);
+    // Never keep the process alive just for polling.
+    this.timer.unref();
+  }
+
+  private stopTimer(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Record / replay fixtures for GrokClient API calls.
+ *
+ * In record mode every `responses.create` and `chat.completions.create`
+ * call goes to the real API and the request / response pair is written to
+ * one JSON file per call. In replay mode the same calls are answered from
+ * those files and never reach the network — a request without a recording
+ * fails with GrokFixtureMissError, so prompt changes surface as misses
+ * instead of silently passing.
+ *
+ * Fixture key:
+ *   x_search queries — normalised prompt + schema name + x_search params
+ *   vision calls     — normalised prompt + media URL
+ * Prompts are normalised by trimming and collapsing whitespace runs, so
+ * re-indenting a template literal does not invalidate recordings. The model
+ * is deliberately not part of the key: recordings stay valid when the model
+ * configuration changes.
+ *
+ * Files are named `<schema name | vision>-<key hash>.json` and contain
+ * `{ key, request, response }`, readable enough to review in diffs.
+ *
+ * Enabled in index.ts with GROK_FIXTURES_MODE=record|replay and
+ * GROK_FIXTURES_DIR=<directory>.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { GrokFixtureMissError } from "./errors.js";
+import { log } from "./logger.js";
+
+export type FixtureMode = "record" | "replay";
+
+/** Fields identifying a recorded call. */
+export interface FixtureKey {
+  kind: "responses" | "chat";
+  prompt: string;
+  schema_name?: string;
+  x_search?: object;
+  media_url?: string;
+}
+
+interface FixtureFile {
+  key: FixtureKey;
+  request: unknown;
+  response: unknown;
+}
+
+/** Collapse whitespace so formatting-only prompt edits keep the same key. */
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, " ");
+}
+
+/** JSON with object keys sorted at every level — stable across key order. */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+export class FixtureStore {
+  /**
+   * @param dir   Directory holding the fixture files (created on first record).
+   * @param mode  "record" to call the API and save, "replay" to serve from disk.
+   */
+  constructor(
+    readonly dir: string,
+    readonly mode: FixtureMode
+  ) {}
+
+  /** Path of the fixture file for `key`. */
+  pathFor(key: FixtureKey): string {
+    const normalized: FixtureKey = { ...key, prompt: normalizePrompt(key.prompt) };
+    const hash = createHash("sha256").update(canonicalJson(normalized)).digest("hex").slice(0, 16);
+    const label = (key.schema_name ?? "vision").replace(/[^A-Za-z0-9_-]/g, "_");
+    return join(this.dir, `${label}-${hash}.json`);
+  }
+
+  /**
+   * Serve a call from its recording (replay) or perform and record it (record).
+   *
+   * @param key      Identity of the call.
+   * @param request  Request body, saved alongside the response for review.
+   * @param call     Performs the real API call (never invoked in replay mode).
+   * @throws GrokFixtureMissError  In replay mode, when no recording exists.
+   */
+  async run<T>(key: FixtureKey, request: unknown, call: () => Promise<T>): Promise<T> {
+    const path = this.pathFor(key);
+
+    if (this.mode === "replay") {
+      let stored: FixtureFile;
+      try {
+        stored = JSON.parse(readFileSync(path, "utf-8")) as FixtureFile;
+      } catch {
+        throw new GrokFixtureMissError(key.schema_name ?? `vision ${key.media_url ?? ""}`.trim(), path);
+      }
+      return stored.response as T;
+    }
+
+    const response = await call();
+    const file: FixtureFile = {
+      key: { ...key, prompt: normalizePrompt(key.prompt) },
+      request,
+      response,
+    };
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(path, JSON.stringify(file, null, 2) + "\n", "utf-8");
+    log("debug", "Recorded Grok fixture", { path });
+    return response;
+  }
+}
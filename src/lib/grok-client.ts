@@ -2,7 +2,8 @@
  * GrokClient — Thin wrapper around the Grok API (x.ai)
  *
  * Grok exposes an OpenAI-compatible API endpoint, so we reuse the `openai`
- * npm package with a custom baseURL pointing to api.x.ai.
+ * npm package with a custom baseURL pointing to api.x.ai (configurable, see
+ * lib/config.ts — models, timeouts and output caps can be set per tool).
  *
  * The key capability used here is the `x_search` tool, which lets Grok search
  * Twitter/X in real time as part of the model's response generation.
@@ -10,19 +11,62 @@
  * Structured output:
  *  Every call uses `text.format = { type: "json_schema", ... }` to force Grok
  *  to return a JSON object that matches the provided Zod schema. We convert the
- *  Zod schema to JSON Schema via `zod-to-json-schema` with `$refStrategy:"none"`
- *  so that no `$ref` / `$defs` nodes are emitted (Grok rejects those).
+ *  Zod schema to JSON Schema with Zod's own `z.toJSONSchema()`, which inlines
+ *  sub-schemas so that no `$ref` / `$defs` nodes are emitted (Grok rejects those).
+ *
+ * Truncated output:
+ *  Responses cut off at `max_output_tokens` are recovered in `query()` —
+ *  complete items are salvaged from collection results (lib/json-salvage.ts),
+ *  anything else is retried once with a request for a smaller answer.
+ *
+ * Validation:
+ *  Responses that fail the Zod schema are repaired item by item
+ *  (lib/schema-repair.ts) before one corrective follow-up call is made.
+ *
+ * Usage accounting:
+ *  The `usage` block of every API response is reported to a UsageTracker,
+ *  attributed to the MCP tool named in the current request context, and
+ *  added to that call's per-request totals (see `_meta.usage` in server.ts).
+ *
+ * Spending budget:
+ *  When a BudgetGuard is supplied, every x_search query is checked against
+ *  the hard spending ceiling first and its cost is recorded afterwards.
+ *  Vision calls are optional work and are skipped (empty summary) once the
+ *  soft ceiling is reached.
+ *
+ * Cancellation and progress:
+ *  Every API call receives the AbortSignal of the current request context,
+ *  so a request cancelled by the MCP client stops its in-flight calls (and
+ *  their cost) and raises GrokCancelledError. Each x_search call reports its
+ *  start and its response as progress stages.
+ *
+ * Request coalescing:
+ *  Identical queries (same prompt, schema name and x_search params, and the
+ *  same model, output cap and continuation setting for the calling tool) that
+ *  overlap in time share one upstream call: the first starts it, later ones
+ *  wait for its outcome — result or error. Each caller receives its own copy
+ *  of the result. Usage and cost are recorded once, for the request that made
+ *  the call. Nothing is kept once the call settles; caching is up to the
+ *  callers (lib/tool-cache.ts).
+ *
+ * Fixtures:
+ *  With a FixtureStore, API calls are recorded to or replayed from disk
+ *  (see lib/fixtures.ts); everything else — validation, usage, budget,
+ *  circuit breaker — runs unchanged on the replayed responses.
  */
 
 import OpenAI from "openai";
-import { zodToJsonSchema } from "zod-to-json-schema";
-import type { ZodType } from "zod";
-import { GrokAuthError, GrokRateLimitError } from "./errors.js";
+import { z, type ZodType } from "zod";
+import { GrokAuthError, GrokCancelledError, GrokFixtureMissError, GrokRateLimitError } from "./errors.js";
 import { CircuitBreaker } from "./circuit-breaker.js";
 import { log } from "./logger.js";
-
-/** Model identifier for the Grok variant used by this server. */
-const MODEL = "grok-4-1-fast-non-reasoning";
+import { getRequestContext, reportProgress } from "./request-context.js";
+import { UsageTracker, UNATTRIBUTED_TOOL, addUsage, type CallUsage } from "./usage.js";
+import type { BudgetGuard } from "./budget.js";
+import { DEFAULT_GROK_CONFIG, settingsForTool, type GrokConfig, type QuerySettings } from "./config.js";
+import { canonicalJson, type FixtureKey, type FixtureStore } from "./fixtures.js";
+import { collectionKey, salvageCollection } from "./json-salvage.js";
+import { formatIssues, repairToSchema, type RepairCounts } from "./schema-repair.js";
 
 /**
  * Allowed hostnames for media URLs passed to analyzeMedia.
@@ -36,12 +80,6 @@ const ALLOWED_MEDIA_DOMAINS = new Set([
   "ton.twimg.com",
 ]);
 
-/**
- * Vision-capable model for image/video analysis.
- * Grok 2 Vision supports image_url content blocks via chat completions.
- */
-const VISION_MODEL = "grok-2-vision-1212";
-
 /**
  * Optional filters forwarded to the x_search tool.
  * All fields are optional — omit any that are not needed.
@@ -59,28 +97,160 @@ export interface XSearchParams {
   enable_video_understanding?: boolean;
 }
 
+export interface GrokClientOptions {
+  /** Receives token usage for every call. A private tracker is created when omitted. */
+  usageTracker?: UsageTracker;
+  /** Enforces spending ceilings. No limits apply when omitted. */
+  budget?: BudgetGuard;
+  /** Endpoint, models and limits. Built-in defaults (xAI endpoint) when omitted. */
+  config?: GrokConfig;
+  /** Records API calls to disk, or replays them without network access. */
+  fixtures?: FixtureStore;
+}
+
+/** One x_search request, as threaded through retries and continuations. */
+interface QueryRequest<T> {
+  prompt: string;
+  schema: ZodType<T>;
+  schemaName: string;
+  flatSchema: Record<string, unknown>;
+  xSearchParams?: XSearchParams;
+  settings: QuerySettings;
+}
+
+/** Appended to the prompt when retrying a non-collection query after truncation. */
+const REDUCED_REQUEST_SUFFIX = `
+
+IMPORTANT: a previous answer to this request exceeded the output size limit and was cut off.
+Answer again with a smaller response: cover at most half as many items as requested and keep every free-text field under 200 characters.`;
+
+/** Appended to the prompt when asking for a corrected object after failed validation. */
+function correctionSuffix(issues: string): string {
+  return `
+
+IMPORTANT: a previous answer to this request did not match the required JSON schema:
+${issues}
+Answer again with a complete JSON object that fixes these problems and matches the schema exactly.`;
+}
+
+/** Parse JSON text, returning undefined instead of throwing. */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function malformedJsonError(text: string): Error {
+  const tail = text.length > 200 ? text.slice(-200) : text;
+  return new Error(`Grok response JSON is malformed (likely truncated). Last 200 chars: ...${tail}`);
+}
+
+/** Flag a result as incomplete. The flag is added after validation, so it survives. */
+function markTruncated<T>(result: T): T {
+  return Object.assign(result as object, { truncated: true }) as T;
+}
+
+/**
+ * Report schema repairs on a result as `repair: { repaired, dropped }`, adding
+ * to counts already present. Results that needed no repair are left as is.
+ */
+function reportRepair<T>(result: T, counts: RepairCounts): T {
+  if (counts.repaired === 0 && counts.dropped === 0) return result;
+  const previous = (result as { repair?: RepairCounts }).repair;
+  return Object.assign(result as object, {
+    repair: {
+      repaired: counts.repaired + (previous?.repaired ?? 0),
+      dropped: counts.dropped + (previous?.dropped ?? 0),
+    },
+  }) as T;
+}
+
+/**
+ * Wait for `promise`, rejecting with GrokCancelledError as soon as `signal`
+ * aborts. The promise itself keeps running.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new GrokCancelledError());
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/** Stable identity of a collection item, used to de-duplicate continuations. */
+function itemIdentity(item: Record<string, unknown>): string | undefined {
+  const id = item.id ?? item.url ?? item.name;
+  return typeof id === "string" || typeof id === "number" ? String(id) : undefined;
+}
+
 export class GrokClient {
   private openai: OpenAI;
   private readonly circuitBreaker = new CircuitBreaker();
+  private readonly usageTracker: UsageTracker;
+  private readonly budgetGuard?: BudgetGuard;
+  private readonly config: GrokConfig;
+  private readonly fixtures?: FixtureStore;
+  /** Queries awaiting their response, by canonical prompt / schema name / x_search params. */
+  private readonly inFlight = new Map<string, Promise<unknown>>();
 
   /**
-   * @param apiKey  Your xAI API key (starts with "xai-").
-   *                Set via XAI_API_KEY environment variable.
+   * @param apiKey   Your xAI API key (starts with "xai-").
+   *                 Set via XAI_API_KEY environment variable.
+   * @param options  Optional collaborators (usage tracker, budget guard, config…).
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: GrokClientOptions = {}) {
+    this.usageTracker = options.usageTracker ?? new UsageTracker();
+    this.budgetGuard = options.budget;
+    this.config = options.config ?? DEFAULT_GROK_CONFIG;
+    this.fixtures = options.fixtures;
     // Use the OpenAI client library with xAI's compatible endpoint.
-    // maxRetries: 3 — the SDK retries 429 and 5xx automatically with backoff.
-    // timeout: 60 s  — Grok x_search calls can be slow (real-time Twitter search).
-    //   Without an explicit timeout the SDK default is 10 minutes, which is far
-    //   too long for an interactive MCP tool.
+    // maxRetries — the SDK retries 429 and 5xx automatically with backoff.
+    // timeout    — client-wide fallback; every call passes its own timeout
+    //   (per tool for queries, vision timeout for analyzeMedia).
     this.openai = new OpenAI({
       apiKey,
-      baseURL: "https://api.x.ai/v1",
-      maxRetries: 3,
-      timeout: 60_000,
+      baseURL: this.config.base_url,
+      maxRetries: this.config.max_retries,
+      timeout: this.config.defaults.timeout_ms,
     });
   }
 
+  /** Running token usage totals for every call made through this client. */
+  get usage(): UsageTracker {
+    return this.usageTracker;
+  }
+
+  /** Spending guard, when one is configured. */
+  get budget(): BudgetGuard | undefined {
+    return this.budgetGuard;
+  }
+
+  /** Query settings (model, timeout, output cap) for the tool in the current request context. */
+  get querySettings(): QuerySettings {
+    return settingsForTool(this.config, getRequestContext()?.tool);
+  }
+
+  /**
+   * Attribute one call's usage to the current tool (from the request context),
+   * add it to the per-call totals when the caller is collecting them, and
+   * charge its cost to the budget.
+   */
+  private recordUsage(model: string, usage: CallUsage): void {
+    const ctx = getRequestContext();
+    this.usageTracker.record(ctx?.tool ?? UNATTRIBUTED_TOOL, usage);
+    if (ctx?.usage) addUsage(ctx.usage, usage);
+    this.budgetGuard?.record(model, usage);
+  }
+
+  /** Run an API call through the fixture store when one is configured. */
+  private replayable<T>(key: FixtureKey, request: unknown, call: () => Promise<T>): Promise<T> {
+    return this.fixtures ? this.fixtures.run(key, request, call) : call();
+  }
+
   /**
    * Converts OpenAI SDK API errors into typed Grok errors and re-throws.
    * Always throws — return type `never` ensures TypeScript treats call sites
@@ -99,12 +269,33 @@ export class GrokClient {
       const retryAfterMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : undefined;
       throw new GrokRateLimitError(retryAfterMs);
     }
+    if (err instanceof OpenAI.APIUserAbortError) {
+      throw new GrokCancelledError();
+    }
     throw err;
   }
 
   /**
    * Send a natural-language prompt to Grok and receive a typed, validated result.
    *
+   * Truncated output (the model hit `max_output_tokens`) is recovered rather
+   * than lost:
+   *  - Collection schemas (`{ tweets: [...] }`, `{ links: [...] }`…): the
+   *    complete items are salvaged and the result carries `truncated: true`.
+   *    With `continue_on_truncation` configured for the tool, one continuation
+   *    call asks for the remaining items and merges them in.
+   *  - Other schemas: the request is retried once, asking for a smaller answer.
+   *
+   * Responses that parse but fail validation are repaired (lib/schema-repair.ts):
+   * invalid list items are coerced or dropped, and a root object that is still
+   * invalid triggers one follow-up call listing the Zod issues. Repaired
+   * results carry `repair: { repaired, dropped }`.
+   *
+   * A query identical to one already in flight joins it instead of making
+   * its own call, and receives a copy of the same result or the same error.
+   * When the request that started the call is cancelled, the others run the
+   * query again.
+   *
    * @param prompt       The instruction sent to Grok (role: "user").
    * @param schema       Zod schema that describes the expected response shape.
    * @param schemaName   Human-readable name for the schema (used as the JSON Schema $id).
@@ -113,7 +304,9 @@ export class GrokClient {
    *
    * Throws if:
    *  - Grok returns no text output.
-   *  - The response text is not valid JSON (e.g. truncated due to token limits).
+   *  - The response text is not valid JSON and could not be recovered.
+   *  - The corrected response still fails validation (ZodError).
+   *  - The client cancels the request (GrokCancelledError).
    */
   async query<T>(
     prompt: string,
@@ -121,85 +314,270 @@ export class GrokClient {
     schemaName: string,
     xSearchParams?: XSearchParams
   ): Promise<T> {
-    // Convert the Zod schema to a flat JSON Schema object.
-    // `$refStrategy:"none"` inlines all sub-schemas, preventing $ref / $defs
-    // nodes that the Grok structured-output endpoint does not support.
-    // Cast: zod-to-json-schema expects the Zod v3 ZodType signature; Zod v4
-    // changed the generic parameters but the runtime behaviour is identical.
-    const rawSchema = zodToJsonSchema(schema as unknown as Parameters<typeof zodToJsonSchema>[0], {
-      name: schemaName,
-      $refStrategy: "none",
-      target: "jsonSchema7",
+    // Tools configured with another model or output cap must not share a call:
+    // the settings shape the answer and how truncation is recovered.
+    const settings = this.querySettings;
+    const key = canonicalJson({
+      prompt,
+      schema_name: schemaName,
+      x_search: xSearchParams ?? {},
+      model: settings.model,
+      max_output_tokens: settings.max_output_tokens,
+      continue_on_truncation: settings.continue_on_truncation,
     });
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+    // Tools edit results in place, so nobody gets the shared object itself.
+    if (pending) {
+      const signal = getRequestContext()?.signal;
+      log("debug", "Joined an identical in-flight Grok query", { schema: schemaName });
+      try {
+        return structuredClone(await abortable(pending, signal));
+      } catch (err) {
+        // Cancelled by the request that made the call, not by this one.
+        if (err instanceof GrokCancelledError && !signal?.aborted) {
+          return this.query(prompt, schema, schemaName, xSearchParams);
+        }
+        throw err;
+      }
+    }
 
-    // When a `name` is provided, zodToJsonSchema wraps the output under
-    // { definitions: { [name]: <actual schema> } }. Extract just the schema.
-    const definitions = (rawSchema as Record<string, unknown>).definitions as
-      | Record<string, unknown>
-      | undefined;
-    const flatSchema =
-      definitions?.[schemaName] ?? rawSchema;
+    // Removed before anyone sees the outcome, so a retry never rejoins this call.
+    const call = this.runQuery(prompt, schema, schemaName, settings, xSearchParams).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, call);
+    return structuredClone(await call);
+  }
+
+  /** Make the upstream call(s) for `query()`: request, recovery, validation. */
+  private async runQuery<T>(
+    prompt: string,
+    schema: ZodType<T>,
+    schemaName: string,
+    settings: QuerySettings,
+    xSearchParams?: XSearchParams
+  ): Promise<T> {
+    // Convert the Zod schema to a flat JSON Schema object with Zod's native
+    // converter. Sub-schemas are inlined (no $ref / $defs, which the Grok
+    // structured-output endpoint does not support) as long as schemas are not
+    // recursive. `unrepresentable: "any"` turns transforms such as
+    // z.preprocess() into `{}` instead of throwing. The `$schema` marker is
+    // dropped — the endpoint only wants the schema body.
+    const flatSchema: Record<string, unknown> = z.toJSONSchema(schema, {
+      target: "draft-7",
+      unrepresentable: "any",
+    });
+    delete flatSchema.$schema;
+
+    const request: QueryRequest<T> = {
+      prompt,
+      schema,
+      schemaName,
+      flatSchema,
+      xSearchParams,
+      // Model, timeout and output cap for the tool being executed.
+      settings,
+    };
+
+    // Attempt to parse the JSON; if it fails the response was likely truncated.
+    // Then validate against the Zod schema so structurally invalid responses
+    // are caught here rather than silently corrupting downstream data.
+    const text = await this.createResponse(request);
+    const parsed = parseJson(text);
+    if (parsed === undefined) {
+      return this.recoverTruncated(request, text);
+    }
+    return this.validate(request, parsed);
+  }
+
+  /**
+   * Validate a parsed response, repairing it where possible. When the root
+   * object stays invalid, ask once for a corrected object.
+   */
+  private async validate<T>(req: QueryRequest<T>, value: unknown): Promise<T> {
+    const checked = repairToSchema(req.schema, value);
+    if (checked.success) {
+      if (checked.repaired > 0 || checked.dropped > 0) {
+        log("warn", "Grok response repaired to match the schema", {
+          schema: req.schemaName,
+          repaired: checked.repaired,
+          dropped: checked.dropped,
+        });
+      }
+      return reportRepair(checked.data, checked);
+    }
+
+    log("warn", "Grok response failed validation — asking for a corrected object", {
+      schema: req.schemaName,
+      issues: checked.error.issues.length,
+    });
+    const text = await this.createResponse({
+      ...req,
+      prompt: req.prompt + correctionSuffix(formatIssues(checked.error)),
+    });
+    const parsed = parseJson(text);
+    if (parsed === undefined) {
+      throw malformedJsonError(text);
+    }
+    const corrected = repairToSchema(req.schema, parsed);
+    if (!corrected.success) {
+      throw corrected.error;
+    }
+    // The whole object was replaced, which counts as one repair.
+    return reportRepair(corrected.data, { repaired: corrected.repaired + 1, dropped: corrected.dropped });
+  }
 
+  /**
+   * Perform one x_search call and return its raw output text.
+   * Budget and circuit checks, error mapping and usage recording happen here,
+   * so retries and continuation calls are accounted like any other call.
+   */
+  private async createResponse<T>(req: QueryRequest<T>): Promise<string> {
     // Build the x_search tool descriptor, merging in any caller-supplied filters.
     const tool: Record<string, unknown> = { type: "x_search" };
-    if (xSearchParams) {
-      Object.assign(tool, xSearchParams);
+    if (req.xSearchParams) {
+      Object.assign(tool, req.xSearchParams);
     }
 
-    // Reject immediately if the circuit is open (too many recent 5xx failures).
-    // Throws GrokCircuitOpenError without touching the API.
+    // Reject immediately if the spending ceiling has been reached
+    // (GrokBudgetExceededError) or the circuit is open (too many recent 5xx
+    // failures, GrokCircuitOpenError). Neither touches the API.
+    this.budgetGuard?.check();
     this.circuitBreaker.check();
 
-    let response: Awaited<ReturnType<typeof this.openai.responses.create>>;
+    // A cancelled request makes no further calls (retries, continuations…).
+    const signal = getRequestContext()?.signal;
+    if (signal?.aborted) throw new GrokCancelledError();
+
+    const { settings } = req;
+    const request: OpenAI.Responses.ResponseCreateParamsNonStreaming = {
+      model: settings.model,
+      input: [{ role: "user", content: req.prompt }],
+      tools: [tool as unknown as OpenAI.Responses.Tool],
+      max_output_tokens: settings.max_output_tokens,
+      text: {
+        format: {
+          type: "json_schema",
+          name: req.schemaName,
+          schema: req.flatSchema,
+          // strict:false — some optional fields may be absent; Zod handles validation.
+          strict: false,
+        } as unknown as OpenAI.Responses.ResponseTextConfig["format"],
+      },
+    };
+
+    let response: OpenAI.Responses.Response;
+    reportProgress("x_search call started");
     try {
-      response = await this.openai.responses.create({
-        model: MODEL,
-        input: [{ role: "user", content: prompt }],
-        tools: [tool as unknown as OpenAI.Responses.Tool],
-        max_output_tokens: 16384, // Large enough for threads / bulk tweet arrays.
-        text: {
-          format: {
-            type: "json_schema",
-            name: schemaName,
-            schema: flatSchema as Record<string, unknown>,
-            // strict:false — some optional fields may be absent; Zod handles validation.
-            strict: false,
-          } as unknown as OpenAI.Responses.ResponseTextConfig["format"],
-        },
-      });
+      response = await this.replayable(
+        { kind: "responses", prompt: req.prompt, schema_name: req.schemaName, x_search: req.xSearchParams ?? {} },
+        request,
+        () => this.openai.responses.create(request, { timeout: settings.timeout_ms, signal })
+      );
     } catch (err) {
       // Only count transient (5xx / network) failures against the circuit.
       // Auth (401/403) and rate-limit (429) errors are non-transient client
       // errors — tripping the circuit for them would mask the real cause.
+      // Fixture misses never reached the network, and cancellations are the
+      // client's doing.
       const isNonTransient =
         err instanceof OpenAI.AuthenticationError ||
         err instanceof OpenAI.PermissionDeniedError ||
-        err instanceof OpenAI.RateLimitError;
+        err instanceof OpenAI.RateLimitError ||
+        err instanceof OpenAI.APIUserAbortError ||
+        err instanceof GrokFixtureMissError;
       if (!isNonTransient) {
         this.circuitBreaker.onFailure();
       }
       this.rethrowApiError(err);
     }
     this.circuitBreaker.onSuccess();
+    reportProgress("Grok response received");
+
+    // xAI extends the Responses usage object with `num_sources_used`, the
+    // number of x_search results pulled into the context (billed per source).
+    const usage = response.usage as
+      | (OpenAI.Responses.ResponseUsage & { num_sources_used?: number })
+      | undefined;
+    if (usage) {
+      this.recordUsage(settings.model, {
+        input_tokens: usage.input_tokens ?? 0,
+        output_tokens: usage.output_tokens ?? 0,
+        reasoning_tokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+        sources: usage.num_sources_used ?? 0,
+      });
+    }
 
     const text = response.output_text;
     if (!text) {
       throw new Error("Grok returned no text output.");
     }
+    return text;
+  }
+
+  /**
+   * Recover from a response whose JSON does not parse (see `query()`).
+   * Salvages the complete items of collection schemas; otherwise retries once
+   * with a request for a smaller answer.
+   */
+  private async recoverTruncated<T>(req: QueryRequest<T>, text: string): Promise<T> {
+    const key = collectionKey(req.flatSchema);
+    const salvaged = key ? salvageCollection(text, key) : undefined;
+    const validated = salvaged && repairToSchema(req.schema, salvaged.value);
+    if (key && salvaged && validated?.success) {
+      log("warn", "Grok response truncated — salvaged complete items", {
+        schema: req.schemaName,
+        items: salvaged.items,
+      });
+      const partial = reportRepair(validated.data, validated);
+      return req.settings.continue_on_truncation
+        ? this.continueCollection(req, key, partial)
+        : markTruncated(partial);
+    }
+
+    log("warn", "Grok response truncated — retrying with a reduced request", {
+      schema: req.schemaName,
+    });
+    const retryText = await this.createResponse({ ...req, prompt: req.prompt + REDUCED_REQUEST_SUFFIX });
+    const parsed = parseJson(retryText);
+    if (parsed === undefined) {
+      throw malformedJsonError(retryText);
+    }
+    return this.validate(req, parsed);
+  }
+
+  /**
+   * Ask once for the items missing from a salvaged collection and merge them
+   * in, skipping duplicates. Any failure keeps the salvaged result as is.
+   */
+  private async continueCollection<T>(req: QueryRequest<T>, key: string, partial: T): Promise<T> {
+    const received = (partial as Record<string, unknown>)[key] as Record<string, unknown>[];
+    const seen = new Set(received.map(itemIdentity).filter((id) => id !== undefined));
+    const prompt = `${req.prompt}
+
+CONTINUATION: a previous answer to this request was cut off after ${received.length} items in "${key}".
+These items were already received — do NOT repeat them: ${[...seen].join(", ")}.
+Return only the remaining items.`;
 
-    // Attempt to parse the JSON; if it fails the response was likely truncated.
-    // Then validate against the Zod schema so structurally invalid responses
-    // are caught here rather than silently corrupting downstream data.
-    let parsed: unknown;
     try {
-      parsed = JSON.parse(text);
-    } catch {
-      const truncated = text.length > 200 ? text.slice(-200) : text;
-      throw new Error(
-        `Grok response JSON is malformed (likely truncated). Last 200 chars: ...${truncated}`
+      const text = await this.createResponse({ ...req, prompt });
+      const parsed = parseJson(text);
+      const rest = parsed !== undefined ? parsed : salvageCollection(text, key)?.value;
+      const validated = rest !== undefined ? repairToSchema(req.schema, rest) : undefined;
+      if (!validated?.success) throw new Error("continuation response could not be recovered");
+
+      const more = (validated.data as Record<string, unknown>)[key] as Record<string, unknown>[];
+      const merged = reportRepair(
+        { ...partial, [key]: [...received, ...more.filter((item) => !seen.has(itemIdentity(item) ?? ""))] } as T,
+        validated
       );
+      // A continuation that was itself cut off leaves the result incomplete.
+      return parsed !== undefined ? merged : markTruncated(merged);
+    } catch (err) {
+      log("warn", "Continuation after truncation failed — returning salvaged items", {
+        schema: req.schemaName,
+        detail: err instanceof Error ? err.message : String(err),
+      });
+      return markTruncated(partial);
     }
-    return schema.parse(parsed);
   }
 
   /**
@@ -212,6 +590,7 @@ export class GrokClient {
    * @param mediaType   Type de média : "image" | "video" | "gif".
    * @param tweetText   Texte du tweet (contexte fourni au modèle pour un meilleur résumé).
    * @returns           Résumé textuel du contenu du média, ou chaîne vide si l'analyse échoue.
+   * @throws GrokCancelledError  Si le client annule la requête (l'appel en cours est interrompu).
    */
   async analyzeMedia(
     mediaUrl: string,
@@ -233,6 +612,17 @@ export class GrokClient {
       return "";
     }
 
+    // Stop enrichment as soon as the request is cancelled.
+    const signal = getRequestContext()?.signal;
+    if (signal?.aborted) throw new GrokCancelledError();
+
+    // Media summaries are optional — skip them once the soft spending
+    // ceiling is reached (this also covers the hard ceiling, which is higher).
+    if (this.budgetGuard?.softLimited) {
+      log("debug", "analyzeMedia skipped: soft spending limit reached", { url: mediaUrl });
+      return "";
+    }
+
     const contextLine = tweetText
       ? `This media comes from a tweet with the following text: "${tweetText}". `
       : "";
@@ -243,24 +633,34 @@ export class GrokClient {
         : `${contextLine}Describe in detail the content of this image (subject, visible text, context, important elements).`;
 
     try {
-      const response = await this.openai.chat.completions.create(
-        {
-          model: VISION_MODEL,
-          messages: [
-            {
-              role: "user",
-              content: [
-                { type: "text", text: prompt },
-                { type: "image_url", image_url: { url: mediaUrl } },
-              ],
-            },
-          ],
-          max_tokens: 512,
-        },
-        // Vision analysis is faster than x_search — 30 s is plenty.
-        { timeout: 30_000 }
+      const request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+        model: this.config.vision.model,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: mediaUrl } },
+            ],
+          },
+        ],
+        max_tokens: this.config.vision.max_tokens,
+      };
+      const response = await this.replayable(
+        { kind: "chat", prompt, media_url: mediaUrl },
+        request,
+        () => this.openai.chat.completions.create(request, { timeout: this.config.vision.timeout_ms, signal })
       );
 
+      if (response.usage) {
+        this.recordUsage(this.config.vision.model, {
+          input_tokens: response.usage.prompt_tokens ?? 0,
+          output_tokens: response.usage.completion_tokens ?? 0,
+          reasoning_tokens: response.usage.completion_tokens_details?.reasoning_tokens ?? 0,
+          sources: 0,
+        });
+      }
+
       return response.choices[0]?.message?.content?.trim() ?? "";
     } catch (err) {
       // Auth errors are fatal — rethrow so the caller surfaces them properly.
@@ -270,6 +670,10 @@ export class GrokClient {
       ) {
         throw new GrokAuthError();
       }
+      // A replay miss means the recordings are stale — don't hide it.
+      if (err instanceof GrokFixtureMissError) throw err;
+      // Cancellation ends the whole tool call, not just this summary.
+      if (err instanceof OpenAI.APIUserAbortError) throw new GrokCancelledError();
       // All other failures are non-fatal: media analysis is optional.
       log("warn", "analyzeMedia failed", {
         url: mediaUrl,
@@ -0,0 +1,300 @@
+/**
+ * Streamable HTTP front-end for the MCP server.
+ *
+ * Serves the MCP Streamable HTTP transport on a single endpoint (`/mcp`) so
+ * one shared server process can back several MCP hosts over the network.
+ *
+ * Two session modes:
+ *   stateful  (default) — the `initialize` request creates a session with a
+ *             random `Mcp-Session-Id`; later requests carrying that header are
+ *             routed to the same transport + McpServer pair. GET opens the
+ *             server-to-client SSE stream, DELETE ends the session.
+ *             Clients that go away without DELETE would leave their session
+ *             open for good, so a session with no request in flight for
+ *             `sessionIdleMs` is closed, and at most `maxSessions` are open
+ *             at once (further `initialize` requests get 503).
+ *   stateless — every POST gets a throw-away server + transport pair that is
+ *             closed as soon as the response finishes. GET and DELETE are
+ *             rejected with 405 because there is no session to attach to.
+ *
+ * An McpServer can only be connected to one transport, so the caller passes a
+ * factory (see createServer in server.ts) rather than a server instance.
+ *
+ * Authentication:
+ *   When an `authenticate` callback is supplied, every request must carry a
+ *   valid bearer token or it is rejected with 401. The resulting AuthInfo is
+ *   attached to the request (the SDK forwards it to tool handlers as
+ *   `extra.authInfo`) and the client ID is placed in the request context so
+ *   it appears in log entries. A session is bound to the client that opened
+ *   it — another client presenting its session ID gets 403.
+ */
+
+import { createServer as createHttpServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { log } from "./logger.js";
+import { runWithRequestContext } from "./request-context.js";
+
+/** Path the MCP endpoint is served on. Every other path returns 404. */
+const MCP_PATH = "/mcp";
+
+/** Upper bound on a JSON-RPC request body — tool inputs are small. */
+const MAX_BODY_BYTES = 1_000_000;
+
+/** Default idle time after which a stateful session is closed. */
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60_000;
+
+/** Default cap on open stateful sessions. */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+export interface HttpServerOptions {
+  /** Factory returning a fresh McpServer for each session (or request in stateless mode). */
+  createServer: () => McpServer;
+  /** TCP port to listen on. Use 0 to let the OS pick a free port. */
+  port: number;
+  /** Interface to bind to (default "127.0.0.1"). */
+  host?: string;
+  /** When true, no session IDs are issued and each POST is handled in isolation. */
+  stateless?: boolean;
+  /**
+   * Close a stateful session once it has had no request in flight for this
+   * many ms (default 30 minutes). An open SSE stream counts as in flight.
+   */
+  sessionIdleMs?: number;
+  /** Most stateful sessions open at once (default 100). */
+  maxSessions?: number;
+  /**
+   * Resolve the caller's identity from the request (e.g. a bearer token).
+   * Return undefined to reject with 401. Omit to disable authentication.
+   */
+  authenticate?: (req: IncomingMessage) => AuthInfo | undefined;
+}
+
+export interface HttpServerHandle {
+  /** Port actually bound (useful when `port: 0` was requested). */
+  readonly port: number;
+  /** Number of currently open sessions (always 0 in stateless mode). */
+  readonly sessionCount: number;
+  /** Close every open session, then stop accepting connections. */
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Client that opened the session (undefined when auth is disabled). */
+  clientId?: string;
+  /** Requests (including SSE streams) currently being served. */
+  active: number;
+  /** Pending idle close, armed while no request is in flight. */
+  idleTimer?: NodeJS.Timeout;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+/** Write a JSON-RPC error envelope with the given HTTP status. */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null })
+  );
+}
+
+/** Read and JSON-parse the request body. Resolves `undefined` for an empty body. */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large.");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Start the Streamable HTTP server.
+ *
+ * @param options  Factory, bind address and session mode.
+ * @returns        A handle exposing the bound port and a `close()` method.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const stateless = options.stateless ?? false;
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const sessions = new Map<string, Session>();
+  /** `initialize` requests admitted under the cap whose session is not registered yet. */
+  let initializing = 0;
+
+  /** Count `res` as in flight for the session; start the idle countdown when the last one ends. */
+  function track(id: string, session: Session, res: ServerResponse) {
+    session.active++;
+    clearTimeout(session.idleTimer);
+    res.on("close", () => {
+      if (--session.active > 0 || !sessions.has(id)) return;
+      session.idleTimer = setTimeout(() => {
+        log("info", "HTTP session idle — closing", { sessionId: id, idleMs: sessionIdleMs });
+        void session.transport.close();
+      }, sessionIdleMs);
+      // Never keep the process alive just to expire a session.
+      session.idleTimer.unref();
+    });
+  }
+
+  /** Stateless mode: one server + transport per POST, torn down when the response ends. */
+  async function handleStateless(req: AuthenticatedRequest, res: ServerResponse, body: unknown) {
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 405, -32000, "Method not allowed in stateless mode.");
+      return;
+    }
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => {
+      void transport.close();
+      void server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /** Stateful mode: route by Mcp-Session-Id, creating a session on `initialize`. */
+  async function handleStateful(req: AuthenticatedRequest, res: ServerResponse, body: unknown) {
+    const header = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, "Session not found.");
+        return;
+      }
+      if (session.clientId !== req.auth?.clientId) {
+        sendJsonRpcError(res, 403, -32000, "Session belongs to another client.");
+        return;
+      }
+      track(sessionId, session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided.");
+      return;
+    }
+    if (sessions.size + initializing >= maxSessions) {
+      log("warn", "HTTP session rejected: too many open sessions", { maxSessions });
+      sendJsonRpcError(res, 503, -32000, "Too many open sessions. Close one or try again later.");
+      return;
+    }
+
+    // The session only enters the map once `initialize` has been handled, so
+    // reserve its slot now — concurrent initialize requests would otherwise
+    // all pass the check above while this one is awaited.
+    initializing++;
+    let reserved = true;
+    const release = () => {
+      if (reserved) initializing--;
+      reserved = false;
+    };
+
+    const server = options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        release();
+        const session: Session = { transport, server, clientId: req.auth?.clientId, active: 0 };
+        sessions.set(id, session);
+        track(id, session, res);
+        log("info", "HTTP session opened", { sessionId: id, sessions: sessions.size });
+      },
+    });
+    // Closing the transport also closes the McpServer bound to it (connect()
+    // chains the handlers), so only the session map needs cleaning up here.
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id) clearTimeout(sessions.get(id)?.idleTimer);
+      if (id && sessions.delete(id)) {
+        log("info", "HTTP session closed", { sessionId: id, sessions: sessions.size });
+      }
+    };
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      release();
+    }
+  }
+
+  const httpServer: Server = createHttpServer((req: AuthenticatedRequest, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== MCP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (options.authenticate) {
+      const auth = options.authenticate(req);
+      if (!auth) {
+        log("warn", "HTTP request rejected: missing or invalid bearer token", {
+          remote: req.socket.remoteAddress,
+        });
+        res.setHeader("WWW-Authenticate", 'Bearer realm="mcp-x-query"');
+        sendJsonRpcError(res, 401, -32001, "Unauthorized: missing or invalid bearer token.");
+        return;
+      }
+      req.auth = auth;
+    }
+
+    void runWithRequestContext({ clientId: req.auth?.clientId }, async () => {
+      let body: unknown;
+      try {
+        body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      } catch (err) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      try {
+        await (stateless ? handleStateless(req, res, body) : handleStateful(req, res, body));
+      } catch (err) {
+        log("error", "HTTP request failed", {
+          detail: err instanceof Error ? err.message : String(err),
+        });
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, "Internal server error.");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host ?? "127.0.0.1", () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    get sessionCount() {
+      return sessions.size;
+    },
+    async close() {
+      // Snapshot first: transport.onclose deletes from the map while we iterate.
+      const open = [...sessions.values()];
+      sessions.clear();
+      for (const { idleTimer } of open) clearTimeout(idleTimer);
+      await Promise.allSettled(open.map(({ transport }) => transport.close()));
+      // Long-lived SSE streams would otherwise keep server.close() waiting forever.
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
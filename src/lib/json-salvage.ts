@@ -0,0 +1,83 @@
+/**
+ * Salvage of truncated JSON responses.
+ *
+ * When Grok hits its output token cap the JSON text simply stops, mid-string
+ * or mid-object. For "collection" schemas — a root object whose only array
+ * property holds objects, e.g. `{ tweets: [...] }` or
+ * `{ username, total_links, links: [...] }` — every item that was closed
+ * before the cut is still usable. `salvageCollection()` keeps those items,
+ * drops the incomplete tail, and closes the open brackets so the result can
+ * be parsed and validated as usual.
+ *
+ * Only structure is repaired; no values are invented. Scalar fields that
+ * Grok had not emitted yet (e.g. ones placed after the array) stay absent,
+ * and schema validation decides whether the salvaged object is acceptable.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Name of the collection array in `schema`, or undefined when the schema is
+ * not collection-shaped (no root array of objects, or more than one array).
+ */
+export function collectionKey(schema: JsonSchema): string | undefined {
+  if (schema.type !== "object") return undefined;
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const arrays = Object.entries(properties).filter(([, sub]) => sub.type === "array");
+  if (arrays.length !== 1) return undefined;
+  const [key, sub] = arrays[0];
+  const items = (sub.items ?? {}) as JsonSchema;
+  return items.type === "object" ? key : undefined;
+}
+
+export interface SalvagedCollection {
+  /** Root object holding only the complete items. */
+  value: Record<string, unknown>;
+  /** Number of complete items recovered. */
+  items: number;
+}
+
+/**
+ * Recover the complete items of `key` from a truncated JSON document.
+ *
+ * @returns  The repaired root object, or undefined when no complete item
+ *           precedes the cut (or the text is not a truncated object).
+ */
+export function salvageCollection(text: string, key: string): SalvagedCollection | undefined {
+  // Bracket stack of the document scanned so far, and the last offset where
+  // an item of the root-level array had just been closed.
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let cut = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{" || ch === "[") stack.push(ch);
+    else if (ch === "}" || ch === "]") {
+      stack.pop();
+      // Closed an item of an array sitting directly in the root object.
+      if (stack.length === 2 && stack[0] === "{" && stack[1] === "[") cut = i + 1;
+    }
+  }
+
+  if (cut < 0) return undefined;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(0, cut) + "]}");
+  } catch {
+    return undefined;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const items = (value as Record<string, unknown>)[key];
+  if (!Array.isArray(items) || items.length === 0) return undefined;
+  return { value: value as Record<string, unknown>, items: items.length };
+}
@@ -4,9 +4,14 @@
  * Emits newline-delimited JSON to stderr.
  * stdout is reserved for the MCP stdio transport and must never be used for logs.
  *
- * Log format: {"level":"...","msg":"...","ts":<unix_ms>[,"tool":"..."][,...]}
+ * Log format: {"level":"...","msg":"...","ts":<unix_ms>[,"client":"..."][,"tool":"..."][,...]}
+ *
+ * `client` is added automatically when the entry is written inside a request
+ * context that carries an authenticated client identity (HTTP transport).
  */
 
+import { getRequestContext } from "./request-context.js";
+
 export type LogLevel = "debug" | "info" | "warn" | "error" | "fatal";
 
 /**
@@ -22,6 +27,8 @@ export function log(
   extra?: Record<string, unknown>
 ): void {
   const entry: Record<string, unknown> = { level, msg, ts: Date.now() };
+  const clientId = getRequestContext()?.clientId;
+  if (clientId) entry.client = clientId;
   if (extra) Object.assign(entry, extra);
   process.stderr.write(JSON.stringify(entry) + "\n");
 }
@@ -0,0 +1,57 @@
+/**
+ * Grok Vision summaries for the media of a list of tweets.
+ *
+ * Shared by the tools with an `enrich_media` option (get_user_tweets,
+ * search_tweets, get_list_tweets, get_tweets, get_quote_tweets). Every
+ * image / GIF, and the thumbnail of every video, goes through
+ * GrokClient.analyzeMedia() concurrently; a non-empty summary is stored as
+ * the item's `media_summary`. A progress stage is reported as each item
+ * completes ("Media enrichment: item 2 of 5").
+ *
+ * Usage:
+ *   result.tweets = await enrichMedia(client, result.tweets);
+ */
+
+import type { GrokClient } from "./grok-client.js";
+import { reportProgress } from "./request-context.js";
+
+/** The parts of a media item analyzeMedia() needs. */
+interface MediaItem {
+  type: "image" | "video" | "gif";
+  url?: string | null;
+  thumbnail_url?: string | null;
+}
+
+/** The parts of a tweet enrichMedia() reads and rewrites. */
+interface TweetWithMedia {
+  text: string;
+  media?: MediaItem[] | null;
+}
+
+/**
+ * Add a `media_summary` to each media item of `tweets`.
+ *
+ * @param client  Shared GrokClient (vision model, budget, cancellation).
+ * @param tweets  Tweets to enrich; not modified.
+ * @returns       The tweets in the same order, those with media replaced by
+ *                enriched copies.
+ */
+export async function enrichMedia<T extends TweetWithMedia>(client: GrokClient, tweets: T[]): Promise<T[]> {
+  const total = tweets.reduce((n, tweet) => n + (tweet.media?.length ?? 0), 0);
+  let done = 0;
+  return Promise.all(
+    tweets.map(async (tweet) => {
+      if (!tweet.media || tweet.media.length === 0) return tweet;
+      const enrichedMedia = await Promise.all(
+        tweet.media.map(async (item) => {
+          // For videos use the thumbnail (static frame); for images/GIFs the direct URL.
+          const urlToAnalyze = item.type === "video" ? (item.thumbnail_url ?? item.url) : item.url;
+          const summary = urlToAnalyze ? await client.analyzeMedia(urlToAnalyze, item.type, tweet.text) : "";
+          reportProgress(`Media enrichment: item ${++done} of ${total}`);
+          return summary ? { ...item, media_summary: summary } : item;
+        })
+      );
+      return { ...tweet, media: enrichedMedia } as T;
+    })
+  );
+}
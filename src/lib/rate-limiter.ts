@@ -0,0 +1,182 @@
+/**
+ * Local request limiter sitting in front of GrokClient.
+ *
+ * Two independent ceilings are enforced for every (tool, client) pair:
+ *   - requests per minute — a token bucket whose capacity equals the
+ *     per-minute rate, so short bursts are allowed but the sustained rate
+ *     cannot exceed it;
+ *   - daily call budget   — a plain counter reset at 00:00 UTC.
+ *
+ * A call is admitted only when both ceilings allow it; otherwise
+ * GrokQuotaExceededError is thrown with the delay until it would be admitted,
+ * before any upstream quota is spent.
+ *
+ * Limits are configured per tool (expensive analysis tools get tighter ones)
+ * and may be overridden per client. Clients are identified by the name from
+ * the auth token file; unauthenticated callers (stdio) share the "local" key.
+ *
+ * Override file format (path in MCP_LIMITS_FILE), every field optional:
+ *
+ *   {
+ *     "default": { "requests_per_minute": 30, "daily_limit": 1000 },
+ *     "tools":   { "analyze_sentiment": { "requests_per_minute": 2 } },
+ *     "clients": { "ci-bot": { "tools": { "get_tweet": { "daily_limit": 50 } } } }
+ *   }
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { GrokQuotaExceededError } from "./errors.js";
+
+const LimitSchema = z.object({
+  // At least 1: the bucket holds `requests_per_minute` tokens and a call needs
+  // a whole one, so a smaller rate would reject every call forever.
+  requests_per_minute: z.number().min(1).optional().describe("Sustained request rate (also the burst size)"),
+  daily_limit: z.number().int().positive().optional().describe("Maximum calls per UTC day"),
+});
+
+const LimitSetSchema = z.object({
+  default: LimitSchema.optional(),
+  tools: z.record(z.string(), LimitSchema).optional(),
+});
+
+/** Schema of the MCP_LIMITS_FILE override file. */
+export const RateLimitConfigSchema = LimitSetSchema.extend({
+  clients: z.record(z.string(), LimitSetSchema).optional(),
+});
+
+export type ToolLimit = z.infer<typeof LimitSchema>;
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
+
+/**
+ * Built-in limits. Cheap lookups get generous ceilings; the analysis tools,
+ * which pull large corpora through x_search, get much tighter ones.
+ * Tools not listed fall back to `DEFAULT_LIMIT`.
+ */
+const DEFAULT_LIMIT: Required<ToolLimit> = { requests_per_minute: 30, daily_limit: 1000 };
+
+const DEFAULT_TOOL_LIMITS: Record<string, ToolLimit> = {
+  get_tweet:         { requests_per_minute: 60, daily_limit: 2000 },
+  get_user_profile:  { requests_per_minute: 60, daily_limit: 2000 },
+  get_trending:      { requests_per_minute: 20, daily_limit: 500 },
+  analyze_sentiment: { requests_per_minute: 5,  daily_limit: 100 },
+  analyze_thread:    { requests_per_minute: 5,  daily_limit: 100 },
+  extract_links:     { requests_per_minute: 5,  daily_limit: 100 },
+};
+
+/** Identity used for callers without an authenticated client name. */
+const ANONYMOUS_CLIENT = "local";
+
+const MS_PER_MINUTE = 60_000;
+
+/** Milliseconds until the next 00:00 UTC. */
+function msUntilUtcMidnight(now: number): number {
+  const d = new Date(now);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1) - now;
+}
+
+/** Current UTC day as YYYY-MM-DD — used to detect the daily reset. */
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  day: string;
+  dailyCount: number;
+}
+
+export class RateLimiter {
+  private readonly state = new Map<string, BucketState>();
+
+  /** @param config  Overrides merged on top of the built-in limits. */
+  constructor(private readonly config: RateLimitConfig = {}) {}
+
+  /**
+   * Load overrides from a JSON file.
+   *
+   * @throws  If the file cannot be read, is not valid JSON, or fails validation.
+   */
+  static fromFile(path: string): RateLimiter {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (err) {
+      throw new Error(
+        `Cannot read limits config "${path}": ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    const parsed = RateLimitConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      const detail = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+      throw new Error(`Invalid limits config "${path}": ${detail}`);
+    }
+    return new RateLimiter(parsed.data);
+  }
+
+  /**
+   * Effective limit for a tool and client. Later layers override earlier ones
+   * field by field: built-in default → built-in tool → file default → file
+   * tool → client default → client tool.
+   */
+  limitFor(tool: string, clientId?: string): Required<ToolLimit> {
+    const client = clientId ? this.config.clients?.[clientId] : undefined;
+    return Object.assign(
+      {},
+      DEFAULT_LIMIT,
+      DEFAULT_TOOL_LIMITS[tool],
+      this.config.default,
+      this.config.tools?.[tool],
+      client?.default,
+      client?.tools?.[tool]
+    );
+  }
+
+  /**
+   * Admit one call or throw.
+   *
+   * @throws GrokQuotaExceededError  When either ceiling is reached. Nothing is
+   *                                 consumed in that case.
+   */
+  consume(tool: string, clientId?: string): void {
+    const limit = this.limitFor(tool, clientId);
+    const key = `${tool}|${clientId ?? ANONYMOUS_CLIENT}`;
+    const now = Date.now();
+    const today = utcDay(now);
+
+    let bucket = this.state.get(key);
+    if (!bucket) {
+      bucket = { tokens: limit.requests_per_minute, updatedAt: now, day: today, dailyCount: 0 };
+      this.state.set(key, bucket);
+    }
+
+    // Refill proportionally to the elapsed time, capped at the burst size.
+    const refillPerMs = limit.requests_per_minute / MS_PER_MINUTE;
+    bucket.tokens = Math.min(
+      limit.requests_per_minute,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+    );
+    bucket.updatedAt = now;
+
+    if (bucket.day !== today) {
+      bucket.day = today;
+      bucket.dailyCount = 0;
+    }
+
+    if (bucket.dailyCount >= limit.daily_limit) {
+      throw new GrokQuotaExceededError(tool, "daily", msUntilUtcMidnight(now));
+    }
+    if (bucket.tokens < 1) {
+      throw new GrokQuotaExceededError(tool, "rate", Math.ceil((1 - bucket.tokens) / refillPerMs));
+    }
+
+    bucket.tokens -= 1;
+    bucket.dailyCount += 1;
+  }
+
+  /** Forget all counters. Useful in tests. */
+  reset(): void {
+    this.state.clear();
+  }
+}
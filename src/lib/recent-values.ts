@@ -0,0 +1,42 @@
+/**
+ * Bounded, most-recent-first set of strings.
+ *
+ * Remembers values seen while serving requests — tweet authors, queried
+ * list IDs — so they can be offered as argument completions. Adding a value
+ * again moves it to the front; past `maxSize` the least recently added value
+ * is forgotten. In-memory only: completions are a convenience, not state.
+ *
+ * Usage:
+ *   const seen = new RecentValues(100);
+ *   seen.add("jack");
+ *   seen.values(); // ["jack", …older values]
+ */
+export class RecentValues {
+  // Insertion order is recency order: the last value is the newest.
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly maxSize: number) {}
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  add(value: string): void {
+    this.seen.delete(value);
+    this.seen.add(value);
+    if (this.seen.size > this.maxSize) {
+      // Set iteration starts with the oldest value.
+      const oldest = this.seen.values().next().value as string;
+      this.seen.delete(oldest);
+    }
+  }
+
+  /** Values, most recently added first. */
+  values(): string[] {
+    return [...this.seen].reverse();
+  }
+
+  clear(): void {
+    this.seen.clear();
+  }
+}
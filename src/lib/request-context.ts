@@ -0,0 +1,92 @@
+/**
+ * Per-request context propagated through async calls.
+ *
+ * Built on AsyncLocalStorage so that code deep inside a tool call (the logger,
+ * GrokClient, quota checks…) can read who is calling without every function
+ * signature having to thread the value through explicitly.
+ *
+ * The context is established by `run()` in server.ts for each tool call, and
+ * by the HTTP front-end for each authenticated request.
+ *
+ * For tool calls it also carries the request's AbortSignal, which GrokClient
+ * passes to every API call, and a progress reporter that sends MCP progress
+ * notifications when the client asked for them (see `reportProgress()`).
+ * The tool cache (lib/tool-cache.ts) records the call's `cache` mode here,
+ * so tools with their own caches honour it, and the resulting cache status,
+ * which run() returns as `_meta.cache`. Tools that return partial failures
+ * instead of throwing call `markUncacheable()` so the result is not stored,
+ * and tools that serve an expired entry of their own cache call `markStale()`.
+ *
+ * Usage:
+ *   runWithRequestContext({ clientId: "alice" }, async () => { ... });
+ *   getRequestContext()?.clientId; // "alice" inside the callback, undefined outside
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { UsageTotals } from "./usage.js";
+import type { CacheMode, CacheStatus } from "./tool-cache.js";
+
+export interface RequestContext {
+  /**
+   * Name of the authenticated client (from the auth token file).
+   * Undefined on stdio, where the spawning host is implicitly trusted.
+   */
+  clientId?: string;
+  /**
+   * False for an authenticated client without the admin scope, which may not
+   * run operator actions (see lib/auth.ts). Undefined when there is no
+   * authentication: stdio, or HTTP without MCP_AUTH_FILE.
+   */
+  admin?: boolean;
+  /** MCP tool being executed — GrokClient attributes token usage to it. */
+  tool?: string;
+  /** Usage accumulated by the current tool call (filled in by GrokClient). */
+  usage?: UsageTotals;
+  /** Fires when the client cancels the request; aborts pending Grok calls. */
+  signal?: AbortSignal;
+  /** Sends a progress notification; set only when the client sent a progress token. */
+  progress?: (message: string) => void;
+  /** How the caller asked caches to be used for this call (default "use"). */
+  cacheMode?: CacheMode;
+  /** Whether the result came from a cache; set by ToolCache.run(), or by `markStale()`. */
+  cacheStatus?: CacheStatus;
+  /** Set by `markUncacheable()`: the result holds a transient failure and must not be cached. */
+  uncacheable?: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/** Run `fn` with `context` visible to every async continuation it spawns. */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/** Return the context of the current async call chain, if any. */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/** Cache mode of the current tool call — "use" outside a call or when not given. */
+export function currentCacheMode(): CacheMode {
+  return storage.getStore()?.cacheMode ?? "use";
+}
+
+/**
+ * Keep the current tool call's result out of the tool cache — e.g. a batch
+ * tool that reports a failed Grok call per item instead of throwing.
+ */
+export function markUncacheable(): void {
+  const context = storage.getStore();
+  if (context) context.uncacheable = true;
+}
+
+/** Report that the current tool call served an expired cache entry (`_meta.cache: "stale"`). */
+export function markStale(): void {
+  const context = storage.getStore();
+  if (context) context.cacheStatus = "stale";
+}
+
+/** Report a stage of the current tool call to the client (no-op when not requested). */
+export function reportProgress(message: string): void {
+  storage.getStore()?.progress?.(message);
+}
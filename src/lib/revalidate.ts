@@ -0,0 +1,46 @@
+/**
+ * Background refresh for stale-while-revalidate reads.
+ *
+ * get_user_profile and get_trending answer from an expired cache entry
+ * (within the cache's `staleGraceMs` window) instead of waiting for Grok,
+ * and call `revalidate()` so the next caller gets fresh data.
+ *
+ * The refresh runs in a request context of its own, outside the call that
+ * triggered it: it must not be cancelled with that call, nor add to its
+ * `_meta.usage`. The tool and client names are kept so usage is still
+ * attributed and the tool's model settings apply. At most one refresh per
+ * cache key runs at a time. A failed refresh is logged and the stale entry
+ * stays in place until the grace window ends.
+ */
+
+import { getRequestContext, runWithRequestContext } from "./request-context.js";
+import { log } from "./logger.js";
+
+/** Refreshes in progress, as "<cache>/<key>". */
+const refreshing = new Set<string>();
+
+/**
+ * Start `refresh` in the background unless one is already running for the
+ * same cache and key. `refresh` fetches the value and stores it.
+ *
+ * @param cache    Cache name, for de-duplication and logs.
+ * @param key      Cache key being refreshed.
+ * @param refresh  Fetches a fresh value and writes it to the cache.
+ * @returns        The refresh, settled once it is done (never rejects).
+ */
+export function revalidate(cache: string, key: string, refresh: () => Promise<void>): Promise<void> {
+  const id = `${cache}/${key}`;
+  if (refreshing.has(id)) return Promise.resolve();
+  refreshing.add(id);
+
+  const parent = getRequestContext();
+  return runWithRequestContext({ tool: parent?.tool, clientId: parent?.clientId }, refresh)
+    .catch((err: unknown) => {
+      log("warn", "Background cache refresh failed — keeping the stale entry", {
+        cache,
+        key,
+        detail: err instanceof Error ? err.message : String(err),
+      });
+    })
+    .finally(() => refreshing.delete(id));
+}
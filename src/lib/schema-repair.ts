@@ -0,0 +1,151 @@
+/**
+ * Repair of Grok responses that fail Zod validation.
+ *
+ * Structured output keeps Grok close to the schema, but not always on it: a
+ * count comes back as "1234", a nested object is missing, one tweet in a list
+ * of twenty lacks its metrics. Rejecting the whole response for that wastes
+ * an otherwise good (and billed) answer. `repairToSchema()` fixes what it can:
+ *
+ *  1. Items of root-level arrays are validated one by one. An invalid item is
+ *     coerced (see below) or, failing that, dropped from the list.
+ *  2. The root object is then validated and, if needed, coerced the same way.
+ *
+ * Coercion only converts values to the type the schema expects — numeric
+ * strings to numbers, numbers to strings, "true"/"false" to booleans, and a
+ * missing or null object / array to an empty one. It never invents field
+ * values; when that would be needed the item is dropped or, at the root,
+ * GrokClient asks the model for a corrected object (see `formatIssues()`).
+ */
+
+import { z, type ZodType } from "zod";
+
+/** Coercion passes per value — each pass can reveal issues nested one level deeper. */
+const MAX_COERCION_ROUNDS = 3;
+
+/** Issues listed in a correction prompt; the rest are summarised as a count. */
+const MAX_LISTED_ISSUES = 20;
+
+export interface RepairCounts {
+  /** Items (or the root object) that validated after coercion. */
+  repaired: number;
+  /** Array items removed because they could not be repaired. */
+  dropped: number;
+}
+
+export type RepairResult<T> =
+  | ({ success: true; data: T } & RepairCounts)
+  | { success: false; error: z.ZodError };
+
+type Container = Record<string | number, unknown>;
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+/** The value `expected` by the schema, converted from `value`, or undefined. */
+function coerceValue(value: unknown, expected: string): unknown {
+  switch (expected) {
+    case "number":
+      if (typeof value === "string" && value.trim() !== "") {
+        const n = Number(value.replace(/,/g, ""));
+        return Number.isFinite(n) ? n : undefined;
+      }
+      return undefined;
+    case "string":
+      return typeof value === "number" || typeof value === "boolean" ? String(value) : undefined;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : undefined;
+    case "object":
+      return value == null ? {} : undefined;
+    case "array":
+      return value == null ? [] : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Coerce `value` (a mutable copy) until it satisfies `schema`.
+ * @returns  The coerced value, or undefined when it cannot be made valid.
+ */
+function coerce(schema: ZodType, value: unknown): unknown {
+  for (let round = 0; round < MAX_COERCION_ROUNDS; round++) {
+    const result = schema.safeParse(value);
+    if (result.success) return value;
+
+    let changed = false;
+    for (const issue of result.error.issues) {
+      if (issue.code !== "invalid_type" || issue.path.length === 0) continue;
+      const parent = issue.path
+        .slice(0, -1)
+        .reduce<unknown>((node, key) => (isContainer(node) ? node[key as string | number] : undefined), value);
+      if (!isContainer(parent)) continue;
+      const key = issue.path[issue.path.length - 1] as string | number;
+      const coerced = coerceValue(parent[key], issue.expected);
+      if (coerced !== undefined) {
+        parent[key] = coerced;
+        changed = true;
+      }
+    }
+    if (!changed) return undefined;
+  }
+  return schema.safeParse(value).success ? value : undefined;
+}
+
+/**
+ * Validate `value` against `schema`, repairing array items and the root
+ * object where possible. `value` itself is not modified.
+ */
+export function repairToSchema<T>(schema: ZodType<T>, value: unknown): RepairResult<T> {
+  const first = schema.safeParse(value);
+  if (first.success) return { success: true, data: first.data, repaired: 0, dropped: 0 };
+
+  const current = structuredClone(value);
+  let repaired = 0;
+  let dropped = 0;
+
+  // 1. Item by item in root-level arrays.
+  if (schema instanceof z.ZodObject && isContainer(current) && !Array.isArray(current)) {
+    for (const [key, sub] of Object.entries(schema.shape as Record<string, ZodType>)) {
+      const items = current[key];
+      if (!(sub instanceof z.ZodArray) || !Array.isArray(items)) continue;
+      const element = sub.element as ZodType;
+      const kept: unknown[] = [];
+      for (const item of items) {
+        if (element.safeParse(item).success) {
+          kept.push(item);
+          continue;
+        }
+        const fixed = coerce(element, item);
+        if (fixed !== undefined) {
+          kept.push(fixed);
+          repaired++;
+        } else {
+          dropped++;
+        }
+      }
+      current[key] = kept;
+    }
+  }
+
+  // 2. The root object.
+  let result = schema.safeParse(current);
+  if (!result.success) {
+    const fixed = coerce(schema, current);
+    if (fixed === undefined) return { success: false, error: result.error };
+    result = schema.safeParse(fixed);
+    if (!result.success) return { success: false, error: result.error };
+    repaired++;
+  }
+  return { success: true, data: result.data, repaired, dropped };
+}
+
+/** Zod issues as a bullet list for a correction prompt (`path: message`). */
+export function formatIssues(error: z.ZodError): string {
+  const lines = error.issues
+    .slice(0, MAX_LISTED_ISSUES)
+    .map((i) => `- ${i.path.length > 0 ? i.path.join(".") : "(root)"}: ${i.message}`);
+  const more = error.issues.length - MAX_LISTED_ISSUES;
+  if (more > 0) lines.push(`- …and ${more} more`);
+  return lines.join("\n");
+}
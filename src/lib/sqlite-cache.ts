@@ -0,0 +1,307 @@
+/**
+ * TTL cache stored in an embedded SQLite database.
+ *
+ * An alternative to PersistentTtlCache for CACHE_DIR (CACHE_BACKEND=sqlite).
+ * Instead of rewriting a whole JSON file on every `set()`, each write is one
+ * row upsert in a transaction, so a crash never leaves a half-written cache
+ * and writes stay cheap as entries accumulate.
+ *
+ * Every cache of the server lives in one database file
+ * (CACHE_DIR/cache.sqlite), separated by namespace — "profile", "trending",
+ * "tool-get_tweet"… Rows are read and written directly (there is no
+ * in-memory copy), so several server processes sharing a CACHE_DIR see each
+ * other's entries. The database runs in WAL mode with a busy timeout: readers
+ * never block, and concurrent writers wait for each other instead of failing.
+ *
+ * Expiry and LRU order are indexed: lookups, sweeps and evictions never scan
+ * the whole table. Recency is the time of the last write, or of the last read
+ * that refreshed it: a read only updates the row when its stored time is
+ * more than TOUCH_INTERVAL_MS old, so repeated reads of a hot entry do not
+ * each take the database's write lock. LRU order is therefore approximate
+ * within that interval.
+ *
+ * Like PersistentTtlCache, database failures never reach the caller: when
+ * the file cannot be opened, or better-sqlite3 (an optional dependency) is
+ * not installed, the cache works in memory only, and an operation
+ * that fails later (e.g. the database stays locked) is logged and treated as
+ * a miss or a skipped write.
+ *
+ * Usage:
+ *   const cache = new SqliteTtlCache<MyType>(5 * 60_000, "/var/cache/x/cache.sqlite", "my-cache");
+ */
+
+import { mkdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname } from "node:path";
+import type BetterSqlite3 from "better-sqlite3";
+import { TtlCache, type CacheLimits, type CacheLookup, type CacheStats } from "./cache.js";
+import { log } from "./logger.js";
+
+type Database = BetterSqlite3.Database;
+type Statement = BetterSqlite3.Statement;
+
+/** How long a write waits for another connection's lock before failing. */
+const BUSY_TIMEOUT_MS = 5000;
+
+/** A read refreshes a row's recency only when it was last used longer ago than this. */
+export const TOUCH_INTERVAL_MS = 30_000;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS cache_entries (
+  namespace  TEXT    NOT NULL,
+  key        TEXT    NOT NULL,
+  value      TEXT    NOT NULL,
+  bytes      INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  last_used  INTEGER NOT NULL,
+  PRIMARY KEY (namespace, key)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS cache_entries_expiry ON cache_entries (namespace, expires_at);
+CREATE INDEX IF NOT EXISTS cache_entries_lru ON cache_entries (namespace, last_used);
+`;
+
+/** Open connections by file path — caches in one process share a connection. */
+const connections = new Map<string, Database>();
+
+/** Whether the missing better-sqlite3 package was reported — once per process, not per cache. */
+let missingModuleLogged = false;
+
+function openDatabase(filePath: string): Database {
+  const open = connections.get(filePath);
+  if (open) return open;
+  // Loaded on first use, so the native module is only required when the
+  // SQLite backend is selected. It is an optional dependency: when it is not
+  // installed the require throws MODULE_NOT_FOUND.
+  const Sqlite = createRequire(import.meta.url)("better-sqlite3") as typeof BetterSqlite3;
+  mkdirSync(dirname(filePath), { recursive: true });
+  const db = new Sqlite(filePath, { timeout: BUSY_TIMEOUT_MS });
+  db.pragma("journal_mode = WAL");
+  db.pragma("synchronous = NORMAL");
+  db.exec(SCHEMA);
+  connections.set(filePath, db);
+  return db;
+}
+
+interface Row {
+  value: string;
+  expires_at: number;
+  last_used: number;
+}
+
+/** Statements of one cache, bound to its namespace through `@namespace`. */
+interface Statements {
+  select: Statement;
+  touch: Statement;
+  upsert: Statement;
+  remove: Statement;
+  live: Statement;
+  sweep: Statement;
+  totals: Statement;
+  clear: Statement;
+  trimCount: Statement;
+  oldest: Statement;
+}
+
+/**
+ * TtlCache whose entries are rows of a SQLite database. Only string keys are
+ * supported. Hit / miss / eviction counters are per process.
+ */
+export class SqliteTtlCache<V> extends TtlCache<string, V> {
+  private readonly db?: Database;
+  private readonly sql?: Statements;
+
+  /**
+   * @param ttlMs      Time to live of each entry.
+   * @param filePath   Database file (created, with its directory, when missing).
+   * @param namespace  Name separating this cache's rows from the other caches in the file.
+   * @param limits     Size limits and sweep interval, enforced on the database.
+   */
+  constructor(ttlMs: number, filePath: string, private readonly namespace: string, limits: CacheLimits = {}) {
+    super(ttlMs, limits);
+    try {
+      this.db = openDatabase(filePath);
+      this.sql = this.prepare(this.db);
+    } catch (err) {
+      this.db = undefined;
+      if ((err as NodeJS.ErrnoException).code === "MODULE_NOT_FOUND") {
+        if (!missingModuleLogged) {
+          missingModuleLogged = true;
+          log(
+            "warn",
+            "CACHE_BACKEND=sqlite but the optional better-sqlite3 package is not installed — caching in memory only. Install it with `npm install better-sqlite3`."
+          );
+        }
+        return;
+      }
+      log("warn", "SQLite cache unavailable — caching in memory only", {
+        namespace,
+        detail: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  private prepare(db: Database): Statements {
+    const where = "WHERE namespace = @namespace";
+    return {
+      select: db.prepare(`SELECT value, expires_at, last_used FROM cache_entries ${where} AND key = @key`),
+      touch: db.prepare(`UPDATE cache_entries SET last_used = @now ${where} AND key = @key`),
+      upsert: db.prepare(
+        `INSERT INTO cache_entries (namespace, key, value, bytes, expires_at, last_used)
+         VALUES (@namespace, @key, @value, @bytes, @expires_at, @now)
+         ON CONFLICT (namespace, key) DO UPDATE SET
+           value = excluded.value, bytes = excluded.bytes,
+           expires_at = excluded.expires_at, last_used = excluded.last_used`
+      ),
+      remove: db.prepare(`DELETE FROM cache_entries ${where} AND key = @key`),
+      live: db.prepare(`SELECT key, value FROM cache_entries ${where} AND expires_at >= @now ORDER BY expires_at`),
+      sweep: db.prepare(`DELETE FROM cache_entries ${where} AND expires_at < @now`),
+      totals: db.prepare(`SELECT COUNT(*) AS entries, COALESCE(SUM(bytes), 0) AS bytes FROM cache_entries ${where}`),
+      clear: db.prepare(`DELETE FROM cache_entries ${where}`),
+      trimCount: db.prepare(
+        `DELETE FROM cache_entries ${where} AND key IN (
+           SELECT key FROM cache_entries ${where} ORDER BY last_used
+           LIMIT MAX(0, (SELECT COUNT(*) FROM cache_entries ${where}) - @max))`
+      ),
+      oldest: db.prepare(`SELECT key, bytes FROM cache_entries ${where} ORDER BY last_used LIMIT @limit`),
+    };
+  }
+
+  /** Run a database operation; on failure log it and return `fallback`. */
+  private guarded<T>(operation: string, fallback: T, run: (sql: Statements) => T): T {
+    try {
+      return run(this.sql as Statements);
+    } catch (err) {
+      log("warn", `SQLite cache ${operation} failed`, {
+        namespace: this.namespace,
+        detail: err instanceof Error ? err.message : String(err),
+      });
+      return fallback;
+    }
+  }
+
+  /**
+   * The row for `key`. A live row is marked used when its recency is older
+   * than TOUCH_INTERVAL_MS — otherwise the read stays read-only.
+   */
+  private row(key: string): Row | undefined {
+    return this.guarded("read", undefined, (sql) => {
+      const found = sql.select.get({ namespace: this.namespace, key }) as Row | undefined;
+      const now = Date.now();
+      if (found && now <= found.expires_at && now - found.last_used >= TOUCH_INTERVAL_MS) {
+        sql.touch.run({ namespace: this.namespace, key, now });
+      }
+      return found;
+    });
+  }
+
+  private drop(key: string): void {
+    this.guarded("delete", undefined, (sql) => sql.remove.run({ namespace: this.namespace, key }));
+  }
+
+  override get(key: string): V | undefined {
+    if (!this.db) return super.get(key);
+    const row = this.row(key);
+    const now = Date.now();
+    if (!row || now > row.expires_at) {
+      if (row && now > row.expires_at + this.graceMs) this.drop(key);
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return JSON.parse(row.value) as V;
+  }
+
+  override lookup(key: string): CacheLookup<V> | undefined {
+    if (!this.db) return super.lookup(key);
+    const row = this.row(key);
+    const now = Date.now();
+    if (!row || now > row.expires_at + this.graceMs) {
+      if (row) this.drop(key);
+      this.misses++;
+      return undefined;
+    }
+    const stale = now > row.expires_at;
+    if (stale) this.misses++;
+    else this.hits++;
+    return { value: JSON.parse(row.value) as V, stale, ageMs: now - (row.expires_at - this.ttlMs) };
+  }
+
+  override peek(key: string): { value: V; expired: boolean } | undefined {
+    if (!this.db) return super.peek(key);
+    const row = this.row(key);
+    const expired = row !== undefined && Date.now() > row.expires_at;
+    if (!row || expired) this.misses++;
+    else this.hits++;
+    return row && { value: JSON.parse(row.value) as V, expired };
+  }
+
+  override set(key: string, value: V): void {
+    const db = this.db;
+    if (!db) return super.set(key, value);
+    const json = JSON.stringify(value);
+    const bytes = Buffer.byteLength(key) + Buffer.byteLength(json);
+    const { maxBytes } = this.limits;
+    const params = { namespace: this.namespace, key };
+    this.guarded("write", undefined, (sql) =>
+      // IMMEDIATE takes the write lock up front, so two processes cannot
+      // interleave an upsert and an eviction.
+      db.transaction(() => {
+        if (maxBytes !== undefined && bytes > maxBytes) {
+          sql.remove.run(params);
+          return;
+        }
+        const now = Date.now();
+        sql.upsert.run({ ...params, value: json, bytes, expires_at: now + this.ttlMs, now });
+        this.evictRows(sql);
+      }).immediate()
+    );
+  }
+
+  /** Delete least recently used rows until both limits hold (inside the write transaction). */
+  private evictRows(sql: Statements): void {
+    const { maxEntries, maxBytes } = this.limits;
+    const namespace = this.namespace;
+    if (maxEntries !== undefined) {
+      this.evictions += sql.trimCount.run({ namespace, max: maxEntries }).changes;
+    }
+    if (maxBytes === undefined) return;
+    let { bytes, entries } = sql.totals.get({ namespace }) as { bytes: number; entries: number };
+    while (bytes > maxBytes && entries > 0) {
+      // Fetch a batch of the oldest rows; deleting while iterating is not allowed.
+      const batch = sql.oldest.all({ namespace, limit: 64 }) as { key: string; bytes: number }[];
+      for (const row of batch) {
+        if (bytes <= maxBytes) break;
+        sql.remove.run({ namespace, key: row.key });
+        bytes -= row.bytes;
+        entries--;
+        this.evictions++;
+      }
+    }
+  }
+
+  override entries(): [string, V][] {
+    if (!this.db) return super.entries();
+    const rows = this.guarded("read", [], (sql) =>
+      sql.live.all({ namespace: this.namespace, now: Date.now() }) as { key: string; value: string }[]
+    );
+    return rows.map(({ key, value }) => [key, JSON.parse(value) as V]);
+  }
+
+  override sweep(): number {
+    if (!this.db) return super.sweep();
+    return this.guarded("sweep", 0, (sql) => sql.sweep.run({ namespace: this.namespace, now: Date.now() - this.graceMs }).changes);
+  }
+
+  override stats(): CacheStats {
+    if (!this.db) return super.stats();
+    const totals = this.guarded("read", { entries: 0, bytes: 0 }, (sql) =>
+      sql.totals.get({ namespace: this.namespace }) as { entries: number; bytes: number }
+    );
+    return { ...totals, hits: this.hits, misses: this.misses, evictions: this.evictions };
+  }
+
+  override clear(): void {
+    if (!this.db) return super.clear();
+    this.guarded("clear", undefined, (sql) => sql.clear.run({ namespace: this.namespace }));
+  }
+}
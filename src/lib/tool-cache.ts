@@ -0,0 +1,235 @@
+/**
+ * Result cache in front of the read tools.
+ *
+ * Identical calls a few seconds apart — the same tweet, thread or search
+ * asked for twice in one conversation — are answered from memory instead of
+ * paying for another x_search call. Each tool has its own TTL (timelines and
+ * searches go stale faster than profiles or analyses); tools without one,
+ * such as get_usage_stats, are never cached.
+ *
+ * Cache keys are built from the tool's input after Zod parsing (defaults
+ * applied), with a leading "@" stripped from usernames, tweet URLs reduced
+ * to their ID, and object keys sorted — so "@Jack" and "jack", or a URL and
+ * its tweet ID, share one entry.
+ *
+ * Every cached tool accepts a `cache` argument:
+ *   use     — serve a live entry, otherwise fetch and store (default)
+ *   refresh — always fetch, then store the fresh result
+ *   bypass  — fetch without reading or writing any cache
+ *
+ * and its response reports `_meta.cache`:
+ *   hit   — served from the cache
+ *   miss  — fetched: no live entry, or the caller asked for refresh / bypass
+ *   stale — an expired entry was served while it is refreshed in the
+ *           background (stale-while-revalidate, see lib/revalidate.ts); the
+ *           tool reports it with markStale(), next to `stale: true` in the result
+ *
+ * The mode is also recorded in the request context, so the tools that keep
+ * their own caches (profileCache, trendingCache) skip or refresh them too.
+ * Truncated and stale results are served but never stored, and neither are
+ * results whose tool called markUncacheable() — a batch that failed on a
+ * budget limit, open circuit or timeout is retried on the next call. When CACHE_DIR
+ * is set each tool's entries persist in CACHE_DIR/tool-<name>.json, or in the
+ * "tool-<name>" namespace of CACHE_DIR/cache.sqlite with CACHE_BACKEND=sqlite
+ * (see lib/cache-backend.ts).
+ *
+ * Each tool's store is bounded (DEFAULT_TOOL_CACHE_LIMITS: entry count and
+ * JSON size, least recently used evicted first) and swept of expired
+ * entries every minute.
+ *
+ * Usage:
+ *   const cache = new ToolCache();
+ *   await cache.run("get_tweet", GetTweetInput, input, (args) => getTweet(grok, args));
+ */
+
+import { z } from "zod";
+import type { TtlCache, CacheLimits, CacheStats } from "./cache.js";
+import { createCache, type CacheStorage } from "./cache-backend.js";
+import { getRequestContext } from "./request-context.js";
+import { extractTweetId, sanitizeUsername } from "./utils.js";
+
+export type CacheMode = "use" | "bypass" | "refresh";
+export type CacheStatus = "hit" | "miss" | "stale";
+
+/** The `cache` argument added to the input schema of every cached tool. */
+export const CacheOptionShape = {
+  cache: z
+    .enum(["use", "bypass", "refresh"])
+    .optional()
+    .describe(
+      '"use" (default) serves a cached result when one is live; "refresh" fetches and replaces it; "bypass" fetches without touching the cache'
+    ),
+};
+
+const MINUTE = 60_000;
+
+/**
+ * Built-in TTLs. Feeds and searches change by the minute; single tweets,
+ * threads and profiles are stable for longer; analyses are the most
+ * expensive to recompute. Tools not listed are not cached.
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  get_tweet:             10 * MINUTE,
+  get_tweets:            10 * MINUTE,
+  get_tweet_replies:      2 * MINUTE,
+  get_quote_tweets:       2 * MINUTE,
+  get_user_tweets:        2 * MINUTE,
+  get_user_profile:      10 * MINUTE,
+  get_user_profiles:     10 * MINUTE,
+  search_tweets:          2 * MINUTE,
+  get_thread:             5 * MINUTE,
+  get_conversation_tree:  5 * MINUTE,
+  get_trending:           5 * MINUTE,
+  analyze_sentiment:     15 * MINUTE,
+  analyze_thread:        15 * MINUTE,
+  extract_links:         15 * MINUTE,
+  get_user_mentions:      2 * MINUTE,
+  get_list_tweets:        2 * MINUTE,
+};
+
+/** Limits for each tool's store — at most 16 × 2 MB across all tools. */
+export const DEFAULT_TOOL_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 500,
+  maxBytes: 2 * 1024 * 1024,
+  sweepIntervalMs: MINUTE,
+};
+
+/** List fields whose items are normalised like the named single field. */
+const LIST_FIELDS: Record<string, string> = {
+  usernames: "username",
+  tweet_ids_or_urls: "tweet_id_or_url",
+};
+
+/** Normalise one input field so equivalent spellings share a cache key. */
+function normalizeField(name: string, value: unknown): unknown {
+  if (Array.isArray(value) && LIST_FIELDS[name]) {
+    return value.map((item) => normalizeField(LIST_FIELDS[name], item));
+  }
+  if (typeof value !== "string") return value;
+  if (name === "username") return sanitizeUsername(value).toLowerCase();
+  if (name === "tweet_id_or_url") {
+    try {
+      return extractTweetId(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/** JSON with object keys sorted and undefined fields dropped, recursively. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const fields = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${fields.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Cache key for a tool input: parsed by `schema` (so defaults are filled
+ * in), equivalent usernames and tweet references normalised, keys sorted.
+ * Inputs the schema rejects are keyed as given.
+ */
+export function cacheKey(schema: z.ZodType, input: object): string {
+  const parsed = schema.safeParse(input);
+  const value = (parsed.success ? parsed.data : input) as Record<string, unknown>;
+  const normalized = Object.fromEntries(
+    Object.entries(value).map(([name, field]) => [name, normalizeField(name, field)])
+  );
+  return stableStringify(normalized);
+}
+
+/** One TTL cache per tool, keyed by normalised input. Shared by every session of a server. */
+export class ToolCache {
+  private readonly stores = new Map<string, TtlCache<string, object>>();
+
+  /**
+   * @param ttls     TTL in milliseconds per tool name; tools absent from the
+   *                 map are not cached.
+   * @param storage  Directory and backend for persistent stores (in memory only
+   *                 when no directory is given).
+   * @param limits   Size limits and sweep interval applied to each tool's store.
+   */
+  constructor(
+    ttls: Record<string, number> = DEFAULT_CACHE_TTLS,
+    storage: CacheStorage = {},
+    limits: CacheLimits = DEFAULT_TOOL_CACHE_LIMITS
+  ) {
+    for (const [tool, ttlMs] of Object.entries(ttls)) {
+      this.stores.set(tool, createCache<object>(ttlMs, `tool-${tool}`, storage, limits));
+    }
+  }
+
+  /** True when `tool` has a TTL, i.e. its results are cached. */
+  has(tool: string): boolean {
+    return this.stores.has(tool);
+  }
+
+  /**
+   * Run a tool through the cache.
+   *
+   * Strips the `cache` argument from `input`, records the mode and the
+   * resulting status in the request context, and calls `fn` unless a live
+   * entry can be served.
+   *
+   * @param tool    Tool name (selects the TTL and the store).
+   * @param schema  The tool's input schema, used to normalise the key.
+   * @param input   Tool arguments, possibly with `cache`.
+   * @param fn      The tool function, called with the remaining arguments.
+   */
+  async run<I extends { cache?: CacheMode }, T extends object>(
+    tool: string,
+    schema: z.ZodType,
+    input: I,
+    fn: (args: Omit<I, "cache">) => Promise<T>
+  ): Promise<T> {
+    const { cache: mode = "use", ...args } = input;
+    const context = getRequestContext();
+    if (context) context.cacheMode = mode;
+
+    const store = this.stores.get(tool);
+    if (!store) return fn(args);
+
+    const key = cacheKey(schema, args);
+    const entry = store.peek(key);
+    if (mode === "use" && entry && !entry.expired) {
+      if (context) context.cacheStatus = "hit";
+      return entry.value as T;
+    }
+
+    const result = await fn(args);
+    // A truncated list is incomplete, a stale result is already being
+    // refreshed, and an uncacheable one holds a transient failure — serve
+    // them, but don't pin them for the TTL.
+    const cacheable = !("truncated" in result) && !("stale" in result) && !context?.uncacheable;
+    if (mode !== "bypass" && cacheable) store.set(key, result);
+    // A tool that served stale data from its own cache has said so already.
+    if (context) context.cacheStatus ??= "miss";
+    return result;
+  }
+
+  /** Live cached results of `tool`, oldest first — empty when it is not cached. */
+  results(tool: string): object[] {
+    return this.stores.get(tool)?.entries().map(([, value]) => value) ?? [];
+  }
+
+  /** Size and hit / miss / eviction counters per cached tool. */
+  stats(): Record<string, CacheStats> {
+    return Object.fromEntries([...this.stores].map(([tool, store]) => [tool, store.stats()]));
+  }
+
+  /** Remove every cached result. */
+  clear(): void {
+    for (const store of this.stores.values()) store.clear();
+  }
+
+  /** Stop the periodic sweeps. */
+  close(): void {
+    for (const store of this.stores.values()) store.close();
+  }
+}
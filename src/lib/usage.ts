@@ -0,0 +1,89 @@
+/**
+ * Token usage accounting for Grok API calls.
+ *
+ * GrokClient reports the `usage` block of every responses / chat completions
+ * call here, attributed to the MCP tool that triggered it (read from the
+ * request context set up by `run()`). The tracker keeps running totals per
+ * tool since process start (or the last reset) and is exposed to hosts
+ * through the get_usage_stats tool.
+ *
+ * Counters:
+ *   calls             — number of upstream API calls (query + analyzeMedia)
+ *   input_tokens      — prompt tokens, including x_search results fed back in
+ *   output_tokens     — completion tokens (reasoning tokens included)
+ *   reasoning_tokens  — subset of output_tokens spent on hidden reasoning
+ *   sources           — x_search sources consumed (billed separately by xAI)
+ */
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  sources: number;
+}
+
+/** Usage of a single upstream call. */
+export type CallUsage = Omit<UsageTotals, "calls">;
+
+/** Tool name used when a call happens outside any tool invocation. */
+export const UNATTRIBUTED_TOOL = "unknown";
+
+/** Return a zeroed totals object. */
+export function emptyUsage(): UsageTotals {
+  return { calls: 0, input_tokens: 0, output_tokens: 0, reasoning_tokens: 0, sources: 0 };
+}
+
+/** Add one call's usage to `totals` in place. */
+export function addUsage(totals: UsageTotals, usage: CallUsage): void {
+  totals.calls += 1;
+  totals.input_tokens += usage.input_tokens;
+  totals.output_tokens += usage.output_tokens;
+  totals.reasoning_tokens += usage.reasoning_tokens;
+  totals.sources += usage.sources;
+}
+
+export interface UsageSnapshot {
+  /** ISO 8601 timestamp of process start or the last reset. */
+  since: string;
+  totals: UsageTotals;
+  by_tool: Record<string, UsageTotals>;
+}
+
+/**
+ * In-memory running totals, per tool and overall.
+ */
+export class UsageTracker {
+  private since = Date.now();
+  private readonly totals = emptyUsage();
+  private readonly byTool = new Map<string, UsageTotals>();
+
+  /** Record one upstream call for `tool`. */
+  record(tool: string, usage: CallUsage): void {
+    addUsage(this.totals, usage);
+    let entry = this.byTool.get(tool);
+    if (!entry) {
+      entry = emptyUsage();
+      this.byTool.set(tool, entry);
+    }
+    addUsage(entry, usage);
+  }
+
+  /** Copy of the current totals, safe to serialise and hand to callers. */
+  snapshot(): UsageSnapshot {
+    return {
+      since: new Date(this.since).toISOString(),
+      totals: { ...this.totals },
+      by_tool: Object.fromEntries(
+        [...this.byTool.entries()].map(([tool, totals]) => [tool, { ...totals }])
+      ),
+    };
+  }
+
+  /** Zero every counter and restart the `since` window. */
+  reset(): void {
+    Object.assign(this.totals, emptyUsage());
+    this.byTool.clear();
+    this.since = Date.now();
+  }
+}
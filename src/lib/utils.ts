@@ -81,3 +81,28 @@ export function computeNextCursor(
     }
   }, tweets[0].id);
 }
+
+/**
+ * Compute the high-water mark of a page of tweets: the numerically largest
+ * tweet ID (the newest tweet for snowflake-based IDs), or `undefined` if the
+ * page has no numeric ID. IDs that are not digit strings are ignored — they
+ * cannot be ordered. The counterpart of `computeNextCursor`, used to detect
+ * tweets newer than the ones already seen.
+ */
+export function computeHighWaterMark(
+  tweets: ReadonlyArray<{ id: string }>
+): string | undefined {
+  const ids = tweets.map((tweet) => tweet.id.trim()).filter((id) => /^\d+$/.test(id));
+  if (ids.length === 0) return undefined;
+  return ids.reduce((maxId, id) => (BigInt(id) > BigInt(maxId) ? id : maxId));
+}
+
+/**
+ * Split `items` into consecutive slices of at most `size` elements, in
+ * order. Used by the batch tools to spread IDs / handles over Grok calls.
+ */
+export function chunk<T>(items: readonly T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
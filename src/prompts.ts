@@ -0,0 +1,245 @@
+/**
+ * mcp-x-query — MCP prompts
+ *
+ * Prompt templates for the recurring analyst workflows. Each prompt takes
+ * typed arguments and expands into a short message sequence that tells the
+ * host which tools to call, with which arguments, and how to combine their
+ * output into the final answer:
+ *
+ *   daily_brief         → get_user_profile, get_user_tweets, get_user_mentions,
+ *                         analyze_sentiment (+ get_thread on the busiest tweet)
+ *   compare_sentiment   → analyze_sentiment twice over the same window
+ *   investigate_thread  → get_thread, analyze_thread, get_tweet_replies,
+ *                         extract_links on the thread author
+ *   weekly_link_digest  → extract_links over seven days (+ get_tweet for the
+ *                         tweets behind the top links)
+ *
+ * Prompts never call Grok themselves — expanding one is free; the tool calls
+ * the host makes afterwards are rate-limited and accounted as usual.
+ *
+ * Arguments arrive as strings (MCP prompt arguments are untyped on the
+ * wire), so they are validated with the same rules as the matching tool
+ * inputs: usernames and dates by regex, tweet IDs / URLs by extractTweetId(),
+ * so a malformed argument is an invalid-params error, not an internal one.
+ * Dates default relative to today in UTC. Usernames complete from local
+ * data (see completions.ts).
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { extractTweetId, sanitizeUsername } from "./lib/utils.js";
+import { completeUsername } from "./completions.js";
+
+// ─── Argument schemas ─────────────────────────────────────────────────────────
+
+const Username = z
+  .string()
+  .regex(
+    /^@?[A-Za-z0-9_]{1,50}$/,
+    "Username must contain only letters, digits, or underscores (max 50 characters)"
+  );
+
+const IsoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const Query = z.string().min(1).max(500);
+
+/** A tweet ID or status URL — rejected here, as invalid params, when extractTweetId() would throw. */
+const TweetIdOrUrl = z.string().refine(
+  (value) => {
+    try {
+      extractTweetId(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  "Expected a numeric tweet ID or a Twitter/X status URL"
+);
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `date` (YYYY-MM-DD) shifted by `days`, in UTC. Defaults to today. */
+function isoDay(days = 0, date?: string): string {
+  const base = date ? Date.parse(`${date}T00:00:00Z`) : Date.now();
+  return new Date(base + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** A prompt result made of user messages, one per paragraph group. */
+function userMessages(description: string, ...texts: string[]): GetPromptResult {
+  return {
+    description,
+    messages: texts.map((text) => ({ role: "user" as const, content: { type: "text" as const, text } })),
+  };
+}
+
+/** Tool call rendered as `name({...})` for the instructions. */
+function call(tool: string, args: Record<string, unknown>): string {
+  return `\`${tool}(${JSON.stringify(args)})\``;
+}
+
+// ─── Registration ─────────────────────────────────────────────────────────────
+
+/** Register the workflow prompts on `server`. */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "daily_brief",
+    {
+      title: "Daily brief on an account",
+      description:
+        "What an account posted, what others said to it and how the conversation felt over one day",
+      argsSchema: {
+        username: completable(
+          Username.describe("Twitter/X username to brief on (with or without @)"),
+          completeUsername
+        ),
+        date: IsoDate.optional().describe("Day to cover in YYYY-MM-DD format (default: today, UTC)"),
+      },
+    },
+    ({ username, date }) => {
+      const user = sanitizeUsername(username);
+      const day = date ?? isoDay();
+      const window = { from_date: day, to_date: day };
+      return userMessages(
+        `Daily brief on @${user} for ${day}`,
+        [
+          `Prepare a daily brief on @${user} for ${day}. Gather the data with these tools:`,
+          "",
+          `1. ${call("get_user_profile", { username: user })} — who the account is and its follower count.`,
+          `2. ${call("get_user_tweets", { username: user, max_results: 20, ...window })} — what they posted.`,
+          `3. ${call("get_user_mentions", { username: user, max_results: 20, ...window })} — what others said to them.`,
+          `4. ${call("analyze_sentiment", { query: `@${user}`, max_tweets: 50, ...window })} — the tone of the conversation around them.`,
+          "5. If the most-engaged tweet from step 2 is part of a thread (it is a reply, or has replies from the author), " +
+            `fetch it with ${call("get_thread", { tweet_id_or_url: "<id>" })}.`,
+        ].join("\n"),
+        [
+          "Then write the brief:",
+          "",
+          "- **Headline** — one sentence on the day.",
+          "- **Posted** — the main tweets, most-engaged first, with their URLs and like / retweet counts.",
+          "- **Reactions** — recurring themes in the mentions, quoting one or two with URLs.",
+          "- **Sentiment** — `overall_sentiment`, `sentiment_score` and the breakdown from analyze_sentiment, " +
+            "with its `dominant_topics`; say when mentions and the sentiment sample disagree.",
+          "- **Thread** — a short summary if step 5 ran.",
+          "",
+          "If a tool returns no tweets for the day, say so instead of widening the window. " +
+            "Flag results marked `truncated: true` as partial.",
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "compare_sentiment",
+    {
+      title: "Compare sentiment between two queries",
+      description: "Side-by-side sentiment of two topics or queries over the same window",
+      argsSchema: {
+        query_a: Query.describe("First topic or search query (supports Twitter operators)"),
+        query_b: Query.describe("Second topic or search query (supports Twitter operators)"),
+        from_date: IsoDate.optional().describe("Start date in YYYY-MM-DD format (default: 7 days ago)"),
+        to_date: IsoDate.optional().describe("End date in YYYY-MM-DD format (default: today, UTC)"),
+      },
+    },
+    ({ query_a, query_b, from_date, to_date }) => {
+      const to = to_date ?? isoDay();
+      const from = from_date ?? isoDay(-6, to);
+      const window = { max_tweets: 50, from_date: from, to_date: to };
+      return userMessages(
+        `Sentiment comparison: "${query_a}" vs "${query_b}" (${from} to ${to})`,
+        [
+          `Compare public sentiment on X between two queries from ${from} to ${to}.`,
+          "Run both analyses with identical settings so the numbers are comparable:",
+          "",
+          `1. ${call("analyze_sentiment", { query: query_a, ...window })}`,
+          `2. ${call("analyze_sentiment", { query: query_b, ...window })}`,
+        ].join("\n"),
+        [
+          "Then report:",
+          "",
+          "- A table with one column per query: `overall_sentiment`, `sentiment_score`, the positive / negative / " +
+            "neutral percentages and `total_tweets_analyzed`.",
+          "- Shared and distinct themes, from `dominant_topics` and `dominant_emotions`.",
+          "- One notable tweet per query (with URL) that best illustrates the difference.",
+          "- A two-sentence verdict. If either analysis covered fewer than 20 tweets, say the comparison is weak.",
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "investigate_thread",
+    {
+      title: "Investigate a thread",
+      description: "Content, reception and sources of a thread",
+      argsSchema: {
+        tweet_id_or_url: TweetIdOrUrl.describe("ID or URL of any tweet in the thread"),
+      },
+    },
+    ({ tweet_id_or_url }) => {
+      const id = extractTweetId(tweet_id_or_url);
+      return userMessages(
+        `Thread investigation for tweet ${id}`,
+        [
+          `Investigate the thread containing tweet ${id}:`,
+          "",
+          `1. ${call("get_thread", { tweet_id_or_url: id, max_tweets: 30 })} — the tweets, in order. Note the author and the root tweet ID.`,
+          `2. ${call("analyze_thread", { tweet_id_or_url: id })} — topics, key arguments and sentiment.`,
+          `3. ${call("get_tweet_replies", { tweet_id_or_url: "<root tweet ID>", max_results: 20 })} — how readers responded.`,
+          `4. ${call("extract_links", { username: "<thread author>", max_tweets: 50 })} — keep only links whose ` +
+            "`tweet_id` belongs to the thread from step 1: these are the sources it cites.",
+        ].join("\n"),
+        [
+          "Then write the investigation:",
+          "",
+          "- **Claim** — what the thread argues, in three sentences at most, from `summary` and `key_arguments`.",
+          "- **Sources** — the links from step 4 with their domain and summary; say plainly if the thread cites none.",
+          "- **Reception** — `overall_sentiment` and `sentiment_score` from analyze_thread, and the main " +
+            "agreements and pushback in the replies, with URLs.",
+          "- **Open questions** — claims the sources do not support.",
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "weekly_link_digest",
+    {
+      title: "Weekly link digest",
+      description: "The links an account shared over seven days, grouped and summarised",
+      argsSchema: {
+        username: completable(
+          Username.describe("Twitter/X username whose links to digest (with or without @)"),
+          completeUsername
+        ),
+        end_date: IsoDate.optional().describe("Last day of the week in YYYY-MM-DD format (default: today, UTC)"),
+      },
+    },
+    ({ username, end_date }) => {
+      const user = sanitizeUsername(username);
+      const to = end_date ?? isoDay();
+      const from = isoDay(-6, to);
+      return userMessages(
+        `Link digest for @${user}, ${from} to ${to}`,
+        [
+          `Build a digest of the links @${user} shared from ${from} to ${to}:`,
+          "",
+          `1. ${call("extract_links", { username: user, max_tweets: 100, from_date: from, to_date: to })}`,
+          `2. For the five most relevant links, fetch the sharing tweet with ${call("get_tweet", { tweet_id_or_url: "<tweet_id>" })} ` +
+            `to see what @${user} said about it and how it was received.`,
+        ].join("\n"),
+        [
+          "Then write the digest:",
+          "",
+          "- Group the links by theme (use `domain` and `summary`), newest first within each group.",
+          "- For each link: title (or domain), URL, one-line summary and the date it was shared.",
+          "- Open with the three links that drew the most engagement according to step 2.",
+          "- End with the total number of links (`total_links`) and the most-shared domains.",
+        ].join("\n")
+      );
+    }
+  );
+}
@@ -0,0 +1,416 @@
+/**
+ * mcp-x-query — MCP resources
+ *
+ * Exposes tweets, profiles, timelines, threads, lists and trending topics
+ * as resource templates, so a host can attach them as context without a tool call:
+ *
+ *   x://tweet/{id}               → getTweet
+ *   x://user/{username}          → getUserProfile
+ *   x://user/{username}/tweets   → getUserTweets (first page, default size)
+ *   x://thread/{id}              → getThread (lean mode)
+ *   x://list/{id}                → getListTweets (first page, default size)
+ *   x://user/{username}/mentions → getUserMentions (first page, default size)
+ *   x://search/{query}           → searchTweets (first page, default size)
+ *   x://trending/{category}      → getTrending ("all" for every category)
+ *   x://trending/{category}/{country} → getTrending for one country or region
+ *
+ * Every read resolves through the same function as the matching tool and is
+ * accounted to that tool: it runs in a request context named after it (usage
+ * attribution, per-tool model settings) and is checked against the rate
+ * limiter. Contents are the tool result as `application/json`.
+ *
+ * `resources/list` returns what the caches currently hold, i.e. the recently
+ * fetched items — nothing is fetched to build the list: profiles from
+ * profileCache, trending topics from trendingCache, and tweets from the
+ * get_tweet results of the shared ToolCache. Threads, lists and feeds are
+ * left out: their cache entries are keyed by tool arguments (page size,
+ * cursor, dates) that the resource URIs cannot express. Username,
+ * list ID, category and country variables complete from local data (see
+ * completions.ts).
+ *
+ * Subscriptions:
+ *  Timelines, mention feeds and searches are "feeds". When createServer() is
+ *  given a FeedPoller, clients can `resources/subscribe` to a feed URI; the
+ *  poller re-fetches it in the background and the session receives
+ *  `notifications/resources/updated` when new tweets appear (see
+ *  lib/feed-poller.ts). Subscriptions end with `resources/unsubscribe` or
+ *  when the session closes (see the idle timeout in lib/http-server.ts).
+ *  Each subscription, and each poll of it, is charged to the client's rate
+ *  limit like a read — a client over its limit is not polled — and a session
+ *  holds at most MAX_SUBSCRIPTIONS_PER_SESSION of them, since every feed
+ *  costs a Grok call per poll.
+ */
+
+import {
+  ResourceTemplate,
+  type CompleteResourceTemplateCallback,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate, type Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import type { FeedPoller } from "./lib/feed-poller.js";
+import type { GrokClient } from "./lib/grok-client.js";
+import { log } from "./lib/logger.js";
+import { runWithRequestContext } from "./lib/request-context.js";
+import { emptyUsage } from "./lib/usage.js";
+import type { ServerOptions } from "./server.js";
+import {
+  completeListId,
+  completeTrendingCategory,
+  completeTrendingCountry,
+  completeUsername,
+  rememberAuthors,
+} from "./completions.js";
+import { GetTweetInput, getTweet } from "./tools/get-tweet.js";
+import { GetUserProfileInput, getUserProfile, profileCache } from "./tools/get-user-profile.js";
+import { GetUserTweetsInput, getUserTweets } from "./tools/get-user-tweets.js";
+import { GetThreadInput, getThread } from "./tools/get-thread.js";
+import { GetListTweetsInput, getListTweets } from "./tools/get-list-tweets.js";
+import { GetUserMentionsInput, getUserMentions } from "./tools/get-user-mentions.js";
+import { SearchTweetsInput, searchTweets } from "./tools/search-tweets.js";
+import { GetTrendingInput, getTrending, trendingCache } from "./tools/get-trending.js";
+
+type ResourceExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Most feeds one session may subscribe to at once. */
+export const MAX_SUBSCRIPTIONS_PER_SESSION = 10;
+
+/** A subscribable resource returning a page of tweets. */
+interface Feed {
+  name: string;
+  template: UriTemplate;
+  title: string;
+  description: string;
+  /** Tool the feed resolves through (rate limits, usage attribution). */
+  tool: string;
+  /** Completion callbacks for the template variables. */
+  complete?: Record<string, CompleteResourceTemplateCallback>;
+  fetch: (variables: Variables) => Promise<{ tweets: ReadonlyArray<{ id: string }> }>;
+}
+
+/** Single value of a URI template variable, percent-decoded. */
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/** get_tweet results held in the tool cache, as tweet resources. */
+function cachedTweets(options: ServerOptions): Resource[] {
+  return (options.toolCache?.results("get_tweet") ?? []).flatMap((result) => {
+    const tweet = result as { id?: unknown; text?: string; author?: { username?: string } };
+    if (typeof tweet.id !== "string" || tweet.id === "") return [];
+    return [
+      {
+        uri: `x://tweet/${tweet.id}`,
+        name: tweet.author?.username ? `Tweet by @${tweet.author.username}` : `Tweet ${tweet.id}`,
+        description: tweet.text,
+        mimeType: "application/json",
+      },
+    ];
+  });
+}
+
+/**
+ * trendingCache entries as trending resources — worldwide ones for
+ * x://trending/{category}, per-country ones for x://trending/{category}/{country}.
+ * Keys are "<category>|<country>", either part empty when not given.
+ */
+function cachedTrending(withCountry: boolean): Resource[] {
+  return trendingCache.entries().flatMap(([key]) => {
+    const [category, country] = key.split("|");
+    if (Boolean(country) !== withCountry) return [];
+    const path = [category || "all", ...(country ? [country] : [])].map(encodeURIComponent).join("/");
+    return [
+      {
+        uri: `x://trending/${path}`,
+        name: `Trending: ${category || "all"}${country ? ` (${country})` : ""}`,
+        mimeType: "application/json",
+      },
+    ];
+  });
+}
+
+/**
+ * Resolve a resource read through `tool`'s implementation.
+ *
+ * Mirrors runTool() in server.ts — rate limit first, then the call inside a
+ * request context — but lets errors propagate: the SDK turns them into a
+ * JSON-RPC error for resources/read.
+ */
+async function readAs(
+  tool: string,
+  uri: URL,
+  extra: ResourceExtra,
+  options: ServerOptions,
+  fn: () => Promise<unknown>
+): Promise<ReadResourceResult> {
+  const clientId = extra.authInfo?.clientId;
+  return runWithRequestContext({ clientId, tool, usage: emptyUsage(), signal: extra.signal }, async () => {
+    try {
+      options.rateLimiter?.consume(tool, clientId);
+      const result = await fn();
+      rememberAuthors(result);
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err) {
+      log("error", "Resource read error", {
+        tool,
+        uri: uri.href,
+        detail: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  });
+}
+
+/**
+ * Register the resource templates on `server`, plus subscription support
+ * when `options.feedPoller` is set.
+ *
+ * Variables are validated with the matching tool's Input schema, so a bad
+ * value fails the read just like a bad tool argument.
+ *
+ * @param server   Server created by createServer().
+ * @param grok     Shared GrokClient.
+ * @param options  The options passed to createServer() (rate limiter, poller).
+ */
+export function registerResources(server: McpServer, grok: GrokClient, options: ServerOptions): void {
+  // Same soft-ceiling downgrade as the tools (see budgeted() in server.ts).
+  const budgeted = <I extends object>(input: I): I => grok.budget?.downgrade(input) ?? input;
+
+  server.registerResource(
+    "tweet",
+    // Recently fetched tweets, oldest first.
+    new ResourceTemplate("x://tweet/{id}", { list: () => ({ resources: cachedTweets(options) }) }),
+    {
+      title: "Tweet",
+      description: "A single tweet by ID, with media, metrics and quoted tweet",
+      mimeType: "application/json",
+    },
+    (uri, variables, extra) =>
+      readAs("get_tweet", uri, extra, options, () =>
+        getTweet(grok, GetTweetInput.parse({ tweet_id_or_url: variable(variables, "id") }))
+      )
+  );
+
+  server.registerResource(
+    "user",
+    new ResourceTemplate("x://user/{username}", {
+      complete: { username: completeUsername },
+      // Recently fetched profiles, oldest first.
+      list: () => ({
+        resources: profileCache.entries().map(([username, profile]) => ({
+          uri: `x://user/${encodeURIComponent(username)}`,
+          name: `@${username}`,
+          title: profile.display_name,
+          description: profile.bio ?? undefined,
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      title: "User profile",
+      description: "Profile of a Twitter/X user: bio, counters, verification, pinned tweet",
+      mimeType: "application/json",
+    },
+    (uri, variables, extra) =>
+      readAs("get_user_profile", uri, extra, options, () =>
+        getUserProfile(grok, GetUserProfileInput.parse({ username: variable(variables, "username") }))
+      )
+  );
+
+  server.registerResource(
+    "thread",
+    new ResourceTemplate("x://thread/{id}", { list: undefined }),
+    {
+      title: "Thread",
+      description: "Conversation thread containing a tweet, root tweet first",
+      mimeType: "application/json",
+    },
+    (uri, variables, extra) =>
+      readAs("get_thread", uri, extra, options, () =>
+        getThread(grok, budgeted(GetThreadInput.parse({ tweet_id_or_url: variable(variables, "id") })))
+      )
+  );
+
+  server.registerResource(
+    "list",
+    new ResourceTemplate("x://list/{id}", { list: undefined, complete: { id: completeListId } }),
+    {
+      title: "List timeline",
+      description: "Most recent tweets from a Twitter/X list (first page)",
+      mimeType: "application/json",
+    },
+    (uri, variables, extra) =>
+      readAs("get_list_tweets", uri, extra, options, () =>
+        getListTweets(grok, budgeted(GetListTweetsInput.parse({ list_id: variable(variables, "id") })))
+      )
+  );
+
+  // "all" stands for no category filter, as the category is a path segment.
+  const trending = (variables: Variables) => {
+    const category = variable(variables, "category");
+    const country = variables.country === undefined ? undefined : variable(variables, "country");
+    return getTrending(
+      grok,
+      GetTrendingInput.parse({ category: category.toLowerCase() === "all" ? undefined : category, country })
+    );
+  };
+
+  server.registerResource(
+    "trending",
+    new ResourceTemplate("x://trending/{category}", {
+      list: () => ({ resources: cachedTrending(false) }),
+      complete: { category: completeTrendingCategory },
+    }),
+    {
+      title: "Trending topics",
+      description: 'Topics trending worldwide in a category ("all" for every category)',
+      mimeType: "application/json",
+    },
+    (uri, variables, extra) => readAs("get_trending", uri, extra, options, () => trending(variables))
+  );
+
+  server.registerResource(
+    "trending-country",
+    new ResourceTemplate("x://trending/{category}/{country}", {
+      list: () => ({ resources: cachedTrending(true) }),
+      complete: { category: completeTrendingCategory, country: completeTrendingCountry },
+    }),
+    {
+      title: "Trending topics by country",
+      description: 'Topics trending in a country or region, in a category ("all" for every category)',
+      mimeType: "application/json",
+    },
+    (uri, variables, extra) => readAs("get_trending", uri, extra, options, () => trending(variables))
+  );
+
+  const feeds: Feed[] = [
+    {
+      name: "user-tweets",
+      template: new UriTemplate("x://user/{username}/tweets"),
+      title: "User timeline",
+      description: "Most recent tweets from a Twitter/X user (first page). Subscribable.",
+      tool: "get_user_tweets",
+      complete: { username: completeUsername },
+      fetch: (variables) =>
+        getUserTweets(grok, budgeted(GetUserTweetsInput.parse({ username: variable(variables, "username") }))),
+    },
+    {
+      name: "user-mentions",
+      template: new UriTemplate("x://user/{username}/mentions"),
+      title: "User mentions",
+      description: "Most recent tweets mentioning a Twitter/X user (first page). Subscribable.",
+      tool: "get_user_mentions",
+      complete: { username: completeUsername },
+      fetch: (variables) =>
+        getUserMentions(
+          grok,
+          budgeted(GetUserMentionsInput.parse({ username: variable(variables, "username") }))
+        ),
+    },
+    {
+      name: "search",
+      template: new UriTemplate("x://search/{query}"),
+      title: "Saved search",
+      description: "Most relevant recent tweets for a search query (URL-encoded, first page). Subscribable.",
+      tool: "search_tweets",
+      fetch: (variables) =>
+        searchTweets(grok, budgeted(SearchTweetsInput.parse({ query: variable(variables, "query") }))),
+    },
+  ];
+
+  for (const feed of feeds) {
+    server.registerResource(
+      feed.name,
+      new ResourceTemplate(feed.template, { list: undefined, complete: feed.complete }),
+      { title: feed.title, description: feed.description, mimeType: "application/json" },
+      (uri, variables, extra) => readAs(feed.tool, uri, extra, options, () => feed.fetch(variables))
+    );
+  }
+
+  if (options.feedPoller) {
+    registerSubscriptions(server, feeds, options.feedPoller, options);
+  }
+}
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe for `feeds` on one
+ * session. Subscribing is rate limited like a read of the feed, and so is
+ * every background fetch after the first: a poll is skipped while the
+ * subscribing client is over its per-minute or daily limit. Fetches run in a
+ * request context named after the feed's tool and the subscribing client.
+ * A feed watched by several sessions is fetched, and charged, as its
+ * longest-standing subscriber; when it unsubscribes the next one takes over.
+ */
+function registerSubscriptions(server: McpServer, feeds: Feed[], poller: FeedPoller, options: ServerOptions): void {
+  // URI → function ending this session's subscription.
+  const subscriptions = new Map<string, () => void>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, (request, extra) => {
+    const { uri } = request.params;
+    if (subscriptions.has(uri)) return {};
+    if (subscriptions.size >= MAX_SUBSCRIPTIONS_PER_SESSION) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `At most ${MAX_SUBSCRIPTIONS_PER_SESSION} subscriptions per session — unsubscribe from a feed first.`
+      );
+    }
+
+    const feed = feeds.find((f) => f.template.match(uri));
+    const variables = feed?.template.match(uri);
+    if (!feed || !variables) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri} does not support subscriptions — subscribe to ${feeds.map((f) => f.template.toString()).join(", ")}`
+      );
+    }
+    const clientId = extra.authInfo?.clientId;
+    options.rateLimiter?.consume(feed.tool, clientId);
+    // The charge above pays for the poller's baseline fetch; every later poll
+    // is charged to the client like a read, and skipped (logged by the
+    // poller, retried next tick) while the client is over its limits.
+    let prepaid = true;
+    const fetch = () => {
+      if (!prepaid) options.rateLimiter?.consume(feed.tool, clientId);
+      prepaid = false;
+      return runWithRequestContext({ clientId, tool: feed.tool, usage: emptyUsage() }, () => feed.fetch(variables));
+    };
+    const notify = (updated: string) => {
+      server.server.sendResourceUpdated({ uri: updated }).catch((err: unknown) => {
+        log("warn", "Resource update notification failed", {
+          uri: updated,
+          detail: err instanceof Error ? err.message : String(err),
+        });
+      });
+    };
+    subscriptions.set(uri, poller.watch(uri, fetch, notify));
+    log("info", "Resource subscribed", { uri, feeds: poller.size });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    const { uri } = request.params;
+    subscriptions.get(uri)?.();
+    subscriptions.delete(uri);
+    return {};
+  });
+
+  server.server.onclose = () => {
+    for (const unwatch of subscriptions.values()) unwatch();
+    subscriptions.clear();
+  };
+}
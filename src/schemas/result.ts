@@ -0,0 +1,46 @@
+/**
+ * Result Schemas (Zod)
+ *
+ * Fields added to tool results after the Grok response has been validated,
+ * used to build the MCP output schemas of the tools:
+ *
+ *   truncated    — GrokClient salvaged a response cut off at the output cap
+ *   repair       — GrokClient repaired or dropped items that failed validation
+ *   next_cursor  — pagination cursor added by the paginated tools
+ *   stale        — an expired cached result served while it is refreshed
+ *   age_seconds  — how old that stale result is
+ */
+
+import { z } from "zod";
+
+/** Counts reported when a response needed schema repair (see lib/schema-repair.ts). */
+export const RepairReportSchema = z.object({
+  repaired: z.number().int().describe("Items (or the root object) fixed by type coercion or a follow-up call"),
+  dropped: z.number().int().describe("Items removed because they could not be repaired"),
+});
+
+/** Optional fields GrokClient.query() may add to any result. */
+export const ResultMetaShape = {
+  truncated: z.boolean().optional().describe("True when the response was cut off and only complete items were kept"),
+  repair: RepairReportSchema.optional(),
+};
+
+/** Fields of a result served stale from a cache (see lib/revalidate.ts). */
+export const StaleMetaShape = {
+  stale: z
+    .boolean()
+    .optional()
+    .describe("True when an expired cached result is returned while a fresh one is fetched in the background"),
+  age_seconds: z.number().int().optional().describe("Seconds since a stale result was fetched"),
+};
+
+/** Cursor field of the paginated tools (see computeNextCursor in lib/utils.ts). */
+export const NextCursorSchema = z
+  .string()
+  .optional()
+  .describe("ID of the oldest tweet in this page; pass it as `cursor` to fetch the next page");
+
+/** `schema` extended with the fields GrokClient may add to a query result. */
+export function withResultMeta<S extends z.ZodObject>(schema: S) {
+  return schema.extend(ResultMetaShape);
+}
@@ -0,0 +1,36 @@
+/**
+ * Usage Stats Schema (Zod)
+ *
+ * Describes the shape returned by the get_usage_stats MCP tool: the
+ * UsageTracker snapshot (lib/usage.ts) plus, when a spending budget is
+ * configured, the BudgetGuard status (lib/budget.ts).
+ */
+
+import { z } from "zod";
+
+/** Token and source counters for a set of calls. */
+export const UsageTotalsSchema = z.object({
+  calls: z.number().int(),
+  input_tokens: z.number().int(),
+  output_tokens: z.number().int(),
+  reasoning_tokens: z.number().int(),
+  sources: z.number().int(),              // x_search sources, billed separately
+});
+
+/** Current spend against the configured ceilings (UTC periods). */
+export const BudgetStatusSchema = z.object({
+  day: z.string(),                        // YYYY-MM-DD
+  day_spend_usd: z.number(),
+  daily_limit_usd: z.number().optional(),
+  month: z.string(),                      // YYYY-MM
+  month_spend_usd: z.number(),
+  monthly_limit_usd: z.number().optional(),
+  soft_limited: z.boolean(),
+});
+
+export const UsageStatsSchema = z.object({
+  since: z.string(),                      // ISO 8601 — process start or last reset
+  totals: UsageTotalsSchema,
+  by_tool: z.record(z.string(), UsageTotalsSchema),
+  budget: BudgetStatusSchema.optional(),
+});
@@ -0,0 +1,480 @@
+/**
+ * mcp-x-query — MCP server factory
+ *
+ * Builds an McpServer with all seventeen tools, the x:// resource templates
+ * (see resources.ts) and the workflow prompts (see prompts.ts), registered
+ * against a shared GrokClient. The factory is transport-agnostic: index.ts
+ * connects the returned server to stdio, or to one Streamable HTTP session
+ * per client (an McpServer instance can only be bound to a single transport).
+ *
+ * Architecture note:
+ *  Each tool lives in its own file under src/tools/ and exports:
+ *    - An `Input` Zod object (used as the MCP input schema)
+ *    - An `Output` Zod object (used as the MCP output schema; results are
+ *      returned as `structuredContent` as well as JSON text)
+ *    - An async function that performs the actual query via GrokClient
+ *
+ * Spending budget:
+ *  Inputs of tools with optional work (`enrich_media`, `max_results`,
+ *  `max_tweets`) pass through `budgeted()`, which downgrades them once the
+ *  GrokClient's soft spending ceiling is reached (see lib/budget.ts).
+ *  The downgrade happens before the tool cache: a downgraded result is
+ *  cached under the input that actually ran, not the one asked for.
+ *
+ * Caching:
+ *  Every read tool goes through `runCached()`, which adds a `cache` argument
+ *  (use / bypass / refresh), serves repeated inputs from the shared
+ *  ToolCache and reports `_meta.cache` (see lib/tool-cache.ts).
+ *
+ * Error handling:
+ *  `runTool()` converts any thrown Error into a proper MCP error response
+ *  (isError: true) so the host always receives a structured reply.
+ */
+
+import type { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { GrokClient } from "./lib/grok-client.js";
+import {
+  GrokAuthError,
+  GrokRateLimitError,
+  GrokCircuitOpenError,
+  GrokQuotaExceededError,
+  GrokBudgetExceededError,
+  GrokCancelledError,
+} from "./lib/errors.js";
+import { log } from "./lib/logger.js";
+import { ADMIN_SCOPE } from "./lib/auth.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { rememberAuthors } from "./completions.js";
+import { runWithRequestContext, type RequestContext } from "./lib/request-context.js";
+import type { RateLimiter } from "./lib/rate-limiter.js";
+import type { FeedPoller } from "./lib/feed-poller.js";
+import { ToolCache, CacheOptionShape, type CacheMode, type CacheStatus } from "./lib/tool-cache.js";
+import { emptyUsage, type UsageTotals } from "./lib/usage.js";
+import { GetTweetInput, GetTweetOutput, getTweet } from "./tools/get-tweet.js";
+import { GetTweetsInput, GetTweetsOutput, getTweets } from "./tools/get-tweets.js";
+import {
+  GetTweetRepliesInput,
+  GetTweetRepliesOutput,
+  getTweetReplies,
+} from "./tools/get-tweet-replies.js";
+import {
+  GetQuoteTweetsInput,
+  GetQuoteTweetsOutput,
+  getQuoteTweets,
+} from "./tools/get-quote-tweets.js";
+import { GetUserTweetsInput, GetUserTweetsOutput, getUserTweets } from "./tools/get-user-tweets.js";
+import {
+  GetUserProfileInput,
+  GetUserProfileOutput,
+  getUserProfile,
+} from "./tools/get-user-profile.js";
+import {
+  GetUserProfilesInput,
+  GetUserProfilesOutput,
+  getUserProfiles,
+} from "./tools/get-user-profiles.js";
+import { SearchTweetsInput, SearchTweetsOutput, searchTweets } from "./tools/search-tweets.js";
+import { GetThreadInput, GetThreadOutput, getThread } from "./tools/get-thread.js";
+import {
+  GetConversationTreeInput,
+  GetConversationTreeOutput,
+  getConversationTree,
+} from "./tools/get-conversation-tree.js";
+import { GetTrendingInput, GetTrendingOutput, getTrending } from "./tools/get-trending.js";
+import { AnalyzeSentimentInput, AnalyzeSentimentOutput, analyzeSentiment } from "./tools/analyze-sentiment.js";
+import { AnalyzeThreadInput, AnalyzeThreadOutput, analyzeThread } from "./tools/analyze-thread.js";
+import { ExtractLinksInput, ExtractLinksOutput, extractLinks } from "./tools/extract-links.js";
+import {
+  GetUserMentionsInput,
+  GetUserMentionsOutput,
+  getUserMentions,
+} from "./tools/get-user-mentions.js";
+import { GetListTweetsInput, GetListTweetsOutput, getListTweets } from "./tools/get-list-tweets.js";
+import { GetUsageStatsInput, GetUsageStatsOutput, getUsageStats } from "./tools/get-usage-stats.js";
+
+// ─── Helper ───────────────────────────────────────────────────────────────────
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Cross-session services shared by every server created with createServer(). */
+export interface ServerOptions {
+  /** Local per-tool / per-client limiter checked before each tool call. */
+  rateLimiter?: RateLimiter;
+  /** When true, successful results carry the call's token usage in `_meta.usage`. */
+  includeUsageMeta?: boolean;
+  /** Background poller enabling resources/subscribe on feed resources (see resources.ts). */
+  feedPoller?: FeedPoller;
+  /** Per-tool result cache for the read tools; nothing is cached when omitted. */
+  toolCache?: ToolCache;
+}
+
+type ToolResponse = {
+  content: { type: "text"; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  _meta?: { usage?: UsageTotals; cache?: CacheStatus };
+};
+
+/**
+ * Progress callback for a tool call, or undefined when the client did not ask
+ * for progress (no `_meta.progressToken`). Each report increments `progress`
+ * by one; the total number of stages is not known in advance.
+ */
+function progressReporter(tool: string, extra: ToolExtra): ((message: string) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+  let progress = 0;
+  return (message) => {
+    extra
+      .sendNotification({ method: "notifications/progress", params: { progressToken, progress: ++progress, message } })
+      .catch((err: unknown) => {
+        log("debug", "Progress notification failed", {
+          tool,
+          detail: err instanceof Error ? err.message : String(err),
+        });
+      });
+  };
+}
+
+/**
+ * Wraps a tool call and converts any thrown error into an MCP error response.
+ *
+ * MCP hosts expect one of two shapes:
+ *   - Success: { content: [{ type: "text", text: "..." }], structuredContent: {...} }
+ *   - Failure: { isError: true, content: [{ type: "text", text: "Error: ..." }] }
+ *
+ * On success the result is returned both as JSON text (for hosts that only
+ * read `content`) and as `structuredContent`, which the SDK validates against
+ * the tool's `outputSchema`.
+ *
+ * Using this wrapper ensures every tool always returns the correct shape,
+ * even when GrokClient throws or a validation error occurs.
+ *
+ * The tool body runs inside a request context carrying the authenticated
+ * client identity (from `extra.authInfo`, HTTP transport only), so log
+ * entries and downstream checks can attribute the call to a client.
+ *
+ * When a rate limiter is configured it is consulted first, so a call over
+ * quota fails with GrokQuotaExceededError before any Grok API call is made.
+ *
+ * The context also names the tool and carries a usage accumulator, so
+ * GrokClient can attribute token usage to this call; with `includeUsageMeta`
+ * the accumulated totals are returned in `_meta.usage`.
+ *
+ * Finally it carries the request's AbortSignal, which GrokClient forwards to
+ * every API call, and — when the client sent a `progressToken` — a reporter
+ * that turns `reportProgress()` stages into `notifications/progress`.
+ *
+ * When the tool cache handled the call (see runCached in createServer), its
+ * status is returned in `_meta.cache`.
+ */
+async function runTool<T extends object>(
+  tool: string,
+  extra: ToolExtra,
+  options: ServerOptions,
+  fn: () => Promise<T>
+): Promise<ToolResponse> {
+  const clientId = extra.authInfo?.clientId;
+  const admin = extra.authInfo?.scopes.includes(ADMIN_SCOPE);
+  const usage = emptyUsage();
+  const progress = progressReporter(tool, extra);
+  const context: RequestContext = { clientId, admin, tool, usage, signal: extra.signal, progress };
+  return runWithRequestContext(context, async (): Promise<ToolResponse> => {
+    try {
+      options.rateLimiter?.consume(tool, clientId);
+      const result = await fn();
+      // Tweet authors become username completions (see completions.ts).
+      rememberAuthors(result);
+      const response: ToolResponse = {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        structuredContent: result as Record<string, unknown>,
+      };
+      if (options.includeUsageMeta) {
+        response._meta = { usage };
+      }
+      if (context.cacheStatus) {
+        response._meta = { ...response._meta, cache: context.cacheStatus };
+      }
+      return response;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+
+      if (err instanceof GrokAuthError) {
+        // Fatal — wrong or expired key. Log prominently so the operator notices.
+        log("error", "Authentication error", { tool, detail: message });
+      } else if (err instanceof GrokRateLimitError) {
+        log("warn", "Rate limit exceeded", { tool, detail: message });
+      } else if (err instanceof GrokQuotaExceededError) {
+        log("warn", "Local quota exceeded", { tool, limit: err.limit, retryAfterMs: err.retryAfterMs });
+      } else if (err instanceof GrokCircuitOpenError) {
+        log("warn", "Circuit open — Grok API unavailable", { tool, retryInMs: err.retryInMs });
+      } else if (err instanceof GrokBudgetExceededError) {
+        log("warn", "Spending limit reached", { tool, period: err.period, limitUsd: err.limitUsd });
+      } else if (err instanceof GrokCancelledError) {
+        // The SDK drops responses to cancelled requests; this is for the log.
+        log("info", "Tool call cancelled", { tool });
+      } else {
+        log("error", "Tool error", { tool, detail: message });
+      }
+
+      return {
+        isError: true,
+        content: [{ type: "text", text: `Error: ${message}` }],
+      };
+    }
+  });
+}
+
+// ─── Server factory ───────────────────────────────────────────────────────────
+
+/**
+ * Create a new McpServer with every tool registered.
+ *
+ * @param grok     Shared GrokClient — stateless, safe to reuse across servers.
+ * @param options  Shared services and flags; pass the same object to
+ *                 every server so limits apply across sessions.
+ * @returns        A server ready to be connected to a transport.
+ */
+export function createServer(grok: GrokClient, options: ServerOptions = {}): McpServer {
+  const server = new McpServer({
+    name: "mcp-x-query",
+    version: "1.0.0",
+  });
+
+  const run = <T extends object>(tool: string, extra: ToolExtra, fn: () => Promise<T>) =>
+    runTool(tool, extra, options, fn);
+
+  // Strips the `cache` argument and serves repeated inputs from the tool cache.
+  // Without a shared cache the argument still reaches profileCache / trendingCache.
+  const toolCache = options.toolCache ?? new ToolCache({});
+  const runCached = <I extends { cache?: CacheMode }, T extends object>(
+    tool: string,
+    extra: ToolExtra,
+    schema: z.ZodType,
+    input: I,
+    fn: (args: Omit<I, "cache">) => Promise<T>
+  ) => run(tool, extra, () => toolCache.run(tool, schema, input, fn));
+
+  // Drops enrich_media and caps result counts past the soft spending ceiling.
+  // Applied to the input given to runCached(), so the cache key matches what ran.
+  const budgeted = <I extends object>(input: I): I => grok.budget?.downgrade(input) ?? input;
+
+  // get_tweet — retrieve a single tweet by ID or URL (full schema: media, metrics, quoted tweet…)
+  server.registerTool(
+    "get_tweet",
+    {
+      description: "Retrieve a single tweet by its ID or URL (full data: media, quoted tweet, metrics)",
+      inputSchema: { ...GetTweetInput.shape, ...CacheOptionShape },
+      outputSchema: GetTweetOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_tweet", extra, GetTweetInput, input, (args) => getTweet(grok, args))
+  );
+
+  // get_tweets — fetch up to 50 tweets by ID or URL in batched Grok calls
+  server.registerTool(
+    "get_tweets",
+    {
+      description:
+        "Retrieve up to 50 tweets by ID or URL in as few calls as possible, with a per-ID status (found, not_found, error)",
+      inputSchema: { ...GetTweetsInput.shape, ...CacheOptionShape },
+      outputSchema: GetTweetsOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_tweets", extra, GetTweetsInput, budgeted(input), (args) => getTweets(grok, args))
+  );
+
+  // get_tweet_replies — fetch the most-engaged replies to a tweet, with optional date range
+  server.registerTool(
+    "get_tweet_replies",
+    {
+      description: "Get replies to a tweet by its ID or URL, with optional date range (from_date/to_date)",
+      inputSchema: { ...GetTweetRepliesInput.shape, ...CacheOptionShape },
+      outputSchema: GetTweetRepliesOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_tweet_replies", extra, GetTweetRepliesInput, budgeted(input), (args) => getTweetReplies(grok, args))
+  );
+
+  // get_quote_tweets — tweets quoting a given tweet, by engagement or recency, paginated
+  server.registerTool(
+    "get_quote_tweets",
+    {
+      description:
+        "Get quote tweets of a tweet by its ID or URL, sorted by engagement or recency, with optional date range, enrich_media and cursor pagination",
+      inputSchema: { ...GetQuoteTweetsInput.shape, ...CacheOptionShape },
+      outputSchema: GetQuoteTweetsOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_quote_tweets", extra, GetQuoteTweetsInput, budgeted(input), (args) => getQuoteTweets(grok, args))
+  );
+
+  // get_user_tweets — timeline for a given handle, with optional date range and media enrichment
+  server.registerTool(
+    "get_user_tweets",
+    {
+      description: "Get recent tweets from a Twitter/X user, with optional date range and enrich_media (Grok Vision analysis)",
+      inputSchema: { ...GetUserTweetsInput.shape, ...CacheOptionShape },
+      outputSchema: GetUserTweetsOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_user_tweets", extra, GetUserTweetsInput, budgeted(input), (args) => getUserTweets(grok, args))
+  );
+
+  // get_user_profile — bio, counters, pinned tweet, verification status
+  server.registerTool(
+    "get_user_profile",
+    {
+      description: "Get the profile information of a Twitter/X user",
+      inputSchema: { ...GetUserProfileInput.shape, ...CacheOptionShape },
+      outputSchema: GetUserProfileOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_user_profile", extra, GetUserProfileInput, input, (args) => getUserProfile(grok, args))
+  );
+
+  // get_user_profiles — up to 50 profiles, cached ones reused, misses fetched in batches
+  server.registerTool(
+    "get_user_profiles",
+    {
+      description:
+        "Get the profiles of up to 50 Twitter/X users in as few calls as possible, with an error per suspended or missing account",
+      inputSchema: { ...GetUserProfilesInput.shape, ...CacheOptionShape },
+      outputSchema: GetUserProfilesOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_user_profiles", extra, GetUserProfilesInput, input, (args) => getUserProfiles(grok, args))
+  );
+
+  // search_tweets — full-text search supporting Twitter operators, with optional media enrichment
+  server.registerTool(
+    "search_tweets",
+    {
+      description: "Search Twitter/X for tweets matching a query, with optional date range and enrich_media (Grok Vision analysis)",
+      inputSchema: { ...SearchTweetsInput.shape, ...CacheOptionShape },
+      outputSchema: SearchTweetsOutput.shape,
+    },
+    (input, extra) =>
+      runCached("search_tweets", extra, SearchTweetsInput, budgeted(input), (args) => searchTweets(grok, args))
+  );
+
+  // get_thread — reconstruct a full conversation thread from any tweet in it
+  server.registerTool(
+    "get_thread",
+    {
+      description: "Retrieve the full conversation thread for any tweet. Use verbose:true for complete fields (media, quoted_tweet, etc.)",
+      inputSchema: { ...GetThreadInput.shape, ...CacheOptionShape },
+      outputSchema: GetThreadOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_thread", extra, GetThreadInput, budgeted(input), (args) => getThread(grok, args))
+  );
+
+  // get_conversation_tree — nested reply tree under a tweet, with per-branch engagement
+  server.registerTool(
+    "get_conversation_tree",
+    {
+      description:
+        "Build the nested reply tree under a tweet (configurable max_depth / max_breadth), with per-branch engagement totals and orphaned replies flagged",
+      inputSchema: { ...GetConversationTreeInput.shape, ...CacheOptionShape },
+      outputSchema: GetConversationTreeOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_conversation_tree", extra, GetConversationTreeInput, input, (args) => getConversationTree(grok, args))
+  );
+
+  // get_trending — current trending topics, optionally filtered by category and country
+  server.registerTool(
+    "get_trending",
+    {
+      description: "Get currently trending topics on Twitter/X, with optional category and country/region filter",
+      inputSchema: { ...GetTrendingInput.shape, ...CacheOptionShape },
+      outputSchema: GetTrendingOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_trending", extra, GetTrendingInput, input, (args) => getTrending(grok, args))
+  );
+
+  // analyze_sentiment — fetch tweets for a query and analyze collective sentiment
+  server.registerTool(
+    "analyze_sentiment",
+    {
+      description: "Analyze the sentiment of tweets about a topic or query: returns overall sentiment, score, breakdown, dominant topics/emotions, and representative tweets",
+      inputSchema: { ...AnalyzeSentimentInput.shape, ...CacheOptionShape },
+      outputSchema: AnalyzeSentimentOutput.shape,
+    },
+    (input, extra) =>
+      runCached("analyze_sentiment", extra, AnalyzeSentimentInput, budgeted(input), (args) => analyzeSentiment(grok, args))
+  );
+
+  // analyze_thread — retrieve a thread and analyze its content, sentiment, and arguments
+  server.registerTool(
+    "analyze_thread",
+    {
+      description: "Retrieve a full Twitter/X thread and analyze its sentiment, key arguments, topics, and tone",
+      inputSchema: { ...AnalyzeThreadInput.shape, ...CacheOptionShape },
+      outputSchema: AnalyzeThreadOutput.shape,
+    },
+    (input, extra) =>
+      runCached("analyze_thread", extra, AnalyzeThreadInput, budgeted(input), (args) => analyzeThread(grok, args))
+  );
+
+  // extract_links — aggregate and summarize all external URLs shared by a user
+  server.registerTool(
+    "extract_links",
+    {
+      description: "Extract and summarize all external links shared by a Twitter/X user, with optional date range",
+      inputSchema: { ...ExtractLinksInput.shape, ...CacheOptionShape },
+      outputSchema: ExtractLinksOutput.shape,
+    },
+    (input, extra) =>
+      runCached("extract_links", extra, ExtractLinksInput, budgeted(input), (args) => extractLinks(grok, args))
+  );
+
+  // get_user_mentions — tweets from other accounts mentioning a given user
+  server.registerTool(
+    "get_user_mentions",
+    {
+      description: "Get recent tweets mentioning a Twitter/X user (@username), with optional date range",
+      inputSchema: { ...GetUserMentionsInput.shape, ...CacheOptionShape },
+      outputSchema: GetUserMentionsOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_user_mentions", extra, GetUserMentionsInput, budgeted(input), (args) => getUserMentions(grok, args))
+  );
+
+  // get_list_tweets — tweets from a Twitter/X list by ID or URL, with pagination
+  server.registerTool(
+    "get_list_tweets",
+    {
+      description: "Get recent tweets from a Twitter/X list by its ID or URL, with optional date range and cursor-based pagination",
+      inputSchema: { ...GetListTweetsInput.shape, ...CacheOptionShape },
+      outputSchema: GetListTweetsOutput.shape,
+    },
+    (input, extra) =>
+      runCached("get_list_tweets", extra, GetListTweetsInput, budgeted(input), (args) => getListTweets(grok, args))
+  );
+
+  // get_usage_stats — running token usage totals of this server process (no API call)
+  server.registerTool(
+    "get_usage_stats",
+    {
+      description: "Get Grok token usage (input, output, reasoning tokens and x_search sources) accumulated by this server, overall and per tool",
+      inputSchema: GetUsageStatsInput.shape,
+      outputSchema: GetUsageStatsOutput.shape,
+    },
+    (input, extra) => run("get_usage_stats", extra, () => getUsageStats(grok, input))
+  );
+
+  // x:// resource templates; timelines, mentions and searches are subscribable
+  registerResources(server, grok, options);
+
+  // Analyst workflow prompts (daily brief, sentiment comparison, …)
+  registerPrompts(server);
+
+  return server;
+}
@@ -0,0 +1,108 @@
+import { writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { IncomingMessage } from "node:http";
+import { describe, it, expect, afterEach } from "vitest";
+import { ADMIN_SCOPE, TokenAuthenticator } from "../lib/auth.js";
+
+const CONFIG = {
+  clients: [
+    { name: "alice", token: "alice-secret-token-0001" },
+    { name: "ci-bot", token: "ci-bot-secret-token-0002" },
+  ],
+};
+
+function request(authorization?: string): IncomingMessage {
+  return { headers: authorization ? { authorization } : {} } as IncomingMessage;
+}
+
+describe("TokenAuthenticator", () => {
+  it("maps a valid bearer token to its client name", () => {
+    const auth = new TokenAuthenticator(CONFIG);
+    const info = auth.authenticate(request("Bearer alice-secret-token-0001"));
+    expect(info?.clientId).toBe("alice");
+    expect(info?.token).toBe("alice-secret-token-0001");
+  });
+
+  it("grants the admin scope only to clients marked admin", () => {
+    const auth = new TokenAuthenticator({
+      clients: [...CONFIG.clients, { name: "ops", token: "ops-secret-token-00003", admin: true }],
+    });
+    expect(auth.authenticate(request("Bearer ops-secret-token-00003"))?.scopes).toEqual([ADMIN_SCOPE]);
+    expect(auth.authenticate(request("Bearer alice-secret-token-0001"))?.scopes).toEqual([]);
+  });
+
+  it("accepts a case-insensitive scheme", () => {
+    const auth = new TokenAuthenticator(CONFIG);
+    expect(auth.authenticate(request("bearer ci-bot-secret-token-0002"))?.clientId).toBe("ci-bot");
+  });
+
+  it("rejects an unknown token", () => {
+    const auth = new TokenAuthenticator(CONFIG);
+    expect(auth.authenticate(request("Bearer not-a-configured-token"))).toBeUndefined();
+  });
+
+  it("rejects a missing Authorization header", () => {
+    const auth = new TokenAuthenticator(CONFIG);
+    expect(auth.authenticate(request())).toBeUndefined();
+  });
+
+  it("rejects non-Bearer schemes", () => {
+    const auth = new TokenAuthenticator(CONFIG);
+    expect(auth.authenticate(request("Basic alice-secret-token-0001"))).toBeUndefined();
+  });
+
+  it("throws when two clients share a token", () => {
+    expect(
+      () =>
+        new TokenAuthenticator({
+          clients: [
+            { name: "a", token: "shared-secret-token-01" },
+            { name: "b", token: "shared-secret-token-01" },
+          ],
+        })
+    ).toThrow("Duplicate token");
+  });
+
+  it("reports the number of configured clients", () => {
+    expect(new TokenAuthenticator(CONFIG).size).toBe(2);
+  });
+});
+
+describe("TokenAuthenticator.fromFile", () => {
+  let file: string;
+
+  afterEach(() => {
+    try { rmSync(file); } catch { /* file may not exist */ }
+  });
+
+  function writeConfig(content: string): string {
+    file = join(tmpdir(), `mcp-auth-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+    writeFileSync(file, content);
+    return file;
+  }
+
+  it("loads a valid config file", () => {
+    const auth = TokenAuthenticator.fromFile(writeConfig(JSON.stringify(CONFIG)));
+    expect(auth.authenticate(request("Bearer alice-secret-token-0001"))?.clientId).toBe("alice");
+  });
+
+  it("throws on invalid JSON", () => {
+    expect(() => TokenAuthenticator.fromFile(writeConfig("{ nope"))).toThrow("Cannot read auth config");
+  });
+
+  it("throws when a token is too short", () => {
+    const path = writeConfig(JSON.stringify({ clients: [{ name: "x", token: "short" }] }));
+    expect(() => TokenAuthenticator.fromFile(path)).toThrow("Invalid auth config");
+  });
+
+  it("throws when no clients are configured", () => {
+    const path = writeConfig(JSON.stringify({ clients: [] }));
+    expect(() => TokenAuthenticator.fromFile(path)).toThrow("At least one client");
+  });
+
+  it("throws when the file does not exist", () => {
+    file = join(tmpdir(), "mcp-auth-missing.json");
+    expect(() => TokenAuthenticator.fromFile(file)).toThrow("Cannot read auth config");
+  });
+});
@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { BudgetGuard, costOf, SOFT_LIMIT_MAX_RESULTS } from "../lib/budget.js";
+import { GrokBudgetExceededError } from "../lib/errors.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { getUsageStats } from "../tools/get-usage-stats.js";
+import { TweetSchema } from "../schemas/tweet.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+/** $1.00 worth of grok-2-vision output tokens. */
+const ONE_DOLLAR = { input_tokens: 0, output_tokens: 100_000, reasoning_tokens: 0, sources: 0 };
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("costOf", () => {
+  it("prices tokens per model and sources at a flat rate", () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 1_000_000, reasoning_tokens: 0, sources: 4 };
+    expect(costOf("grok-4-1-fast-non-reasoning", usage)).toBeCloseTo(0.2 + 0.5 + 0.1);
+    expect(costOf("grok-2-vision-1212", usage)).toBeCloseTo(2 + 10 + 0.1);
+  });
+
+  it("uses pessimistic pricing for unknown models", () => {
+    expect(costOf("grok-unknown", ONE_DOLLAR)).toBeGreaterThan(costOf("grok-2-vision-1212", ONE_DOLLAR));
+  });
+});
+
+describe("BudgetGuard", () => {
+  it("allows calls below the hard limit", () => {
+    const guard = new BudgetGuard({ dailyUsd: 5 });
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    expect(() => guard.check()).not.toThrow();
+    expect(guard.softLimited).toBe(false);
+  });
+
+  it("becomes soft-limited at the soft ratio", () => {
+    const guard = new BudgetGuard({ dailyUsd: 5, softRatio: 0.4 });
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    expect(guard.softLimited).toBe(true);
+    expect(() => guard.check()).not.toThrow();
+  });
+
+  it("throws GrokBudgetExceededError once the daily ceiling is reached", () => {
+    const guard = new BudgetGuard({ dailyUsd: 1 });
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    expect(() => guard.check()).toThrow(GrokBudgetExceededError);
+    try {
+      guard.check();
+    } catch (err) {
+      expect((err as GrokBudgetExceededError).period).toBe("daily");
+    }
+  });
+
+  it("enforces the monthly ceiling across days", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-01T12:00:00Z"));
+    const guard = new BudgetGuard({ dailyUsd: 10, monthlyUsd: 2 });
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    vi.setSystemTime(new Date("2025-03-02T12:00:00Z"));
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    expect(guard.status().day_spend_usd).toBeCloseTo(1);
+    expect(() => guard.check()).toThrow(/monthly spending limit/);
+  });
+
+  it("resets the daily spend when the UTC day rolls over", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-01T23:59:00Z"));
+    const guard = new BudgetGuard({ dailyUsd: 1 });
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    expect(() => guard.check()).toThrow(GrokBudgetExceededError);
+    vi.setSystemTime(new Date("2025-03-02T00:01:00Z"));
+    expect(() => guard.check()).not.toThrow();
+  });
+
+  it("downgrade() drops enrich_media and caps result counts past the soft limit", () => {
+    const guard = new BudgetGuard({ dailyUsd: 1, softRatio: 0.5 });
+    const input = { query: "x", max_results: 50, enrich_media: true };
+    expect(guard.downgrade(input)).toBe(input);
+
+    guard.record("grok-2-vision-1212", ONE_DOLLAR);
+    expect(guard.downgrade(input)).toEqual({ query: "x", max_results: SOFT_LIMIT_MAX_RESULTS, enrich_media: false });
+    expect(guard.downgrade({ max_tweets: 5 })).toEqual({ max_tweets: 5 });
+    expect(input.max_results).toBe(50); // original untouched
+  });
+});
+
+describe("BudgetGuard — persistence", () => {
+  let file: string;
+
+  beforeEach(() => {
+    file = join(tmpdir(), `mcp-budget-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+  });
+
+  afterEach(() => {
+    try { rmSync(file); } catch { /* file may not exist */ }
+  });
+
+  it("persists spend and restores it in a new instance", () => {
+    new BudgetGuard({ dailyUsd: 1 }, file).record("grok-2-vision-1212", ONE_DOLLAR);
+    expect(JSON.parse(readFileSync(file, "utf-8")).daySpendUsd).toBeCloseTo(1);
+
+    const restored = new BudgetGuard({ dailyUsd: 1 }, file);
+    expect(() => restored.check()).toThrow(GrokBudgetExceededError);
+  });
+
+  it("discards a persisted day that has already passed", () => {
+    const month = new Date().toISOString().slice(0, 7);
+    writeFileSync(file, JSON.stringify({ day: "2000-01-01", daySpendUsd: 9, month, monthSpendUsd: 9 }));
+    const guard = new BudgetGuard({ dailyUsd: 1, monthlyUsd: 100 }, file);
+    expect(guard.status().day_spend_usd).toBe(0);
+    expect(guard.status().month_spend_usd).toBe(9);
+  });
+
+  it("starts from zero when the file is corrupted", () => {
+    writeFileSync(file, "{not json");
+    const guard = new BudgetGuard({ dailyUsd: 1 }, file);
+    expect(guard.status().day_spend_usd).toBe(0);
+  });
+});
+
+describe("GrokClient — budget enforcement", () => {
+  function stubbedClient(budget: BudgetGuard) {
+    const client = new GrokClient(API_KEY, { budget });
+    const responsesCreate = vi.fn().mockResolvedValue({
+      output_text: JSON.stringify({
+        id: "1",
+        url: "https://x.com/a/status/1",
+        author: { username: "a", display_name: "A", verified: false },
+        text: "t",
+        created_at: "2025-01-01T00:00:00Z",
+        metrics: { likes: 0, retweets: 0, replies: 0 },
+        is_retweet: false,
+      }),
+      usage: { input_tokens: 1_000_000, output_tokens: 0, num_sources_used: 0 },
+    });
+    const chatCreate = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: "A sunset" } }],
+      usage: { prompt_tokens: 10, completion_tokens: 10 },
+    });
+    (client as unknown as { openai: unknown }).openai = {
+      responses: { create: responsesCreate },
+      chat: { completions: { create: chatCreate } },
+    };
+    return { client, responsesCreate, chatCreate };
+  }
+
+  it("charges query cost at the text model's price", async () => {
+    const budget = new BudgetGuard({ dailyUsd: 10 });
+    const { client } = stubbedClient(budget);
+    await client.query("prompt", TweetSchema, "tweet");
+    expect(budget.status().day_spend_usd).toBeCloseTo(0.2);
+  });
+
+  it("rejects queries past the hard limit without calling the API", async () => {
+    const budget = new BudgetGuard({ dailyUsd: 1 });
+    budget.record("grok-2-vision-1212", ONE_DOLLAR);
+    const { client, responsesCreate } = stubbedClient(budget);
+    await expect(client.query("prompt", TweetSchema, "tweet")).rejects.toThrow(GrokBudgetExceededError);
+    expect(responsesCreate).not.toHaveBeenCalled();
+  });
+
+  it("skips vision analysis past the soft limit", async () => {
+    const budget = new BudgetGuard({ dailyUsd: 2, softRatio: 0.5 });
+    budget.record("grok-2-vision-1212", ONE_DOLLAR);
+    const { client, chatCreate } = stubbedClient(budget);
+    expect(await client.analyzeMedia("https://pbs.twimg.com/media/a.jpg", "image")).toBe("");
+    expect(chatCreate).not.toHaveBeenCalled();
+  });
+
+  it("get_usage_stats reports the budget status when configured", async () => {
+    const budget = new BudgetGuard({ monthlyUsd: 50 });
+    const result = await getUsageStats(new GrokClient(API_KEY, { budget }), {});
+    expect(result).toMatchObject({ budget: { monthly_limit_usd: 50, soft_limited: false } });
+    expect(await getUsageStats(new GrokClient(API_KEY), {})).not.toHaveProperty("budget");
+  });
+});
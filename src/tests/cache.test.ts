@@ -40,6 +40,34 @@ describe("TtlCache", () => {
     expect(cache.get("key")).toBe("value");
   });
 
+  it("peek() returns an expired entry without removing it", () => {
+    vi.useFakeTimers();
+    const cache = new TtlCache<string, string>(1000);
+    cache.set("key", "value");
+    expect(cache.peek("key")).toEqual({ value: "value", expired: false });
+
+    vi.advanceTimersByTime(1001);
+
+    expect(cache.peek("key")).toEqual({ value: "value", expired: true });
+    expect(cache.peek("key")).toBeDefined();
+    expect(cache.peek("missing")).toBeUndefined();
+  });
+
+  it("entries() lists live entries, least recently set first", () => {
+    vi.useFakeTimers();
+    const cache = new TtlCache<string, number>(1000);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    vi.advanceTimersByTime(300);
+    cache.set("c", 3);
+    vi.advanceTimersByTime(300);
+    cache.set("b", 4); // re-setting moves b to the end
+    expect(cache.entries()).toEqual([["a", 1], ["c", 3], ["b", 4]]);
+
+    vi.advanceTimersByTime(500); // a expired
+    expect(cache.entries().map(([key]) => key)).toEqual(["c", "b"]);
+  });
+
   it("clear() removes all entries", () => {
     const cache = new TtlCache<string, number>(5000);
     cache.set("a", 1);
@@ -67,6 +95,87 @@ describe("TtlCache", () => {
   });
 });
 
+// ─── Limits ───────────────────────────────────────────────────────────────────
+describe("TtlCache — limits", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", () => {
+    const cache = new TtlCache<string, number>(5000, { maxEntries: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a"); // "b" is now least recently used
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 });
+  });
+
+  it("evicts beyond maxBytes and never stores a value larger than the limit", () => {
+    const cache = new TtlCache<string, string>(5000, { maxBytes: 30 });
+    cache.set("a", "x".repeat(10)); // 1 + 12 bytes
+    cache.set("b", "y".repeat(10));
+    cache.set("c", "z".repeat(10));
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 26, evictions: 1 });
+
+    cache.set("b", "w".repeat(100));
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toBe("z".repeat(10));
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 13 });
+  });
+
+  it("counts hits and misses, expired entries as misses", () => {
+    vi.useFakeTimers();
+    const cache = new TtlCache<string, string>(1000);
+    cache.set("key", "value");
+    cache.get("key");
+    cache.peek("key");
+    cache.get("missing");
+    vi.advanceTimersByTime(1001);
+    cache.peek("key");
+
+    expect(cache.stats()).toEqual({ entries: 1, bytes: 10, hits: 2, misses: 2, evictions: 0 });
+  });
+
+  it("lookup() serves an expired entry as stale within staleGraceMs", () => {
+    vi.useFakeTimers();
+    const cache = new TtlCache<string, string>(1000, { staleGraceMs: 500 });
+    cache.set("key", "value");
+    vi.advanceTimersByTime(400);
+    expect(cache.lookup("key")).toEqual({ value: "value", stale: false, ageMs: 400 });
+
+    vi.advanceTimersByTime(800); // 200 ms past the TTL
+    expect(cache.get("key")).toBeUndefined();
+    expect(cache.sweep()).toBe(0);
+    expect(cache.lookup("key")).toEqual({ value: "value", stale: true, ageMs: 1200 });
+
+    vi.advanceTimersByTime(301); // past the grace window
+    expect(cache.lookup("key")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 0, hits: 1, misses: 3 });
+  });
+
+  it("sweeps expired entries periodically until closed", () => {
+    vi.useFakeTimers();
+    const cache = new TtlCache<string, string>(1000, { sweepIntervalMs: 500 });
+    cache.set("old", "value");
+    vi.advanceTimersByTime(600);
+    cache.set("new", "value");
+
+    vi.advanceTimersByTime(900); // t = 1500: "old" expired and swept, "new" live
+    expect(cache.stats().entries).toBe(1);
+    expect(cache.peek("old")).toBeUndefined();
+
+    cache.close();
+    vi.advanceTimersByTime(2000);
+    expect(cache.stats().entries).toBe(1);
+    expect(cache.sweep()).toBe(1);
+  });
+});
+
 // ─── PersistentTtlCache ───────────────────────────────────────────────────────
 describe("PersistentTtlCache", () => {
   let testFile: string;
@@ -132,6 +241,32 @@ describe("PersistentTtlCache", () => {
     expect(cache2.get("key")).toBeUndefined();
   });
 
+  it("keeps evicted and swept entries out of the file", () => {
+    vi.useFakeTimers();
+    const cache = new PersistentTtlCache<number>(1000, testFile, { maxEntries: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    vi.advanceTimersByTime(600);
+    cache.set("c", 3);
+    expect(Object.keys(JSON.parse(readFileSync(testFile, "utf-8")) as object)).toEqual(["b", "c"]);
+
+    vi.advanceTimersByTime(500); // past the TTL of "b" only
+    expect(cache.sweep()).toBe(1);
+    expect(Object.keys(JSON.parse(readFileSync(testFile, "utf-8")) as object)).toEqual(["c"]);
+  });
+
+  it("trims a file written under larger limits on load, keeping the most recent", () => {
+    vi.useFakeTimers();
+    const unbounded = new PersistentTtlCache<number>(5000, testFile);
+    for (const [i, key] of ["a", "b", "c"].entries()) {
+      vi.advanceTimersByTime(10);
+      unbounded.set(key, i);
+    }
+
+    const bounded = new PersistentTtlCache<number>(5000, testFile, { maxEntries: 2 });
+    expect(bounded.entries().map(([key]) => key)).toEqual(["b", "c"]);
+  });
+
   it("degrades to in-memory when file contains invalid JSON", () => {
     writeFileSync(testFile, "NOT VALID JSON {{{{");
 
@@ -0,0 +1,161 @@
+/**
+ * Request coalescing in GrokClient.query() — identical concurrent queries
+ * share one upstream call, its result and its errors.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import OpenAI from "openai";
+import { GrokClient } from "../lib/grok-client.js";
+import { GrokCancelledError } from "../lib/errors.js";
+import { runWithRequestContext } from "../lib/request-context.js";
+import { DEFAULT_GROK_CONFIG, mergeGrokConfig, type GrokConfig } from "../lib/config.js";
+import { TweetArraySchema } from "../schemas/tweet.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+const TWEETS = {
+  tweets: [
+    {
+      id: "20",
+      url: "https://x.com/jack/status/20",
+      author: { username: "jack", display_name: "jack", verified: false },
+      text: "just setting up my twttr",
+      created_at: "2006-03-21T20:50:14Z",
+      metrics: { likes: 1, retweets: 0, replies: 0 },
+      is_retweet: false,
+    },
+  ],
+};
+
+type CallOptions = { signal?: AbortSignal };
+
+/**
+ * A GrokClient whose `responses.create` waits until `release()` is called,
+ * so tests can start several queries while the first is still in flight.
+ * The call is rejected when its signal aborts, like the OpenAI SDK does.
+ */
+function pausedClient(outcome: () => unknown = () => ({ output_text: JSON.stringify(TWEETS) }), config?: GrokConfig) {
+  const grok = new GrokClient(API_KEY, { config });
+  let release!: () => void;
+  let gate = new Promise<void>((resolve) => (release = resolve));
+  const create = vi.fn(async (_request: unknown, options?: CallOptions) => {
+    await new Promise<void>((resolve, reject) => {
+      gate.then(resolve);
+      options?.signal?.addEventListener("abort", () => reject(new OpenAI.APIUserAbortError()));
+    });
+    gate = new Promise<void>((resolve) => (release = resolve));
+    return outcome();
+  });
+  (grok as unknown as { openai: unknown }).openai = { responses: { create } };
+  return { grok, create, release: () => release() };
+}
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("GrokClient request coalescing", () => {
+  it("shares one call between identical concurrent queries", async () => {
+    const { grok, create, release } = pausedClient();
+    const first = grok.query("p", TweetArraySchema, "tweet_array", { from_date: "2024-01-01" });
+    const second = grok.query("p", TweetArraySchema, "tweet_array", { from_date: "2024-01-01" });
+    await vi.waitFor(() => expect(create).toHaveBeenCalledOnce());
+    release();
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(a).toMatchObject(TWEETS);
+    expect(b).toEqual(a);
+    // Each caller gets its own copy.
+    expect(b).not.toBe(a);
+    expect(create).toHaveBeenCalledOnce();
+  });
+
+  it("keeps queries with a different prompt, schema name or x_search params apart", async () => {
+    const { grok, create, release } = pausedClient();
+    const calls = [
+      grok.query("p", TweetArraySchema, "tweet_array"),
+      grok.query("q", TweetArraySchema, "tweet_array"),
+      grok.query("p", TweetArraySchema, "thread"),
+      grok.query("p", TweetArraySchema, "tweet_array", { allowed_x_handles: ["jack"] }),
+    ];
+    await vi.waitFor(() => expect(create).toHaveBeenCalledTimes(4));
+    release();
+    await Promise.all(calls);
+  });
+
+  it("keeps queries from tools with a different model or output cap apart", async () => {
+    const config = mergeGrokConfig(DEFAULT_GROK_CONFIG, {
+      tools: { analyze_thread: { model: "grok-4" }, extract_links: { max_output_tokens: 2048 } },
+    });
+    const { grok, create, release } = pausedClient(undefined, config);
+    const asTool = (tool: string) => runWithRequestContext({ tool }, () => grok.query("p", TweetArraySchema, "tweet_array"));
+    const calls = [asTool("get_tweet"), asTool("analyze_thread"), asTool("extract_links"), asTool("get_thread")];
+    // get_tweet and get_thread run with the same default settings.
+    await vi.waitFor(() => expect(create).toHaveBeenCalledTimes(3));
+    release();
+    await Promise.all(calls);
+    expect(create).toHaveBeenCalledTimes(3);
+    const models = create.mock.calls.map(([request]) => (request as { model: string }).model);
+    expect(models).toContain("grok-4");
+  });
+
+  it("makes a new call once the previous one has settled", async () => {
+    const { grok, create, release } = pausedClient();
+    const first = grok.query("p", TweetArraySchema, "tweet_array");
+    await vi.waitFor(() => expect(create).toHaveBeenCalledOnce());
+    release();
+    await first;
+
+    const second = grok.query("p", TweetArraySchema, "tweet_array");
+    await vi.waitFor(() => expect(create).toHaveBeenCalledTimes(2));
+    release();
+    await second;
+  });
+
+  it("rejects every waiter with the error of the shared call", async () => {
+    const { grok, create, release } = pausedClient(() => ({ output_text: "" }));
+    const first = grok.query("p", TweetArraySchema, "tweet_array");
+    const second = grok.query("p", TweetArraySchema, "tweet_array");
+    await vi.waitFor(() => expect(create).toHaveBeenCalledOnce());
+    release();
+
+    await expect(first).rejects.toThrow("Grok returned no text output.");
+    await expect(second).rejects.toThrow("Grok returned no text output.");
+    expect(create).toHaveBeenCalledOnce();
+  });
+
+  it("runs the query again for waiters when the request that made the call is cancelled", async () => {
+    const { grok, create, release } = pausedClient();
+    const controller = new AbortController();
+    const first = runWithRequestContext({ signal: controller.signal }, () =>
+      grok.query("p", TweetArraySchema, "tweet_array")
+    );
+    const second = grok.query("p", TweetArraySchema, "tweet_array");
+    await vi.waitFor(() => expect(create).toHaveBeenCalledOnce());
+
+    controller.abort();
+    await expect(first).rejects.toThrow(GrokCancelledError);
+    await vi.waitFor(() => expect(create).toHaveBeenCalledTimes(2));
+    release();
+    await expect(second).resolves.toMatchObject(TWEETS);
+  });
+
+  it("lets a cancelled waiter go without cancelling the shared call", async () => {
+    const { grok, create, release } = pausedClient();
+    const controller = new AbortController();
+    const first = grok.query("p", TweetArraySchema, "tweet_array");
+    const second = runWithRequestContext({ signal: controller.signal }, () =>
+      grok.query("p", TweetArraySchema, "tweet_array")
+    );
+    await vi.waitFor(() => expect(create).toHaveBeenCalledOnce());
+
+    controller.abort();
+    await expect(second).rejects.toThrow(GrokCancelledError);
+    release();
+    await expect(first).resolves.toMatchObject(TWEETS);
+    expect(create).toHaveBeenCalledOnce();
+  });
+});
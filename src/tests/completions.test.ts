@@ -0,0 +1,187 @@
+/**
+ * Argument completions — completers backed by caches and recently seen
+ * values, and completion/complete through a connected client.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../server.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { RecentValues } from "../lib/recent-values.js";
+import {
+  completeListId,
+  completeTrendingCategory,
+  completeTrendingCountry,
+  completeUsername,
+  recentAuthors,
+  rememberAuthors,
+} from "../completions.js";
+import { profileCache } from "../tools/get-user-profile.js";
+import { recentListIds } from "../tools/get-list-tweets.js";
+import { trendingCache } from "../tools/get-trending.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+const PROFILE = {
+  username: "jack",
+  display_name: "jack",
+  verified: true,
+  followers_count: 1,
+  following_count: 1,
+  tweet_count: 1,
+};
+
+function tweet(id: string, author: string) {
+  return {
+    id,
+    url: `https://x.com/${author}/status/${id}`,
+    author: { username: author, display_name: author, verified: false },
+    text: "hello",
+    created_at: "2025-01-01T00:00:00Z",
+    metrics: { likes: 0, retweets: 0, replies: 0 },
+    is_retweet: false,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  profileCache.clear();
+  trendingCache.clear();
+  recentAuthors.clear();
+  recentListIds.clear();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("RecentValues", () => {
+  it("returns values most recent first, moving re-added ones to the front", () => {
+    const values = new RecentValues(10);
+    values.add("a");
+    values.add("b");
+    values.add("a");
+    expect(values.values()).toEqual(["a", "b"]);
+  });
+
+  it("forgets the oldest value past its size", () => {
+    const values = new RecentValues(2);
+    values.add("a");
+    values.add("b");
+    values.add("c");
+    expect(values.values()).toEqual(["c", "b"]);
+    expect(values.size).toBe(2);
+  });
+});
+
+describe("completers", () => {
+  it("complete usernames from recent authors, then cached profiles", () => {
+    profileCache.set("jack", PROFILE as never);
+    rememberAuthors({ tweets: [tweet("1", "jane"), tweet("2", "Jamie")] });
+    rememberAuthors(tweet("3", "bob"));
+    expect(completeUsername("ja")).toEqual(["Jamie", "jane", "jack"]);
+    expect(completeUsername("@JAC")).toEqual(["jack"]);
+    expect(completeUsername("")).toEqual(["bob", "Jamie", "jane", "jack"]);
+  });
+
+  it("remember authors from get_tweets, quote tweets and conversation trees", () => {
+    rememberAuthors({
+      results: [{ input: "1", id: "1", status: "found", tweet: tweet("1", "batch") }, { input: "x", status: "error" }],
+    });
+    rememberAuthors({ tweets: [{ ...tweet("2", "quoter"), quoted_tweet: tweet("3", "quoted") }] });
+    const node = (t: object, replies: object[] = []) => ({ tweet: t, omitted_replies: 0, replies });
+    rememberAuthors({
+      root: node(tweet("4", "root"), [node(tweet("5", "reply"), [node(tweet("6", "nested"))])]),
+      orphans: [node(tweet("7", "orphan"))],
+      total_tweets: 4,
+    });
+    expect(completeUsername("").sort()).toEqual(["batch", "nested", "orphan", "quoted", "quoter", "reply", "root"]);
+  });
+
+  it("ignore results without tweets", () => {
+    rememberAuthors({ topics: [] });
+    rememberAuthors(null);
+    expect(recentAuthors.size).toBe(0);
+  });
+
+  it("complete list IDs from queried lists", () => {
+    recentListIds.add("1234");
+    recentListIds.add("5678");
+    expect(completeListId("")).toEqual(["5678", "1234"]);
+    expect(completeListId("12")).toEqual(["1234"]);
+  });
+
+  it("complete trending categories and countries from the trending cache", () => {
+    trendingCache.set("technology|france", {
+      topics: [{ name: "#AI", category: "Technology" }, { name: "#F1", category: "Sports" }],
+    });
+    trendingCache.set("|", { topics: [{ name: "#News", category: "Politics" }] });
+    expect(completeTrendingCategory("")).toEqual(["politics", "technology", "sports"]);
+    expect(completeTrendingCategory("sp")).toEqual(["sports"]);
+    expect(completeTrendingCountry("")).toEqual(["france"]);
+  });
+
+  it("cap completions at 100 values", () => {
+    for (let i = 0; i < 150; i++) recentAuthors.add(`user${i}`);
+    expect(completeUsername("user")).toHaveLength(100);
+  });
+});
+
+describe("completion/complete", () => {
+  async function connect() {
+    const grok = new GrokClient(API_KEY);
+    const create = vi.fn(async () => ({
+      output_text: JSON.stringify({ tweets: [tweet("10", "janet")] }),
+    }));
+    (grok as unknown as { openai: unknown }).openai = { responses: { create } };
+    const server = createServer(grok);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  it("advertises the completions capability", async () => {
+    const client = await connect();
+    expect(client.getServerCapabilities()?.completions).toBeDefined();
+    await client.close();
+  });
+
+  it("completes resource template variables from tool results", async () => {
+    const client = await connect();
+    await client.callTool({ name: "get_list_tweets", arguments: { list_id: "https://x.com/i/lists/4242" } });
+
+    const user = await client.complete({
+      ref: { type: "ref/resource", uri: "x://user/{username}/tweets" },
+      argument: { name: "username", value: "jan" },
+    });
+    expect(user.completion.values).toEqual(["janet"]);
+
+    const list = await client.complete({
+      ref: { type: "ref/resource", uri: "x://list/{id}" },
+      argument: { name: "id", value: "4" },
+    });
+    expect(list.completion.values).toEqual(["4242"]);
+    await client.close();
+  });
+
+  it("completes trending variables and prompt usernames", async () => {
+    const client = await connect();
+    trendingCache.set("technology|japan", { topics: [] });
+    profileCache.set("jack", PROFILE as never);
+
+    const country = await client.complete({
+      ref: { type: "ref/resource", uri: "x://trending/{category}/{country}" },
+      argument: { name: "country", value: "ja" },
+    });
+    expect(country.completion.values).toEqual(["japan"]);
+
+    const prompt = await client.complete({
+      ref: { type: "ref/prompt", name: "daily_brief" },
+      argument: { name: "username", value: "@j" },
+    });
+    expect(prompt.completion.values).toEqual(["jack"]);
+    await client.close();
+  });
+});
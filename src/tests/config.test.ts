@@ -0,0 +1,152 @@
+import { writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  DEFAULT_GROK_CONFIG,
+  loadGrokConfig,
+  mergeGrokConfig,
+  settingsForTool,
+} from "../lib/config.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { runWithRequestContext } from "../lib/request-context.js";
+import { TweetSchema } from "../schemas/tweet.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+describe("loadGrokConfig", () => {
+  let file: string;
+
+  beforeEach(() => {
+    file = join(tmpdir(), `mcp-config-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+  });
+
+  afterEach(() => {
+    try { rmSync(file); } catch { /* file may not exist */ }
+  });
+
+  it("returns the built-in defaults without a file or env overrides", () => {
+    expect(loadGrokConfig({})).toEqual(DEFAULT_GROK_CONFIG);
+  });
+
+  it("merges the file over the defaults field by field", () => {
+    writeFileSync(file, JSON.stringify({
+      defaults: { timeout_ms: 90_000 },
+      tools: { analyze_thread: { model: "grok-4-1-fast-reasoning" } },
+    }));
+    const config = loadGrokConfig({ GROK_CONFIG_FILE: file });
+    expect(config.defaults).toEqual({ ...DEFAULT_GROK_CONFIG.defaults, timeout_ms: 90_000 });
+    expect(config.tools.analyze_thread).toEqual({ model: "grok-4-1-fast-reasoning" });
+    expect(config.base_url).toBe(DEFAULT_GROK_CONFIG.base_url);
+  });
+
+  it("lets environment variables win over the file", () => {
+    writeFileSync(file, JSON.stringify({ base_url: "https://file.example/v1", defaults: { model: "from-file" } }));
+    const config = loadGrokConfig({
+      GROK_CONFIG_FILE: file,
+      GROK_BASE_URL: "http://127.0.0.1:8080/v1",
+      GROK_MAX_OUTPUT_TOKENS: "4096",
+    });
+    expect(config.base_url).toBe("http://127.0.0.1:8080/v1");
+    expect(config.defaults.model).toBe("from-file");
+    expect(config.defaults.max_output_tokens).toBe(4096);
+  });
+
+  it("reads the vision model from GROK_VISION_MODEL", () => {
+    expect(loadGrokConfig({ GROK_VISION_MODEL: "my-vision" }).vision.model).toBe("my-vision");
+  });
+
+  it("rejects non-numeric env values", () => {
+    expect(() => loadGrokConfig({ GROK_TIMEOUT_MS: "soon" })).toThrow(/Invalid Grok configuration in environment/);
+  });
+
+  it("rejects an invalid base URL", () => {
+    expect(() => loadGrokConfig({ GROK_BASE_URL: "not a url" })).toThrow(/base_url/);
+  });
+
+  it("rejects an invalid file with the offending path", () => {
+    writeFileSync(file, JSON.stringify({ tools: { get_tweet: { timeout_ms: -1 } } }));
+    expect(() => loadGrokConfig({ GROK_CONFIG_FILE: file })).toThrow(/Invalid Grok config .*tools\.get_tweet\.timeout_ms/);
+  });
+
+  it("reports an unreadable file", () => {
+    expect(() => loadGrokConfig({ GROK_CONFIG_FILE: join(tmpdir(), "mcp-config-missing.json") }))
+      .toThrow(/Cannot read Grok config/);
+  });
+});
+
+describe("settingsForTool", () => {
+  const config = mergeGrokConfig(DEFAULT_GROK_CONFIG, {
+    tools: { analyze_thread: { model: "grok-4-1-fast-reasoning", timeout_ms: 120_000 } },
+  });
+
+  it("overlays per-tool settings on the defaults", () => {
+    expect(settingsForTool(config, "analyze_thread")).toEqual({
+      model: "grok-4-1-fast-reasoning",
+      timeout_ms: 120_000,
+      max_output_tokens: DEFAULT_GROK_CONFIG.defaults.max_output_tokens,
+      continue_on_truncation: false,
+    });
+  });
+
+  it("falls back to the defaults for other tools and outside a tool", () => {
+    expect(settingsForTool(config, "get_tweet")).toEqual(DEFAULT_GROK_CONFIG.defaults);
+    expect(settingsForTool(config)).toEqual(DEFAULT_GROK_CONFIG.defaults);
+  });
+});
+
+describe("GrokClient — configuration", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function stubbedClient() {
+    const config = mergeGrokConfig(DEFAULT_GROK_CONFIG, {
+      defaults: { max_output_tokens: 2048 },
+      vision: { model: "custom-vision", max_tokens: 128, timeout_ms: 5_000 },
+      tools: { analyze_thread: { model: "grok-4-1-fast-reasoning", timeout_ms: 120_000 } },
+    });
+    const client = new GrokClient(API_KEY, { config });
+    const responsesCreate = vi.fn().mockResolvedValue({
+      output_text: JSON.stringify({
+        id: "1",
+        url: "https://x.com/a/status/1",
+        author: { username: "a", display_name: "A", verified: false },
+        text: "t",
+        created_at: "2025-01-01T00:00:00Z",
+        metrics: { likes: 0, retweets: 0, replies: 0 },
+        is_retweet: false,
+      }),
+    });
+    const chatCreate = vi.fn().mockResolvedValue({ choices: [{ message: { content: "ok" } }] });
+    (client as unknown as { openai: unknown }).openai = {
+      responses: { create: responsesCreate },
+      chat: { completions: { create: chatCreate } },
+    };
+    return { client, responsesCreate, chatCreate };
+  }
+
+  it("uses the per-tool model and timeout from the request context", async () => {
+    const { client, responsesCreate } = stubbedClient();
+    await runWithRequestContext({ tool: "analyze_thread" }, () => client.query("p", TweetSchema, "tweet"));
+    const [body, opts] = responsesCreate.mock.calls[0];
+    expect(body.model).toBe("grok-4-1-fast-reasoning");
+    expect(body.max_output_tokens).toBe(2048);
+    expect(opts).toEqual({ timeout: 120_000 });
+  });
+
+  it("uses the default model for tools without an override", async () => {
+    const { client, responsesCreate } = stubbedClient();
+    await runWithRequestContext({ tool: "get_tweet" }, () => client.query("p", TweetSchema, "tweet"));
+    expect(responsesCreate.mock.calls[0][0].model).toBe(DEFAULT_GROK_CONFIG.defaults.model);
+  });
+
+  it("uses the configured vision model, token cap and timeout", async () => {
+    const { client, chatCreate } = stubbedClient();
+    await client.analyzeMedia("https://pbs.twimg.com/media/a.jpg", "image");
+    const [body, opts] = chatCreate.mock.calls[0];
+    expect(body.model).toBe("custom-vision");
+    expect(body.max_tokens).toBe(128);
+    expect(opts).toEqual({ timeout: 5_000 });
+  });
+});
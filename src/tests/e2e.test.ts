@@ -0,0 +1,163 @@
+/**
+ * End-to-end tests — spawn the built server (dist/index.js) over stdio with
+ * GROK_BASE_URL pointed at the local mock Grok server, then call tools.
+ * No API key or network needed; run `npm run build` first (test:e2e does).
+ * Skipped automatically when dist/index.js is missing.
+ */
+import { spawn, type ChildProcess } from "node:child_process";
+import { existsSync, writeFileSync, rmSync } from "node:fs";
+import { join, dirname } from "node:path";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { startMockGrokServer, type MockGrokServer } from "./helpers/mock-grok-server.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SERVER_PATH = join(__dirname, "../../dist/index.js");
+
+type ToolResult = Awaited<ReturnType<Client["callTool"]>>;
+
+function getText(result: ToolResult): string {
+  return (result.content as { type: string; text: string }[])[0].text;
+}
+
+describe.skipIf(!existsSync(SERVER_PATH))("MCP server end to end (mock Grok server)", () => {
+  let mock: MockGrokServer;
+  let client: Client;
+  let configFile: string;
+
+  beforeAll(async () => {
+    mock = await startMockGrokServer();
+    // SDK retries off so every injected fault maps to exactly one tool call.
+    configFile = join(tmpdir(), `mcp-e2e-config-${Date.now()}.json`);
+    writeFileSync(configFile, JSON.stringify({ max_retries: 0, defaults: { timeout_ms: 2_000 } }));
+
+    const transport = new StdioClientTransport({
+      command: "node",
+      args: [SERVER_PATH],
+      env: {
+        ...process.env,
+        XAI_API_KEY: "xai-" + "e".repeat(40),
+        GROK_BASE_URL: mock.baseURL,
+        GROK_CONFIG_FILE: configFile,
+      } as Record<string, string>,
+      stderr: "ignore",
+    });
+    client = new Client({ name: "e2e-client", version: "1.0.0" });
+    await client.connect(transport);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await mock?.close();
+    rmSync(configFile, { force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  it("get_tweet returns the requested tweet", async () => {
+    const result = await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: "1585841080431321088" } });
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse(getText(result)).id).toBe("1585841080431321088");
+    expect(mock.requests[0].body.model).toBe("grok-4-1-fast-non-reasoning");
+  });
+
+  it("search_tweets returns schema-valid synthetic tweets", async () => {
+    const result = await client.callTool({ name: "search_tweets", arguments: { query: "AI", max_results: 3 } });
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse(getText(result)).tweets).toHaveLength(3);
+  });
+
+  it("401 from upstream becomes an authentication error", async () => {
+    mock.inject({ kind: "unauthorized" });
+    const result = await client.callTool({ name: "get_user_profile", arguments: { username: "e2e_auth" } });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toMatch(/authentication failed/i);
+  });
+
+  it("429 from upstream becomes a rate limit error with retry hint", async () => {
+    mock.inject({ kind: "rate_limit", retryAfterSec: 4 });
+    const result = await client.callTool({ name: "search_tweets", arguments: { query: "rate limited" } });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toMatch(/rate limit exceeded.*Retry after 4s/i);
+  });
+
+  it("truncated search results return the complete tweets", async () => {
+    mock.inject({ kind: "truncated" });
+    const result = await client.callTool({ name: "search_tweets", arguments: { query: "truncated" } });
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse(getText(result)).truncated).toBe(true);
+  });
+
+  it("truncated JSON that cannot be recovered is reported as malformed", async () => {
+    mock.inject({ kind: "truncated", times: 2 });
+    const result = await client.callTool({ name: "get_user_profile", arguments: { username: "e2e_trunc" } });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toMatch(/likely truncated/);
+  });
+
+  it("slow upstream responses time out", async () => {
+    mock.inject({ kind: "slow", delayMs: 3_000 });
+    const result = await client.callTool({ name: "search_tweets", arguments: { query: "slow" } });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toMatch(/timed out/i);
+  });
+
+  // Runs last: the circuit stays open for 30 s afterwards.
+  it("a 5xx burst opens the circuit breaker", async () => {
+    // A success first resets the failure count left by the timeout test.
+    await client.callTool({ name: "search_tweets", arguments: { query: "healthy" } });
+    mock.reset();
+    mock.inject({ kind: "server_error", times: 5 });
+    for (let i = 0; i < 5; i++) {
+      const result = await client.callTool({ name: "search_tweets", arguments: { query: `burst ${i}` } });
+      expect(result.isError).toBe(true);
+    }
+    const result = await client.callTool({ name: "search_tweets", arguments: { query: "after burst" } });
+    expect(getText(result)).toMatch(/circuit open/i);
+    expect(mock.requests).toHaveLength(5);
+  });
+});
+
+describe.skipIf(!existsSync(SERVER_PATH))("stdio shutdown", () => {
+  /** Spawn the server and resolve once it reports it is listening. */
+  async function startServer(): Promise<{ child: ChildProcess; stderr: () => string }> {
+    const child = spawn("node", [SERVER_PATH], {
+      env: { ...process.env, XAI_API_KEY: "xai-" + "e".repeat(40), GROK_BASE_URL: "http://127.0.0.1:9" },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stderr = "";
+    await new Promise<void>((resolve, reject) => {
+      child.stderr!.on("data", (chunk: Buffer) => {
+        stderr += chunk.toString();
+        if (stderr.includes("Listening on stdio")) resolve();
+      });
+      child.once("exit", () => reject(new Error(`server exited early: ${stderr}`)));
+    });
+    return { child, stderr: () => stderr };
+  }
+
+  function exited(child: ChildProcess): Promise<{ code: number | null; signal: NodeJS.Signals | null }> {
+    return new Promise((resolve) => child.once("exit", (code, signal) => resolve({ code, signal })));
+  }
+
+  it("closes and exits cleanly when the host closes stdin", async () => {
+    const { child, stderr } = await startServer();
+    const exit = exited(child);
+    child.stdin!.end();
+    expect(await exit).toEqual({ code: 0, signal: null });
+    expect(stderr()).toMatch(/"msg":"Shutting down stdio server","ts":\d+,"reason":"stdin closed"/);
+  });
+
+  it("closes and exits cleanly on SIGTERM", async () => {
+    const { child, stderr } = await startServer();
+    const exit = exited(child);
+    child.kill("SIGTERM");
+    expect(await exit).toEqual({ code: 0, signal: null });
+    expect(stderr()).toMatch(/"reason":"SIGTERM"/);
+  });
+});
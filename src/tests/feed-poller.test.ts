@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { FeedPoller } from "../lib/feed-poller.js";
+
+/** Fetcher returning the given pages in turn (the last one repeats). */
+function pages(...idLists: string[][]) {
+  let call = 0;
+  return vi.fn(async () => {
+    const ids = idLists[Math.min(call++, idLists.length - 1)];
+    return { tweets: ids.map((id) => ({ id })) };
+  });
+}
+
+/** Let the baseline fetch started by watch() settle. */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+let poller: FeedPoller;
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  poller = new FeedPoller(60_000);
+});
+
+afterEach(() => {
+  poller.close();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("FeedPoller", () => {
+  it("records a baseline without notifying", async () => {
+    const listener = vi.fn();
+    const fetch = pages(["100", "90"]);
+    poller.watch("x://feed", fetch, listener);
+    await settle();
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await poller.pollOnce();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("notifies when a newer tweet appears, once", async () => {
+    const listener = vi.fn();
+    poller.watch("x://feed", pages(["100"], ["110", "100"]), listener);
+    await settle();
+    await poller.pollOnce();
+    await poller.pollOnce();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("x://feed");
+  });
+
+  it("ignores pages that only contain older tweets", async () => {
+    const listener = vi.fn();
+    poller.watch("x://feed", pages(["100"], ["90"], ["100"]), listener);
+    await settle();
+    await poller.pollOnce();
+    await poller.pollOnce();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("treats the first tweets of an empty feed as new", async () => {
+    const listener = vi.fn();
+    poller.watch("x://feed", pages([], ["100"]), listener);
+    await settle();
+    await poller.pollOnce();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps polling after a failed fetch", async () => {
+    const listener = vi.fn();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ tweets: [{ id: "100" }] })
+      .mockRejectedValueOnce(new Error("upstream down"))
+      .mockResolvedValue({ tweets: [{ id: "120" }] });
+    poller.watch("x://feed", fetch, listener);
+    await settle();
+    await poller.pollOnce();
+    expect(listener).not.toHaveBeenCalled();
+    await poller.pollOnce();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches a feed once for all of its listeners", async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const fetch = pages(["100"], ["200"]);
+    poller.watch("x://feed", fetch, first);
+    poller.watch("x://feed", pages(["999"]), second); // unused while the first listener stays
+    await settle();
+    await poller.pollOnce();
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(poller.size).toBe(1);
+  });
+
+  it("hands the feed to the next listener's fetcher when the first one leaves", async () => {
+    const firstFetch = pages(["100"]);
+    const secondFetch = pages(["200"]);
+    const second = vi.fn();
+    const unwatchFirst = poller.watch("x://feed", firstFetch, vi.fn());
+    poller.watch("x://feed", secondFetch, second);
+    await settle();
+    unwatchFirst();
+    await poller.pollOnce();
+    expect(firstFetch).toHaveBeenCalledOnce();
+    expect(secondFetch).toHaveBeenCalledOnce();
+    expect(second).toHaveBeenCalledWith("x://feed");
+  });
+
+  it("stops polling a feed when its last listener leaves", async () => {
+    const fetch = pages(["100"]);
+    const unwatchA = poller.watch("x://feed", fetch, vi.fn());
+    const unwatchB = poller.watch("x://feed", fetch, vi.fn());
+    await settle();
+    unwatchA();
+    expect(poller.size).toBe(1);
+    unwatchB();
+    expect(poller.size).toBe(0);
+    await poller.pollOnce();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("polls on its interval", async () => {
+    vi.useFakeTimers();
+    const fetch = pages(["100"]);
+    poller.watch("x://feed", fetch, vi.fn());
+    await vi.advanceTimersByTimeAsync(60_000);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetch).toHaveBeenCalledTimes(3); // baseline + two ticks
+  });
+});
@@ -0,0 +1,126 @@
+import { existsSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { FixtureStore, normalizePrompt } from "../lib/fixtures.js";
+import { GrokFixtureMissError } from "../lib/errors.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { TweetSchema } from "../schemas/tweet.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+const MOCK_TWEET = {
+  id: "1234567890",
+  url: "https://x.com/testuser/status/1234567890",
+  author: { username: "testuser", display_name: "Test User", verified: false },
+  text: "Hello world",
+  created_at: "2025-01-01T00:00:00Z",
+  metrics: { likes: 10, retweets: 2, replies: 1 },
+  is_retweet: false,
+};
+
+let dir: string;
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  dir = join(tmpdir(), `mcp-fixtures-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("normalizePrompt", () => {
+  it("trims and collapses whitespace", () => {
+    expect(normalizePrompt("  Find\n\n   tweets\tabout  X ")).toBe("Find tweets about X");
+  });
+});
+
+describe("FixtureStore", () => {
+  const key = { kind: "responses" as const, prompt: "Find tweets", schema_name: "tweets", x_search: { from_date: "2025-01-01" } };
+
+  it("records the request / response pair and replays it without calling", async () => {
+    await new FixtureStore(dir, "record").run(key, { model: "m" }, async () => ({ ok: 1 }));
+    const [file] = readdirSync(dir);
+    expect(file).toMatch(/^tweets-[0-9a-f]{16}\.json$/);
+    expect(JSON.parse(readFileSync(join(dir, file), "utf-8"))).toMatchObject({
+      key: { schema_name: "tweets" },
+      request: { model: "m" },
+      response: { ok: 1 },
+    });
+
+    const call = vi.fn();
+    const replayed = await new FixtureStore(dir, "replay").run(key, {}, call);
+    expect(replayed).toEqual({ ok: 1 });
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it("ignores prompt whitespace and x_search key order", () => {
+    const store = new FixtureStore(dir, "replay");
+    const a = store.pathFor({ ...key, x_search: { from_date: "2025-01-01", to_date: "2025-01-02" } });
+    const b = store.pathFor({ ...key, prompt: "  Find\n tweets ", x_search: { to_date: "2025-01-02", from_date: "2025-01-01" } });
+    expect(a).toBe(b);
+  });
+
+  it("keys on schema name and x_search params", () => {
+    const store = new FixtureStore(dir, "replay");
+    expect(store.pathFor(key)).not.toBe(store.pathFor({ ...key, schema_name: "thread" }));
+    expect(store.pathFor(key)).not.toBe(store.pathFor({ ...key, x_search: { from_date: "2025-02-01" } }));
+  });
+
+  it("throws GrokFixtureMissError in replay mode when nothing was recorded", async () => {
+    await expect(new FixtureStore(dir, "replay").run(key, {}, vi.fn())).rejects.toThrow(GrokFixtureMissError);
+  });
+
+  it("does not record failed calls", async () => {
+    const store = new FixtureStore(dir, "record");
+    await expect(store.run(key, {}, () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(existsSync(dir)).toBe(false);
+  });
+});
+
+describe("GrokClient — fixtures", () => {
+  function clientWith(mode: "record" | "replay") {
+    const client = new GrokClient(API_KEY, { fixtures: new FixtureStore(dir, mode) });
+    const responsesCreate = vi.fn().mockResolvedValue({
+      output_text: JSON.stringify(MOCK_TWEET),
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+    const chatCreate = vi.fn().mockResolvedValue({ choices: [{ message: { content: "A sunset" } }] });
+    (client as unknown as { openai: unknown }).openai = {
+      responses: { create: responsesCreate },
+      chat: { completions: { create: chatCreate } },
+    };
+    return { client, responsesCreate, chatCreate };
+  }
+
+  it("replays a recorded query offline, including usage", async () => {
+    const recorder = clientWith("record");
+    await recorder.client.query("Get tweet 1234567890", TweetSchema, "tweet", { from_date: "2025-01-01" });
+    expect(recorder.responsesCreate).toHaveBeenCalledOnce();
+
+    const replayer = clientWith("replay");
+    const tweet = await replayer.client.query("Get tweet 1234567890", TweetSchema, "tweet", { from_date: "2025-01-01" });
+    expect(tweet.id).toBe("1234567890");
+    expect(replayer.responsesCreate).not.toHaveBeenCalled();
+    expect(replayer.client.usage.snapshot().totals.input_tokens).toBe(10);
+  });
+
+  it("surfaces a replay miss for a changed prompt", async () => {
+    await clientWith("record").client.query("Get tweet 1234567890", TweetSchema, "tweet");
+    await expect(
+      clientWith("replay").client.query("Fetch tweet 1234567890", TweetSchema, "tweet")
+    ).rejects.toThrow(/No recorded Grok fixture for tweet/);
+  });
+
+  it("replays vision calls and rethrows their misses", async () => {
+    const url = "https://pbs.twimg.com/media/a.jpg";
+    await clientWith("record").client.analyzeMedia(url, "image");
+
+    const replayer = clientWith("replay");
+    expect(await replayer.client.analyzeMedia(url, "image")).toBe("A sunset");
+    expect(replayer.chatCreate).not.toHaveBeenCalled();
+    await expect(replayer.client.analyzeMedia(url, "video")).rejects.toThrow(GrokFixtureMissError);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Mock Grok server — a local OpenAI-compatible stand-in for tests.
+ *
+ * Implements the two endpoints GrokClient uses:
+ *   POST /v1/responses         — x_search queries with a json_schema text format
+ *   POST /v1/chat/completions  — vision calls made by analyzeMedia
+ *
+ * Responses are synthetic but valid against the JSON schema sent with the
+ * request (see `syntheticFromSchema`), so every tool can run end to end.
+ * Tweet IDs and @handles found in the prompt are echoed back where the
+ * schema asks for them, which keeps id-match checks (get_tweet) passing.
+ *
+ * Fault injection:
+ *   `inject()` queues faults that are applied, in order, to the next
+ *   requests — one fault per request, `times` requests per entry:
+ *     server_error — HTTP 5xx (default 500)
+ *     rate_limit   — HTTP 429 with a `retry-after` header
+ *     unauthorized — HTTP 401
+ *     truncated    — HTTP 200 whose output text is cut mid-JSON
+ *     slow         — normal response after `delayMs`
+ *   Remember that the OpenAI SDK retries 429 / 5xx itself (`max_retries`),
+ *   and each retry consumes one queued fault.
+ *
+ * Usage:
+ *   const mock = await startMockGrokServer();
+ *   new GrokClient(key, { config: mergeGrokConfig(DEFAULT_GROK_CONFIG, { base_url: mock.baseURL }) });
+ *   mock.inject({ kind: "server_error", times: 5 });
+ *   await mock.close();
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type MockFault =
+  | { kind: "server_error"; status?: number; times?: number }
+  | { kind: "rate_limit"; retryAfterSec?: number; times?: number }
+  | { kind: "unauthorized"; times?: number }
+  | { kind: "truncated"; times?: number }
+  | { kind: "slow"; delayMs: number; times?: number };
+
+/** A request received by the mock, as parsed JSON. */
+export interface MockGrokRequest {
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export interface MockGrokServerOptions {
+  /** Port to listen on (default 0 — a free port). */
+  port?: number;
+  /** Items generated for every array in a schema (default 3). */
+  itemsPerArray?: number;
+}
+
+export interface MockGrokServer {
+  /** Base URL to configure as `base_url` (ends in /v1). */
+  baseURL: string;
+  /** Every request received, in order. */
+  requests: MockGrokRequest[];
+  /** Queue faults for the next requests. */
+  inject(...faults: MockFault[]): void;
+  /** Forget recorded requests and pending faults. */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+// ─── Synthetic data ───────────────────────────────────────────────────────────
+
+type JsonSchema = Record<string, unknown>;
+
+interface SyntheticContext {
+  /** First tweet ID in the prompt — used for the root `id`. */
+  tweetId?: string;
+  /** First @handle in the prompt — used for usernames. */
+  username: string;
+  itemsPerArray: number;
+  seq: number;
+}
+
+const ID_FIELDS = new Set(["id", "tweet_id", "root_tweet_id"]);
+const USERNAME_FIELDS = new Set(["username", "author", "thread_author"]);
+const DATE_FIELDS = new Set(["created_at", "shared_at"]);
+const MEDIA_URL_FIELDS = new Set(["thumbnail_url", "profile_image_url", "banner_url"]);
+
+function syntheticString(name: string, ctx: SyntheticContext, depth: number): string {
+  const n = ++ctx.seq;
+  if (ID_FIELDS.has(name)) {
+    return depth === 1 && name === "id" && ctx.tweetId ? ctx.tweetId : String(1_800_000_000_000_000_000n + BigInt(n));
+  }
+  if (USERNAME_FIELDS.has(name)) return ctx.username;
+  if (DATE_FIELDS.has(name)) return new Date(Date.UTC(2025, 0, 1, 0, n)).toISOString();
+  if (MEDIA_URL_FIELDS.has(name)) return `https://pbs.twimg.com/media/mock${n}.jpg`;
+  if (name === "url" || name.endsWith("_url")) return `https://x.com/${ctx.username}/status/${ctx.tweetId ?? n}`;
+  if (name === "domain") return "example.com";
+  if (name === "language") return "en";
+  if (name === "display_name") return "Mock User";
+  return `Mock ${name.replace(/_/g, " ")} ${n}`;
+}
+
+function syntheticNumber(schema: JsonSchema, ctx: SyntheticContext): number {
+  const min = typeof schema.minimum === "number" ? schema.minimum : 0;
+  const max = typeof schema.maximum === "number" ? schema.maximum : 1_000_000;
+  const value = Math.min(Math.max(++ctx.seq * 10, min), max);
+  return schema.type === "integer" ? Math.floor(value) : value;
+}
+
+function generate(schema: JsonSchema, name: string, ctx: SyntheticContext, depth: number): unknown {
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if ("const" in schema) return schema.const;
+
+  const branches = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (branches) {
+    const branch = branches.find((b) => b.type !== "null") ?? branches[0];
+    return generate(branch, name, ctx, depth);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? (schema.type as string[]).find((t) => t !== "null")
+    : (schema.type as string | undefined);
+
+  switch (type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, sub]) => [key, generate(sub, key, ctx, depth + 1)])
+      );
+    }
+    case "array": {
+      const min = typeof schema.minItems === "number" ? schema.minItems : 0;
+      const max = typeof schema.maxItems === "number" ? schema.maxItems : Infinity;
+      const count = Math.min(Math.max(ctx.itemsPerArray, min), max);
+      const items = (schema.items ?? {}) as JsonSchema;
+      // Array items are not the root object — they never take the prompt's tweet ID.
+      return Array.from({ length: count }, () => generate(items, name, ctx, depth + 1));
+    }
+    case "string":
+      return syntheticString(name, ctx, depth);
+    case "number":
+    case "integer":
+      return syntheticNumber(schema, ctx);
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      // `{}` (unrepresentable transforms) — a string satisfies most of them.
+      return syntheticString(name, ctx, depth);
+  }
+}
+
+/**
+ * Generate a value valid against `schema`, echoing the first tweet ID and
+ * @handle from `prompt` where the schema asks for an id / username.
+ */
+export function syntheticFromSchema(schema: JsonSchema, prompt = "", itemsPerArray = 3): unknown {
+  const ctx: SyntheticContext = {
+    tweetId: prompt.match(/\b\d{6,25}\b/)?.[0],
+    username: prompt.match(/@(\w{1,15})/)?.[1] ?? "mock_user",
+    itemsPerArray,
+    seq: 0,
+  };
+  return generate(schema, "", ctx, 0);
+}
+
+// ─── Response builders ────────────────────────────────────────────────────────
+
+function responsesPayload(body: Record<string, unknown>, itemsPerArray: number, truncate: boolean) {
+  const input = body.input as { content?: string }[] | undefined;
+  const prompt = input?.map((m) => m.content ?? "").join("\n") ?? "";
+  const format = (body.text as { format?: { schema?: JsonSchema } } | undefined)?.format;
+  let text = JSON.stringify(syntheticFromSchema(format?.schema ?? {}, prompt, itemsPerArray));
+  if (truncate) text = text.slice(0, Math.floor(text.length / 2));
+  return {
+    id: `resp_mock_${Date.now()}`,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    model: body.model,
+    status: truncate ? "incomplete" : "completed",
+    output: [
+      {
+        type: "message",
+        id: "msg_mock",
+        role: "assistant",
+        status: "completed",
+        content: [{ type: "output_text", text, annotations: [] }],
+      },
+    ],
+    usage: {
+      input_tokens: 100,
+      output_tokens: Math.ceil(text.length / 4),
+      total_tokens: 100 + Math.ceil(text.length / 4),
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens_details: { reasoning_tokens: 0 },
+      num_sources_used: 5,
+    },
+  };
+}
+
+function chatPayload(body: Record<string, unknown>) {
+  return {
+    id: `chatcmpl_mock_${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: body.model,
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content: "Mock media description." },
+        finish_reason: "stop",
+      },
+    ],
+    usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+// ─── Server ───────────────────────────────────────────────────────────────────
+
+/** Start the mock on 127.0.0.1. */
+export async function startMockGrokServer(options: MockGrokServerOptions = {}): Promise<MockGrokServer> {
+  const itemsPerArray = options.itemsPerArray ?? 3;
+  const requests: MockGrokRequest[] = [];
+  const faults: MockFault[] = [];
+
+  /** Take the fault for this request, if any, consuming one of its `times`. */
+  const nextFault = (): MockFault | undefined => {
+    const fault = faults[0];
+    if (!fault) return undefined;
+    const remaining = (fault.times ?? 1) - 1;
+    if (remaining > 0) faults[0] = { ...fault, times: remaining };
+    else faults.shift();
+    return fault;
+  };
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url ?? "").split("?")[0];
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse((await readBody(req)) || "{}") as Record<string, unknown>;
+    } catch {
+      sendJson(res, 400, { error: { message: "Invalid JSON body", type: "invalid_request_error" } });
+      return;
+    }
+    if (req.method !== "POST" || (path !== "/v1/responses" && path !== "/v1/chat/completions")) {
+      sendJson(res, 404, { error: { message: `No route for ${req.method} ${path}`, type: "invalid_request_error" } });
+      return;
+    }
+    requests.push({ path, body });
+
+    const fault = nextFault();
+    switch (fault?.kind) {
+      case "server_error":
+        sendJson(res, fault.status ?? 500, { error: { message: "Mock upstream failure", type: "server_error" } });
+        return;
+      case "rate_limit":
+        sendJson(
+          res,
+          429,
+          { error: { message: "Mock rate limit", type: "rate_limit_error" } },
+          { "retry-after": String(fault.retryAfterSec ?? 1) }
+        );
+        return;
+      case "unauthorized":
+        sendJson(res, 401, { error: { message: "Incorrect API key provided", type: "invalid_request_error" } });
+        return;
+      case "slow":
+        await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+        if (res.destroyed) return; // client gave up (timeout)
+        break;
+    }
+
+    if (path === "/v1/responses") {
+      sendJson(res, 200, responsesPayload(body, itemsPerArray, fault?.kind === "truncated"));
+    } else {
+      sendJson(res, 200, chatPayload(body));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    requests,
+    inject: (...queued) => {
+      faults.push(...queued);
+    },
+    reset: () => {
+      requests.length = 0;
+      faults.length = 0;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import { collectionKey, salvageCollection } from "../lib/json-salvage.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { DEFAULT_GROK_CONFIG, mergeGrokConfig, type GrokConfigInput } from "../lib/config.js";
+import { startMockGrokServer, type MockGrokServer } from "./helpers/mock-grok-server.js";
+import { TweetArraySchema, ThreadSchema, TweetSchema } from "../schemas/tweet.js";
+import { LinkExtractSchema } from "../schemas/link-extract.js";
+import { SentimentAnalysisSchema } from "../schemas/sentiment.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+function jsonSchema(schema: z.ZodType): Record<string, unknown> {
+  return z.toJSONSchema(schema, { target: "draft-7", unrepresentable: "any" }) as Record<string, unknown>;
+}
+
+describe("collectionKey", () => {
+  it("finds the item array of collection schemas", () => {
+    expect(collectionKey(jsonSchema(TweetArraySchema))).toBe("tweets");
+    expect(collectionKey(jsonSchema(ThreadSchema))).toBe("tweets");
+    expect(collectionKey(jsonSchema(LinkExtractSchema))).toBe("links");
+  });
+
+  it("rejects single objects and schemas with several arrays", () => {
+    expect(collectionKey(jsonSchema(TweetSchema))).toBeUndefined();
+    expect(collectionKey(jsonSchema(SentimentAnalysisSchema))).toBeUndefined();
+  });
+});
+
+describe("salvageCollection", () => {
+  it("keeps complete items and drops the cut one", () => {
+    const text = '{"tweets":[{"id":"1","text":"a"},{"id":"2","text":"b"},{"id":"3","te';
+    expect(salvageCollection(text, "tweets")).toEqual({
+      value: { tweets: [{ id: "1", text: "a" }, { id: "2", text: "b" }] },
+      items: 2,
+    });
+  });
+
+  it("keeps root fields emitted before the array", () => {
+    const text = '{"username":"jack","total_links":4,"links":[{"url":"https://a.example"},{"url":"https://b.ex';
+    expect(salvageCollection(text, "links")?.value).toEqual({
+      username: "jack",
+      total_links: 4,
+      links: [{ url: "https://a.example" }],
+    });
+  });
+
+  it("ignores brackets and escaped quotes inside strings", () => {
+    const text = '{"tweets":[{"id":"1","text":"a } ] \\" {"},{"id":"2","text":"[cut';
+    expect(salvageCollection(text, "tweets")?.value).toEqual({ tweets: [{ id: "1", text: 'a } ] " {' }] });
+  });
+
+  it("keeps nested arrays inside items intact", () => {
+    const text = '{"tweets":[{"id":"1","media":[{"type":"photo"}]},{"id":"2","media":[{"ty';
+    expect(salvageCollection(text, "tweets")?.items).toBe(1);
+  });
+
+  it("returns undefined when no item is complete", () => {
+    expect(salvageCollection('{"tweets":[{"id":"1","te', "tweets")).toBeUndefined();
+    expect(salvageCollection('{"tweets":[', "tweets")).toBeUndefined();
+    expect(salvageCollection("not json", "tweets")).toBeUndefined();
+  });
+});
+
+describe("GrokClient truncation recovery", () => {
+  let mock: MockGrokServer;
+
+  beforeAll(async () => {
+    mock = await startMockGrokServer({ itemsPerArray: 4 });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    mock.reset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockClient(override: GrokConfigInput = {}) {
+    return new GrokClient(API_KEY, {
+      config: mergeGrokConfig(DEFAULT_GROK_CONFIG, { base_url: mock.baseURL, max_retries: 0, ...override }),
+    });
+  }
+
+  function promptOf(index: number): string {
+    return (mock.requests[index].body.input as { content: string }[])[0].content;
+  }
+
+  it("returns salvaged items flagged as truncated without a second call", async () => {
+    mock.inject({ kind: "truncated" });
+    const result = await mockClient().query("p", TweetArraySchema, "tweet_array");
+    expect(result.tweets.length).toBeGreaterThan(0);
+    expect(result.tweets.length).toBeLessThan(4);
+    expect(result).toMatchObject({ truncated: true });
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it("fetches the remaining items with a continuation call when enabled", async () => {
+    mock.inject({ kind: "truncated" });
+    const client = mockClient({ defaults: { continue_on_truncation: true } });
+    const result = await client.query("p", TweetArraySchema, "tweet_array");
+
+    expect(mock.requests).toHaveLength(2);
+    expect(promptOf(1)).toContain("CONTINUATION");
+    // The mock repeats the same IDs, so the already-received items are de-duplicated.
+    const ids = result.tweets.map((t) => t.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toHaveLength(4);
+    expect(result).not.toHaveProperty("truncated");
+  });
+
+  it("keeps the salvaged items when the continuation fails", async () => {
+    mock.inject({ kind: "truncated" }, { kind: "server_error" });
+    const client = mockClient({ defaults: { continue_on_truncation: true } });
+    const result = await client.query("p", TweetArraySchema, "tweet_array");
+    expect(result.tweets.length).toBeGreaterThan(0);
+    expect(result).toMatchObject({ truncated: true });
+  });
+
+  it("retries non-collection schemas once with a reduced request", async () => {
+    mock.inject({ kind: "truncated" });
+    const result = await mockClient().query("tweet 1234567890", TweetSchema, "tweet");
+    expect(result.id).toBe("1234567890");
+    expect(mock.requests).toHaveLength(2);
+    expect(promptOf(1)).toContain("exceeded the output size limit");
+  });
+
+  it("gives up after the reduced retry is truncated too", async () => {
+    mock.inject({ kind: "truncated", times: 2 });
+    await expect(mockClient().query("p", SentimentAnalysisSchema, "sentiment_analysis")).rejects.toThrow(
+      /likely truncated/
+    );
+    expect(mock.requests).toHaveLength(2);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
 import { log } from "../lib/logger.js";
+import { runWithRequestContext } from "../lib/request-context.js";
 
 describe("log()", () => {
   afterEach(() => {
@@ -44,4 +45,18 @@ describe("log()", () => {
     const written = spy.mock.calls[0][0] as string;
     expect(written.endsWith("\n")).toBe(true);
   });
+
+  it("adds the client identity from the request context", () => {
+    const spy = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    runWithRequestContext({ clientId: "alice" }, () => log("info", "in context"));
+    const entry = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(entry.client).toBe("alice");
+  });
+
+  it("omits client outside a request context", () => {
+    const spy = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    runWithRequestContext({}, () => log("info", "anonymous"));
+    const entry = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(entry).not.toHaveProperty("client");
+  });
 });
@@ -1,16 +1,23 @@
 /**
  * MCP integration tests — spawn the real server via stdio and call tools.
- * Requires XAI_API_KEY in env. Skipped automatically if key is absent.
+ * Requires XAI_API_KEY in env, or fixture replay. Skipped otherwise. No
+ * fixtures are committed: `npm run test:record` saves them locally with a real
+ * key, after which `npm run test:replay` reruns the suite from them.
  */
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { existsSync, readdirSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const SERVER_PATH = join(__dirname, "../../dist/index.js");
 const HAS_API_KEY = Boolean(process.env.XAI_API_KEY);
+// Replay serves recorded API responses — no key or network needed. A missing
+// fixture directory or recording fails the suite instead of skipping it.
+const REPLAY = process.env.GROK_FIXTURES_MODE === "replay";
+const FIXTURES_DIR = process.env.GROK_FIXTURES_DIR ?? "src/tests/fixtures/grok";
 
 // ─── Well-known stable tweets ─────────────────────────────────────────────────
 //
@@ -74,47 +81,56 @@ function assertTweetOrDeleted(
 
 // ─── Test suite ───────────────────────────────────────────────────────────────
 
-describe.skipIf(!HAS_API_KEY)(
-  "MCP server integration (requires XAI_API_KEY)",
+describe.skipIf(!HAS_API_KEY && !REPLAY)(
+  "MCP server integration (requires XAI_API_KEY or fixture replay)",
   () => {
     let client: Client;
     let transport: StdioClientTransport;
 
     beforeAll(async () => {
+      if (REPLAY && !(existsSync(FIXTURES_DIR) && readdirSync(FIXTURES_DIR).some((f) => f.endsWith(".json")))) {
+        throw new Error(`No recorded Grok fixtures in ${FIXTURES_DIR} — run npm run test:record.`);
+      }
       transport = new StdioClientTransport({
         command: "node",
         args: [SERVER_PATH],
-        env: { ...process.env, XAI_API_KEY: process.env.XAI_API_KEY! },
+        // Inherits GROK_FIXTURES_MODE / GROK_FIXTURES_DIR when set.
+        env: { ...process.env } as Record<string, string>,
       });
       client = new Client({ name: "test-client", version: "1.0.0" });
       await client.connect(transport);
     });
 
     afterAll(async () => {
-      await client.close();
+      await client?.close();
     });
 
     // ── Tool discovery ────────────────────────────────────────────────────────
-    it("exposes exactly 12 tools", async () => {
+    it("exposes exactly 17 tools", async () => {
       const { tools } = await client.listTools();
       const names = tools.map((t) => t.name);
       expect(names).toEqual(
         expect.arrayContaining([
           "get_tweet",
+          "get_tweets",
           "get_tweet_replies",
+          "get_quote_tweets",
           "get_user_tweets",
           "get_user_profile",
+          "get_user_profiles",
           "search_tweets",
           "get_thread",
+          "get_conversation_tree",
           "get_trending",
           "analyze_sentiment",
           "analyze_thread",
           "extract_links",
           "get_user_mentions",
           "get_list_tweets",
+          "get_usage_stats",
         ])
       );
-      expect(tools).toHaveLength(12);
+      expect(tools).toHaveLength(17);
     });
 
     // ── Error cases ───────────────────────────────────────────────────────────
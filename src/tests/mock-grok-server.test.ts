@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { startMockGrokServer, syntheticFromSchema, type MockGrokServer } from "./helpers/mock-grok-server.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { DEFAULT_GROK_CONFIG, mergeGrokConfig } from "../lib/config.js";
+import {
+  GrokAuthError,
+  GrokCircuitOpenError,
+  GrokRateLimitError,
+} from "../lib/errors.js";
+import { getTweet } from "../tools/get-tweet.js";
+import { searchTweets } from "../tools/search-tweets.js";
+import { z } from "zod";
+import { TweetSchema, TweetArraySchema, ThreadSchema } from "../schemas/tweet.js";
+import { UserProfileSchema } from "../schemas/user.js";
+import { TrendingTopicsSchema } from "../schemas/trending.js";
+import { SentimentAnalysisSchema } from "../schemas/sentiment.js";
+import { ThreadAnalysisSchema } from "../schemas/thread-analysis.js";
+import { LinkExtractSchema } from "../schemas/link-extract.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+let mock: MockGrokServer;
+
+beforeAll(async () => {
+  mock = await startMockGrokServer();
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  mock.reset();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/** Client pointed at the mock. SDK retries are off unless asked for. */
+function mockClient(maxRetries = 0, timeoutMs = 5_000) {
+  return new GrokClient(API_KEY, {
+    config: mergeGrokConfig(DEFAULT_GROK_CONFIG, {
+      base_url: mock.baseURL,
+      max_retries: maxRetries,
+      defaults: { timeout_ms: timeoutMs },
+    }),
+  });
+}
+
+describe("syntheticFromSchema", () => {
+  const schemas = {
+    TweetSchema,
+    TweetArraySchema,
+    ThreadSchema,
+    UserProfileSchema,
+    TrendingTopicsSchema,
+    SentimentAnalysisSchema,
+    ThreadAnalysisSchema,
+    LinkExtractSchema,
+  };
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    it(`generates data valid against ${name}`, () => {
+      const json = z.toJSONSchema(schema, { target: "draft-7", unrepresentable: "any" });
+      expect(() => schema.parse(syntheticFromSchema(json))).not.toThrow();
+    });
+  }
+
+  it("echoes the prompt's tweet ID and handle", () => {
+    const json = z.toJSONSchema(TweetSchema, { target: "draft-7", unrepresentable: "any" });
+    const tweet = TweetSchema.parse(syntheticFromSchema(json, "Get tweet 1585841080431321088 by @jack"));
+    expect(tweet.id).toBe("1585841080431321088");
+    expect(tweet.author.username).toBe("jack");
+  });
+});
+
+describe("mock Grok server — happy path", () => {
+  it("serves get_tweet end to end with the requested ID", async () => {
+    const tweet = await getTweet(mockClient(), { tweet_id_or_url: "1585841080431321088" });
+    expect(tweet.id).toBe("1585841080431321088");
+  });
+
+  it("receives the full JSON schema and x_search tool", async () => {
+    await searchTweets(mockClient(), { query: "AI", from_date: "2025-01-01" });
+    const body = mock.requests[0].body as {
+      tools: Record<string, unknown>[];
+      text: { format: { schema: { properties?: Record<string, unknown> } } };
+    };
+    expect(mock.requests[0].path).toBe("/v1/responses");
+    expect(body.tools[0]).toMatchObject({ type: "x_search", from_date: "2025-01-01" });
+    expect(body.text.format.schema.properties).toHaveProperty("tweets");
+  });
+
+  it("serves vision calls on /v1/chat/completions", async () => {
+    const summary = await mockClient().analyzeMedia("https://pbs.twimg.com/media/a.jpg", "image");
+    expect(summary).toBe("Mock media description.");
+    expect(mock.requests[0].path).toBe("/v1/chat/completions");
+  });
+});
+
+describe("mock Grok server — fault injection", () => {
+  it("401 surfaces as GrokAuthError", async () => {
+    mock.inject({ kind: "unauthorized" });
+    await expect(mockClient().query("p", TweetSchema, "tweet")).rejects.toThrow(GrokAuthError);
+  });
+
+  it("429 surfaces as GrokRateLimitError carrying retry-after", async () => {
+    mock.inject({ kind: "rate_limit", retryAfterSec: 7 });
+    const err = await mockClient().query("p", TweetSchema, "tweet").catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(GrokRateLimitError);
+    expect((err as GrokRateLimitError).retryAfterMs).toBe(7_000);
+  });
+
+  it("the SDK retries a single 5xx transparently", async () => {
+    mock.inject({ kind: "server_error", status: 503 });
+    const result = await mockClient(1).query("tweet 1234567890", TweetSchema, "tweet");
+    expect(result.id).toBe("1234567890");
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it("a 5xx burst opens the circuit breaker", async () => {
+    const client = mockClient();
+    mock.inject({ kind: "server_error", times: 5 });
+    for (let i = 0; i < 5; i++) {
+      await expect(client.query("p", TweetSchema, "tweet")).rejects.toThrow();
+    }
+    await expect(client.query("p", TweetSchema, "tweet")).rejects.toThrow(GrokCircuitOpenError);
+    expect(mock.requests).toHaveLength(5);
+  });
+
+  it("truncated collections keep their complete items", async () => {
+    mock.inject({ kind: "truncated" });
+    const result = await mockClient().query("p", TweetArraySchema, "tweet_array");
+    expect(result.tweets.length).toBeGreaterThan(0);
+    expect(result).toMatchObject({ truncated: true });
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it("truncated JSON that cannot be recovered is reported as malformed", async () => {
+    mock.inject({ kind: "truncated", times: 2 });
+    await expect(mockClient().query("p", TweetSchema, "tweet")).rejects.toThrow(/likely truncated/);
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it("slow responses hit the configured timeout", async () => {
+    mock.inject({ kind: "slow", delayMs: 500 });
+    await expect(mockClient(0, 100).query("p", TweetSchema, "tweet")).rejects.toThrow(/timed out/i);
+  });
+
+  it("faults are consumed in order, then responses return to normal", async () => {
+    const client = mockClient();
+    mock.inject({ kind: "unauthorized" }, { kind: "rate_limit" });
+    await expect(client.query("p", TweetSchema, "tweet")).rejects.toThrow(GrokAuthError);
+    await expect(client.query("p", TweetSchema, "tweet")).rejects.toThrow(GrokRateLimitError);
+    await expect(client.query("tweet 1234567890", TweetSchema, "tweet")).resolves.toMatchObject({ id: "1234567890" });
+  });
+});
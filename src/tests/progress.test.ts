@@ -0,0 +1,204 @@
+/**
+ * Progress notifications and cancellation — tool calls over an in-memory
+ * MCP connection, with the OpenAI client stubbed to observe AbortSignals.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import OpenAI from "openai";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "../server.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { GrokCancelledError } from "../lib/errors.js";
+import { runWithRequestContext } from "../lib/request-context.js";
+import { TweetArraySchema } from "../schemas/tweet.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+type CallOptions = { signal?: AbortSignal };
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function tweet(id: string, mediaCount = 0) {
+  return {
+    id,
+    url: `https://x.com/jack/status/${id}`,
+    author: { username: "jack", display_name: "jack", verified: false },
+    text: "hello",
+    created_at: "2025-01-01T00:00:00Z",
+    metrics: { likes: 0, retweets: 0, replies: 0 },
+    media: Array.from({ length: mediaCount }, (_, i) => ({
+      type: "image",
+      url: `https://pbs.twimg.com/media/${id}-${i}.jpg`,
+    })),
+    is_retweet: false,
+  };
+}
+
+const SENTIMENT = {
+  query: "AI",
+  total_tweets_analyzed: 30,
+  overall_sentiment: "positive",
+  sentiment_score: 0.4,
+  sentiment_breakdown: { positive_pct: 60, negative_pct: 20, neutral_pct: 20 },
+  dominant_topics: ["agents"],
+  dominant_emotions: ["excitement"],
+  summary: "Upbeat.",
+  notable_tweets: [],
+};
+
+/** Never settles until its AbortSignal fires, then rejects like the SDK does. */
+function hang(_request: unknown, options?: CallOptions) {
+  return new Promise((_resolve, reject) => {
+    options?.signal?.addEventListener("abort", () => reject(new OpenAI.APIUserAbortError()));
+  });
+}
+
+async function connect(responses: { create: unknown }, chat?: { create: unknown }) {
+  const grok = new GrokClient(API_KEY);
+  (grok as unknown as { openai: unknown }).openai = {
+    responses,
+    chat: { completions: chat ?? { create: vi.fn() } },
+  };
+  const server = createServer(grok);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return { client, grok };
+}
+
+function logged(message: string): boolean {
+  return vi.mocked(process.stderr.write).mock.calls.some(([line]) => String(line).includes(`"${message}"`));
+}
+
+describe("progress notifications", () => {
+  it("reports the x_search stages of analyze_sentiment", async () => {
+    const create = vi.fn(async () => ({ output_text: JSON.stringify(SENTIMENT) }));
+    const { client } = await connect({ create });
+    const updates: Progress[] = [];
+    const result = await client.callTool(
+      { name: "analyze_sentiment", arguments: { query: "AI" } },
+      undefined,
+      { onprogress: (progress) => updates.push(progress) }
+    );
+    expect(result.isError).toBeFalsy();
+    expect(updates).toEqual([
+      expect.objectContaining({ progress: 1, message: "x_search call started" }),
+      expect.objectContaining({ progress: 2, message: "Grok response received" }),
+    ]);
+    await client.close();
+  });
+
+  it("reports each media item of an enriched search", async () => {
+    const create = vi.fn(async () => ({
+      output_text: JSON.stringify({ tweets: [tweet("2", 2), tweet("1", 1)] }),
+    }));
+    const vision = vi.fn(async () => ({ choices: [{ message: { content: "A photo." } }] }));
+    const { client } = await connect({ create }, { create: vision });
+    const messages: string[] = [];
+    const result = await client.callTool(
+      { name: "search_tweets", arguments: { query: "AI", enrich_media: true } },
+      undefined,
+      { onprogress: (progress) => messages.push(progress.message ?? "") }
+    );
+    expect(result.isError).toBeFalsy();
+    expect(vision).toHaveBeenCalledTimes(3);
+    expect(messages).toEqual([
+      "x_search call started",
+      "Grok response received",
+      "Media enrichment: item 1 of 3",
+      "Media enrichment: item 2 of 3",
+      "Media enrichment: item 3 of 3",
+    ]);
+    await client.close();
+  });
+
+  it("sends nothing when the client did not ask for progress", async () => {
+    const create = vi.fn(async () => ({ output_text: JSON.stringify(SENTIMENT) }));
+    const { client } = await connect({ create });
+    const notifications = vi.fn();
+    client.fallbackNotificationHandler = notifications;
+    await client.callTool({ name: "analyze_sentiment", arguments: { query: "AI" } });
+    expect(notifications).not.toHaveBeenCalled();
+    await client.close();
+  });
+});
+
+describe("cancellation", () => {
+  it("aborts the pending x_search call when the client cancels", async () => {
+    const create = vi.fn(hang);
+    const { client } = await connect({ create });
+    const controller = new AbortController();
+    const call = client.callTool({ name: "extract_links", arguments: { username: "jack" } }, undefined, {
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(create).toHaveBeenCalled());
+    controller.abort("user cancelled");
+    await expect(call).rejects.toThrow(/user cancelled/);
+
+    const signal = (create.mock.calls[0][1] as CallOptions).signal;
+    expect(signal?.aborted).toBe(true);
+    await vi.waitFor(() => expect(logged("Tool call cancelled")).toBe(true));
+    await client.close();
+  });
+
+  it("aborts in-flight media analysis", async () => {
+    const create = vi.fn(async () => ({ output_text: JSON.stringify({ tweets: [tweet("1", 2)] }) }));
+    const vision = vi.fn(hang);
+    const { client } = await connect({ create }, { create: vision });
+    const controller = new AbortController();
+    const call = client.callTool(
+      { name: "search_tweets", arguments: { query: "AI", enrich_media: true } },
+      undefined,
+      { signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(vision).toHaveBeenCalledTimes(2));
+    controller.abort();
+    await expect(call).rejects.toThrow();
+
+    for (const [, options] of vision.mock.calls) {
+      expect((options as CallOptions).signal?.aborted).toBe(true);
+    }
+    await vi.waitFor(() => expect(logged("Tool call cancelled")).toBe(true));
+    await client.close();
+  });
+
+  it("makes no call once the request is cancelled", async () => {
+    const grok = new GrokClient(API_KEY);
+    const create = vi.fn();
+    const vision = vi.fn();
+    (grok as unknown as { openai: unknown }).openai = {
+      responses: { create },
+      chat: { completions: { create: vision } },
+    };
+    const controller = new AbortController();
+    controller.abort();
+    await runWithRequestContext({ signal: controller.signal }, async () => {
+      await expect(grok.query("p", TweetArraySchema, "tweet_array")).rejects.toThrow(GrokCancelledError);
+      await expect(grok.analyzeMedia("https://pbs.twimg.com/media/a.jpg", "image")).rejects.toThrow(
+        GrokCancelledError
+      );
+    });
+    expect(create).not.toHaveBeenCalled();
+    expect(vision).not.toHaveBeenCalled();
+  });
+
+  it("does not count cancellations against the circuit breaker", async () => {
+    const grok = new GrokClient(API_KEY);
+    const create = vi.fn(async () => {
+      throw new OpenAI.APIUserAbortError();
+    });
+    (grok as unknown as { openai: unknown }).openai = { responses: { create } };
+    for (let i = 0; i < 6; i++) {
+      await expect(grok.query("p", TweetArraySchema, "tweet_array")).rejects.toThrow(GrokCancelledError);
+    }
+    expect(create).toHaveBeenCalledTimes(6);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * MCP prompts — workflow templates expanded through a connected client.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "../server.js";
+import { GrokClient } from "../lib/grok-client.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-03-14T15:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+async function connect() {
+  const grok = new GrokClient(API_KEY);
+  const create = vi.fn();
+  (grok as unknown as { openai: unknown }).openai = { responses: { create } };
+  const server = createServer(grok);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return { client, create };
+}
+
+/** All message texts of an expanded prompt, joined. */
+async function expand(client: Client, name: string, args: Record<string, string>) {
+  const result = await client.getPrompt({ name, arguments: args });
+  for (const message of result.messages) {
+    expect(message).toMatchObject({ role: "user", content: { type: "text" } });
+  }
+  return {
+    description: result.description,
+    text: result.messages.map((m) => (m.content as { text: string }).text).join("\n\n"),
+  };
+}
+
+describe("MCP prompts", () => {
+  it("lists the workflow prompts with their arguments", async () => {
+    const { client } = await connect();
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((p) => p.name).sort()).toEqual([
+      "compare_sentiment",
+      "daily_brief",
+      "investigate_thread",
+      "weekly_link_digest",
+    ]);
+    const brief = prompts.find((p) => p.name === "daily_brief");
+    expect(brief?.arguments).toEqual([
+      expect.objectContaining({ name: "username", required: true }),
+      expect.objectContaining({ name: "date", required: false }),
+    ]);
+    await client.close();
+  });
+
+  it("daily_brief names the tools with today's window", async () => {
+    const { client, create } = await connect();
+    const { description, text } = await expand(client, "daily_brief", { username: "@jack" });
+    expect(description).toBe("Daily brief on @jack for 2025-03-14");
+    expect(text).toContain('get_user_tweets({"username":"jack","max_results":20,"from_date":"2025-03-14","to_date":"2025-03-14"})');
+    expect(text).toContain("get_user_mentions(");
+    expect(text).toContain('analyze_sentiment({"query":"@jack"');
+    expect(text).toContain("get_thread(");
+    // Expanding a prompt never calls Grok.
+    expect(create).not.toHaveBeenCalled();
+    await client.close();
+  });
+
+  it("compare_sentiment runs both queries over the same window", async () => {
+    const { client } = await connect();
+    const { text } = await expand(client, "compare_sentiment", { query_a: "AI agents", query_b: "LLM", to_date: "2025-02-10" });
+    const window = '"max_tweets":50,"from_date":"2025-02-04","to_date":"2025-02-10"';
+    expect(text).toContain(`analyze_sentiment({"query":"AI agents",${window}})`);
+    expect(text).toContain(`analyze_sentiment({"query":"LLM",${window}})`);
+    await client.close();
+  });
+
+  it("investigate_thread accepts a tweet URL", async () => {
+    const { client } = await connect();
+    const { text } = await expand(client, "investigate_thread", {
+      tweet_id_or_url: "https://x.com/jack/status/1585841080431321088",
+    });
+    expect(text).toContain('get_thread({"tweet_id_or_url":"1585841080431321088","max_tweets":30})');
+    expect(text).toContain("analyze_thread(");
+    expect(text).toContain("extract_links(");
+    await client.close();
+  });
+
+  it("weekly_link_digest covers the seven days ending on end_date", async () => {
+    const { client } = await connect();
+    const { description, text } = await expand(client, "weekly_link_digest", { username: "jack" });
+    expect(description).toBe("Link digest for @jack, 2025-03-08 to 2025-03-14");
+    expect(text).toContain('extract_links({"username":"jack","max_tweets":100,"from_date":"2025-03-08","to_date":"2025-03-14"})');
+    await client.close();
+  });
+
+  it("rejects invalid arguments", async () => {
+    const { client } = await connect();
+    await expect(client.getPrompt({ name: "daily_brief", arguments: { username: "not a user!" } })).rejects.toThrow(
+      /letters, digits, or underscores/
+    );
+    await expect(
+      client.getPrompt({ name: "weekly_link_digest", arguments: { username: "jack", end_date: "14/03/2025" } })
+    ).rejects.toThrow(/YYYY-MM-DD/);
+    await expect(
+      client.getPrompt({ name: "investigate_thread", arguments: { tweet_id_or_url: "not-a-tweet" } })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringMatching(/numeric tweet ID/) });
+    await client.close();
+  });
+});
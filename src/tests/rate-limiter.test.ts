@@ -0,0 +1,184 @@
+import { writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { GrokClient } from "../lib/grok-client.js";
+import { RateLimiter } from "../lib/rate-limiter.js";
+import { GrokQuotaExceededError } from "../lib/errors.js";
+import { createServer } from "../server.js";
+
+describe("RateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("admits calls up to the per-minute burst", () => {
+    const limiter = new RateLimiter({ default: { requests_per_minute: 3, daily_limit: 100 } });
+    limiter.consume("search_tweets");
+    limiter.consume("search_tweets");
+    limiter.consume("search_tweets");
+    expect(() => limiter.consume("search_tweets")).toThrow(GrokQuotaExceededError);
+  });
+
+  it("reports a rate limit with the time until the next token", () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ default: { requests_per_minute: 1, daily_limit: 100 } });
+    limiter.consume("search_tweets");
+    vi.advanceTimersByTime(15_000);
+
+    let thrown: GrokQuotaExceededError | undefined;
+    try {
+      limiter.consume("search_tweets");
+    } catch (err) {
+      thrown = err as GrokQuotaExceededError;
+    }
+    expect(thrown?.limit).toBe("rate");
+    expect(thrown?.tool).toBe("search_tweets");
+    expect(thrown?.retryAfterMs).toBe(45_000);
+    expect(thrown?.message).toContain("Retry after 45s");
+  });
+
+  it("refills tokens over time", () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ default: { requests_per_minute: 2, daily_limit: 100 } });
+    limiter.consume("search_tweets");
+    limiter.consume("search_tweets");
+    expect(() => limiter.consume("search_tweets")).toThrow(GrokQuotaExceededError);
+
+    vi.advanceTimersByTime(30_000); // 2/min → one token every 30 s
+    expect(() => limiter.consume("search_tweets")).not.toThrow();
+  });
+
+  it("enforces the daily budget until UTC midnight", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-01T23:00:00Z"));
+    const limiter = new RateLimiter({ default: { requests_per_minute: 100, daily_limit: 2 } });
+    limiter.consume("get_tweet");
+    limiter.consume("get_tweet");
+
+    let thrown: GrokQuotaExceededError | undefined;
+    try {
+      limiter.consume("get_tweet");
+    } catch (err) {
+      thrown = err as GrokQuotaExceededError;
+    }
+    expect(thrown?.limit).toBe("daily");
+    expect(thrown?.retryAfterMs).toBe(60 * 60_000);
+
+    vi.setSystemTime(new Date("2025-06-02T00:00:01Z"));
+    expect(() => limiter.consume("get_tweet")).not.toThrow();
+  });
+
+  it("keeps separate buckets per tool", () => {
+    const limiter = new RateLimiter({ default: { requests_per_minute: 1, daily_limit: 100 } });
+    limiter.consume("get_tweet");
+    expect(() => limiter.consume("get_thread")).not.toThrow();
+  });
+
+  it("keeps separate buckets per client", () => {
+    const limiter = new RateLimiter({ default: { requests_per_minute: 1, daily_limit: 100 } });
+    limiter.consume("get_tweet", "alice");
+    expect(() => limiter.consume("get_tweet", "bob")).not.toThrow();
+    expect(() => limiter.consume("get_tweet", "alice")).toThrow(GrokQuotaExceededError);
+  });
+
+  it("does not consume the daily budget when the rate limit rejects", () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ default: { requests_per_minute: 1, daily_limit: 2 } });
+    limiter.consume("get_tweet");
+    expect(() => limiter.consume("get_tweet")).toThrow(GrokQuotaExceededError);
+    vi.advanceTimersByTime(60_000);
+    expect(() => limiter.consume("get_tweet")).not.toThrow();
+  });
+
+  it("applies tighter built-in limits to analysis tools", () => {
+    const limiter = new RateLimiter();
+    expect(limiter.limitFor("analyze_sentiment").requests_per_minute).toBeLessThan(
+      limiter.limitFor("get_tweet").requests_per_minute
+    );
+  });
+
+  it("layers tool and client overrides field by field", () => {
+    const limiter = new RateLimiter({
+      default: { requests_per_minute: 10, daily_limit: 100 },
+      tools: { extract_links: { requests_per_minute: 1 } },
+      clients: { "ci-bot": { tools: { extract_links: { daily_limit: 5 } } } },
+    });
+    expect(limiter.limitFor("extract_links")).toEqual({ requests_per_minute: 1, daily_limit: 100 });
+    expect(limiter.limitFor("extract_links", "ci-bot")).toEqual({ requests_per_minute: 1, daily_limit: 5 });
+    expect(limiter.limitFor("extract_links", "alice")).toEqual({ requests_per_minute: 1, daily_limit: 100 });
+  });
+
+  it("reset() clears all counters", () => {
+    const limiter = new RateLimiter({ default: { requests_per_minute: 1, daily_limit: 100 } });
+    limiter.consume("get_tweet");
+    limiter.reset();
+    expect(() => limiter.consume("get_tweet")).not.toThrow();
+  });
+});
+
+describe("RateLimiter.fromFile", () => {
+  let file: string;
+
+  afterEach(() => {
+    try { rmSync(file); } catch { /* file may not exist */ }
+  });
+
+  function writeConfig(content: string): string {
+    file = join(tmpdir(), `mcp-limits-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+    writeFileSync(file, content);
+    return file;
+  }
+
+  it("loads overrides from a JSON file", () => {
+    const limiter = RateLimiter.fromFile(
+      writeConfig(JSON.stringify({ tools: { get_tweet: { daily_limit: 7 } } }))
+    );
+    expect(limiter.limitFor("get_tweet").daily_limit).toBe(7);
+  });
+
+  it("throws on a negative limit", () => {
+    const path = writeConfig(JSON.stringify({ default: { requests_per_minute: -1 } }));
+    expect(() => RateLimiter.fromFile(path)).toThrow("Invalid limits config");
+  });
+
+  it("throws on a rate below one request per minute", () => {
+    const path = writeConfig(JSON.stringify({ tools: { get_tweet: { requests_per_minute: 0.5 } } }));
+    expect(() => RateLimiter.fromFile(path)).toThrow(/Invalid limits config.*requests_per_minute/);
+  });
+
+  it("throws on invalid JSON", () => {
+    expect(() => RateLimiter.fromFile(writeConfig("not json"))).toThrow("Cannot read limits config");
+  });
+});
+
+describe("createServer — rate limiting", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns a structured error before calling Grok once the quota is used", async () => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const grok = {
+      query: vi.fn().mockResolvedValue({ topics: [] }),
+      analyzeMedia: vi.fn(),
+    } as unknown as GrokClient;
+    const rateLimiter = new RateLimiter({ tools: { get_trending: { requests_per_minute: 1 } } });
+    const server = createServer(grok, { rateLimiter });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    const first = await client.callTool({ name: "get_trending", arguments: { category: "rl-a" } });
+    const second = await client.callTool({ name: "get_trending", arguments: { category: "rl-b" } });
+
+    expect(first.isError).toBeFalsy();
+    expect(second.isError).toBe(true);
+    expect((second.content as { text: string }[])[0].text).toMatch(/requests-per-minute limit.*Retry after/);
+    expect(grok.query).toHaveBeenCalledTimes(1);
+    await client.close();
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * MCP resources — x:// templates resolved through the tool functions,
+ * against the mock Grok server.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createServer, type ServerOptions } from "../server.js";
+import { MAX_SUBSCRIPTIONS_PER_SESSION } from "../resources.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { DEFAULT_GROK_CONFIG, mergeGrokConfig } from "../lib/config.js";
+import { RateLimiter } from "../lib/rate-limiter.js";
+import { ToolCache } from "../lib/tool-cache.js";
+import { FeedPoller } from "../lib/feed-poller.js";
+import { getRequestContext } from "../lib/request-context.js";
+import { profileCache } from "../tools/get-user-profile.js";
+import { trendingCache } from "../tools/get-trending.js";
+import { startMockGrokServer, type MockGrokServer } from "./helpers/mock-grok-server.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+const TWEET_ID = "1585841080431321088";
+
+let mock: MockGrokServer;
+
+beforeAll(async () => {
+  mock = await startMockGrokServer();
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  mock.reset();
+  profileCache.clear();
+  trendingCache.clear();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function connect(options: ServerOptions = {}) {
+  const grok = new GrokClient(API_KEY, {
+    config: mergeGrokConfig(DEFAULT_GROK_CONFIG, { base_url: mock.baseURL, max_retries: 0 }),
+  });
+  const server = createServer(grok, options);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return { client, grok };
+}
+
+async function readJson(client: Client, uri: string) {
+  const { contents } = await client.readResource({ uri });
+  expect(contents).toHaveLength(1);
+  expect(contents[0]).toMatchObject({ uri, mimeType: "application/json" });
+  return JSON.parse((contents[0] as { text: string }).text);
+}
+
+describe("MCP resources", () => {
+  it("advertises the x:// resource templates", async () => {
+    const { client } = await connect();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+      "x://list/{id}",
+      "x://search/{query}",
+      "x://thread/{id}",
+      "x://trending/{category}",
+      "x://trending/{category}/{country}",
+      "x://tweet/{id}",
+      "x://user/{username}",
+      "x://user/{username}/mentions",
+      "x://user/{username}/tweets",
+    ]);
+    await client.close();
+  });
+
+  it("reads a tweet", async () => {
+    const { client } = await connect();
+    expect((await readJson(client, `x://tweet/${TWEET_ID}`)).id).toBe(TWEET_ID);
+    await client.close();
+  });
+
+  it("reads a profile and a timeline from the two user templates", async () => {
+    const { client } = await connect();
+    expect(await readJson(client, "x://user/jack")).toHaveProperty("followers_count");
+    const timeline = await readJson(client, "x://user/jack/tweets");
+    expect(timeline.tweets.length).toBeGreaterThan(0);
+    expect(timeline).toHaveProperty("next_cursor");
+    await client.close();
+  });
+
+  it("reads mentions and a URL-encoded search", async () => {
+    const { client } = await connect();
+    expect((await readJson(client, "x://user/jack/mentions")).tweets.length).toBeGreaterThan(0);
+    expect((await readJson(client, "x://search/AI%20agents")).tweets.length).toBeGreaterThan(0);
+    const prompt = (mock.requests[1].body.input as { content: string }[])[0].content;
+    expect(prompt).toContain("AI agents");
+    await client.close();
+  });
+
+  it("validates variables with the tool's input schema", async () => {
+    const { client } = await connect();
+    await expect(client.readResource({ uri: `x://search/${"a".repeat(501)}` })).rejects.toThrow();
+    expect(mock.requests).toHaveLength(0);
+    await client.close();
+  });
+
+  it("reads trending topics, with \"all\" meaning no category", async () => {
+    const { client } = await connect();
+    expect((await readJson(client, "x://trending/all")).topics.length).toBeGreaterThan(0);
+    expect((await readJson(client, "x://trending/sports/United%20States")).topics.length).toBeGreaterThan(0);
+    const prompts = mock.requests.map((r) => (r.body.input as { content: string }[])[0].content);
+    expect(prompts[0]).not.toContain("<category>");
+    expect(prompts[1]).toContain("<category>sports</category>");
+    expect(prompts[1]).toContain("<country>United States</country>");
+    await client.close();
+  });
+
+  it("reads a thread and a list", async () => {
+    const { client } = await connect();
+    expect((await readJson(client, `x://thread/${TWEET_ID}`)).tweets.length).toBeGreaterThan(0);
+    expect((await readJson(client, "x://list/1234567890")).tweets.length).toBeGreaterThan(0);
+    const prompts = mock.requests.map((r) => (r.body.input as { content: string }[])[0].content);
+    expect(prompts[1]).toContain("1234567890");
+    await client.close();
+  });
+
+  it("lists recently fetched profiles", async () => {
+    const { client } = await connect();
+    expect((await client.listResources()).resources).toEqual([]);
+    await readJson(client, "x://user/jack");
+    await readJson(client, "x://user/%40dorsey");
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toEqual(["x://user/jack", "x://user/dorsey"]);
+    expect(resources[0]).toMatchObject({ name: "@jack", mimeType: "application/json" });
+    await client.close();
+  });
+
+  it("lists cached tweets and trending topics", async () => {
+    const { client } = await connect({ toolCache: new ToolCache() });
+    await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: TWEET_ID } });
+    await readJson(client, "x://trending/all");
+    await readJson(client, "x://trending/technology/France");
+    const uris = (await client.listResources()).resources.map((r) => r.uri);
+    expect(uris).toEqual(
+      expect.arrayContaining([`x://tweet/${TWEET_ID}`, "x://trending/all", "x://trending/technology/france"])
+    );
+    expect(uris).toHaveLength(3);
+    await client.close();
+  });
+
+  it("attributes usage to the matching tool", async () => {
+    const { client, grok } = await connect();
+    await readJson(client, `x://tweet/${TWEET_ID}`);
+    expect(grok.usage.snapshot().by_tool.get_tweet.calls).toBeGreaterThan(0);
+    await client.close();
+  });
+
+  it("applies the tool's rate limit", async () => {
+    const rateLimiter = new RateLimiter({ default: { requests_per_minute: 1, daily_limit: 100 } });
+    const { client } = await connect({ rateLimiter });
+    await readJson(client, `x://tweet/${TWEET_ID}`);
+    await expect(client.readResource({ uri: `x://tweet/${TWEET_ID}` })).rejects.toThrow(/limit/i);
+    expect(mock.requests.filter((r) => r.path === "/v1/responses")).toHaveLength(1);
+    await client.close();
+  });
+
+  it("reports upstream failures as read errors", async () => {
+    const { client } = await connect();
+    mock.inject({ kind: "unauthorized" });
+    await expect(client.readResource({ uri: "x://user/jack" })).rejects.toThrow(/authentication failed/i);
+    await client.close();
+  });
+});
+
+describe("MCP resource subscriptions", () => {
+  let poller: FeedPoller;
+
+  beforeEach(() => {
+    poller = new FeedPoller(60 * 60_000); // ticks are driven by pollOnce()
+  });
+
+  afterEach(() => {
+    poller.close();
+  });
+
+  /** Client whose Grok responses are pages of tweets with the given IDs, in turn. */
+  async function connectWithPages(...idLists: string[][]) {
+    return connectWithPagesAndOptions({}, ...idLists);
+  }
+
+  /** Like connectWithPages; with `clientId`, every request is authenticated as that client. */
+  async function connectWithPagesAndOptions(options: ServerOptions & { clientId?: string }, ...idLists: string[][]) {
+    const grok = new GrokClient(API_KEY);
+    let call = 0;
+    const pollers: (string | undefined)[] = [];
+    const create = vi.fn(async () => {
+      pollers.push(getRequestContext()?.clientId);
+      const ids = idLists[Math.min(call++, idLists.length - 1)];
+      const tweets = ids.map((id) => ({
+        id,
+        url: `https://x.com/jack/status/${id}`,
+        author: { username: "jack", display_name: "jack", verified: false },
+        text: "hello",
+        created_at: "2025-01-01T00:00:00Z",
+        metrics: { likes: 0, retweets: 0, replies: 0 },
+        is_retweet: false,
+      }));
+      return { output_text: JSON.stringify({ tweets }) };
+    });
+    (grok as unknown as { openai: unknown }).openai = { responses: { create } };
+
+    const server = createServer(grok, { ...options, feedPoller: poller });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const { clientId } = options;
+    if (clientId) {
+      const send = clientTransport.send.bind(clientTransport);
+      clientTransport.send = (message, sendOptions) =>
+        send(message, { ...sendOptions, authInfo: { clientId, token: clientId, scopes: [] } });
+    }
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+    await client.connect(clientTransport);
+    return { client, create, updates, pollers };
+  }
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it("advertises subscribe support only with a poller", async () => {
+    const { client } = await connectWithPages(["100"]);
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+    await client.close();
+
+    const { client: plain } = await connect();
+    expect(plain.getServerCapabilities()?.resources?.subscribe).toBeFalsy();
+    await plain.close();
+  });
+
+  it("sends resources/updated when new tweets appear", async () => {
+    const { client, create, updates } = await connectWithPages(["100"], ["100"], ["120", "100"]);
+    await client.subscribeResource({ uri: "x://user/jack/tweets" });
+    await flush(); // baseline
+    await poller.pollOnce(); // unchanged
+    await flush();
+    expect(updates).toEqual([]);
+
+    await poller.pollOnce(); // tweet 120 is new
+    await flush();
+    expect(updates).toEqual(["x://user/jack/tweets"]);
+    expect(create).toHaveBeenCalledTimes(3);
+    await client.close();
+  });
+
+  it("charges each poll to the client's rate limit and skips it over the limit", async () => {
+    const rateLimiter = new RateLimiter({ default: { requests_per_minute: 100, daily_limit: 2 } });
+    const { client, create } = await connectWithPagesAndOptions({ rateLimiter }, ["100"], ["120"]);
+    await client.subscribeResource({ uri: "x://user/jack/tweets" }); // charge 1, pays for the baseline
+    await flush();
+    await poller.pollOnce(); // charge 2
+    await poller.pollOnce(); // over the daily limit: no call
+    await poller.pollOnce();
+    expect(create).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+
+  it("polls as the next subscriber once the first one unsubscribes", async () => {
+    const rateLimiter = new RateLimiter({ default: { requests_per_minute: 100, daily_limit: 100 } });
+    const alice = await connectWithPagesAndOptions({ rateLimiter, clientId: "alice" }, ["100"]);
+    const bob = await connectWithPagesAndOptions({ rateLimiter, clientId: "bob" }, ["120"], ["130"]);
+    await alice.client.subscribeResource({ uri: "x://user/jack/tweets" });
+    await bob.client.subscribeResource({ uri: "x://user/jack/tweets" });
+    await flush();
+    await alice.client.unsubscribeResource({ uri: "x://user/jack/tweets" });
+    await poller.pollOnce();
+    await poller.pollOnce();
+    await flush();
+    expect(alice.pollers).toEqual(["alice"]);
+    expect(bob.pollers).toEqual(["bob", "bob"]);
+    expect(bob.updates).toEqual(["x://user/jack/tweets", "x://user/jack/tweets"]);
+    expect(alice.updates).toEqual([]);
+    await alice.client.close();
+    await bob.client.close();
+  });
+
+  it("stops notifying after unsubscribe", async () => {
+    const { client, create, updates } = await connectWithPages(["100"], ["120"]);
+    await client.subscribeResource({ uri: "x://search/AI" });
+    await flush();
+    await client.unsubscribeResource({ uri: "x://search/AI" });
+    await poller.pollOnce();
+    await flush();
+    expect(updates).toEqual([]);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(poller.size).toBe(0);
+  });
+
+  it("ends the session's subscriptions when it closes", async () => {
+    const { client } = await connectWithPages(["100"]);
+    await client.subscribeResource({ uri: "x://user/jack/mentions" });
+    expect(poller.size).toBe(1);
+    await client.close();
+    await flush();
+    expect(poller.size).toBe(0);
+  });
+
+  it("caps the subscriptions of one session", async () => {
+    const { client } = await connectWithPages(["100"]);
+    for (let i = 0; i < MAX_SUBSCRIPTIONS_PER_SESSION; i++) {
+      await client.subscribeResource({ uri: `x://search/topic${i}` });
+    }
+    // Subscribing again to a watched feed is still fine.
+    await client.subscribeResource({ uri: "x://search/topic0" });
+    await expect(client.subscribeResource({ uri: "x://search/one-more" })).rejects.toThrow(/At most/);
+    expect(poller.size).toBe(MAX_SUBSCRIPTIONS_PER_SESSION);
+    await client.close();
+  });
+
+  it("rejects subscriptions to resources that are not feeds", async () => {
+    const { client } = await connectWithPages(["100"]);
+    await expect(client.subscribeResource({ uri: `x://tweet/${TWEET_ID}` })).rejects.toThrow(/does not support subscriptions/);
+    await client.close();
+  });
+});
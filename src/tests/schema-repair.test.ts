@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import { formatIssues, repairToSchema } from "../lib/schema-repair.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { TweetArraySchema } from "../schemas/tweet.js";
+import { UserProfileSchema } from "../schemas/user.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+function tweet(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    url: `https://x.com/jack/status/${id}`,
+    author: { username: "jack", display_name: "jack", verified: false },
+    text: "hello",
+    created_at: "2025-01-01T00:00:00Z",
+    metrics: { likes: 1, retweets: 2, replies: 3 },
+    is_retweet: false,
+    ...overrides,
+  };
+}
+
+const PROFILE = {
+  username: "jack",
+  display_name: "jack",
+  bio: null,
+  followers_count: 100,
+  following_count: 10,
+  tweet_count: 1000,
+  verified: true,
+  created_at: "2006-03-21T00:00:00Z",
+};
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("repairToSchema", () => {
+  it("passes valid values through untouched", () => {
+    const value = { tweets: [tweet("1")] };
+    expect(repairToSchema(TweetArraySchema, value)).toMatchObject({ success: true, repaired: 0, dropped: 0 });
+  });
+
+  it("coerces numeric strings in list items", () => {
+    const value = { tweets: [tweet("1"), tweet("2", { metrics: { likes: "1,204", retweets: "3", replies: 0 } })] };
+    const result = repairToSchema(TweetArraySchema, value);
+    expect(result).toMatchObject({ success: true, repaired: 1, dropped: 0 });
+    expect(result.success && result.data.tweets[1].metrics.likes).toBe(1204);
+    // The input is left as it was.
+    expect(value.tweets[1].metrics.likes).toBe("1,204");
+  });
+
+  it("drops list items that cannot be repaired", () => {
+    const value = { tweets: [tweet("1"), tweet("2", { metrics: undefined }), tweet("3", { text: undefined })] };
+    const result = repairToSchema(TweetArraySchema, value);
+    expect(result).toMatchObject({ success: true, repaired: 0, dropped: 2 });
+    expect(result.success && result.data.tweets.map((t) => t.id)).toEqual(["1"]);
+  });
+
+  it("coerces the root object", () => {
+    const result = repairToSchema(UserProfileSchema, { ...PROFILE, followers_count: "2500", verified: "true" });
+    expect(result).toMatchObject({ success: true, repaired: 1, dropped: 0 });
+    expect(result.success && result.data.followers_count).toBe(2500);
+    expect(result.success && result.data.verified).toBe(true);
+  });
+
+  it("fills a missing object or array when every field inside is optional", () => {
+    const schema = z.object({ tags: z.array(z.string()), meta: z.object({ note: z.string().optional() }) });
+    expect(repairToSchema(schema, {})).toMatchObject({ success: true, data: { tags: [], meta: {} } });
+  });
+
+  it("fails when the root object cannot be repaired", () => {
+    const result = repairToSchema(UserProfileSchema, { ...PROFILE, followers_count: "lots" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("formatIssues", () => {
+  it("lists issues by path", () => {
+    const result = UserProfileSchema.safeParse({ ...PROFILE, username: undefined, followers_count: "x" });
+    expect(result.success).toBe(false);
+    const text = formatIssues(result.error!);
+    expect(text).toMatch(/^- username: /m);
+    expect(text).toMatch(/^- followers_count: /m);
+  });
+
+  it("caps the list", () => {
+    const schema = z.object({ a: z.array(z.number()) });
+    const result = schema.safeParse({ a: Array.from({ length: 25 }, () => "x") });
+    expect(formatIssues(result.error!).split("\n")).toHaveLength(21);
+  });
+});
+
+describe("GrokClient schema repair", () => {
+  function stubbedClient(...outputs: unknown[]) {
+    const client = new GrokClient(API_KEY);
+    const create = vi.fn();
+    for (const output of outputs) {
+      create.mockResolvedValueOnce({ output_text: JSON.stringify(output) });
+    }
+    (client as unknown as { openai: unknown }).openai = { responses: { create } };
+    return { client, create };
+  }
+
+  function promptOf(create: ReturnType<typeof vi.fn>, call: number): string {
+    return (create.mock.calls[call][0] as { input: { content: string }[] }).input[0].content;
+  }
+
+  it("reports repaired and dropped items", async () => {
+    const { client, create } = stubbedClient({
+      tweets: [tweet("1"), tweet("2", { metrics: { likes: "5", retweets: 0, replies: 0 } }), tweet("3", { author: "jack" })],
+    });
+    const result = await client.query("p", TweetArraySchema, "tweet_array");
+    expect(result.tweets.map((t) => t.id)).toEqual(["1", "2"]);
+    expect(result).toMatchObject({ repair: { repaired: 1, dropped: 1 } });
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not add a repair report to valid responses", async () => {
+    const { client } = stubbedClient(PROFILE);
+    expect(await client.query("p", UserProfileSchema, "user_profile")).not.toHaveProperty("repair");
+  });
+
+  it("asks once for a corrected object, quoting the Zod issues", async () => {
+    const { client, create } = stubbedClient({ ...PROFILE, username: undefined }, PROFILE);
+    const result = await client.query("p", UserProfileSchema, "user_profile");
+    expect(result.username).toBe("jack");
+    expect(result).toMatchObject({ repair: { repaired: 1, dropped: 0 } });
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(promptOf(create, 1)).toMatch(/did not match the required JSON schema:\n- username: /);
+  });
+
+  it("throws the ZodError when the corrected object is still invalid", async () => {
+    const bad = { ...PROFILE, username: undefined };
+    const { client, create } = stubbedClient(bad, bad);
+    await expect(client.query("p", UserProfileSchema, "user_profile")).rejects.toBeInstanceOf(z.ZodError);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * Snapshot tests for MCP tool input schemas.
  *
- * Serialises each tool's Input Zod schema to JSON Schema via zodToJsonSchema
+ * Serialises each tool's Input Zod schema to JSON Schema via z.toJSONSchema
  * and asserts it matches a stored snapshot. Any accidental change to a tool's
  * public signature (added/removed/renamed field, changed validation rule) will
  * cause a snapshot mismatch and must be reviewed intentionally.
@@ -11,41 +11,52 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { zodToJsonSchema } from "zod-to-json-schema";
+import { z } from "zod";
 import { GetTweetInput } from "../tools/get-tweet.js";
+import { GetTweetsInput } from "../tools/get-tweets.js";
 import { GetTweetRepliesInput } from "../tools/get-tweet-replies.js";
+import { GetQuoteTweetsInput } from "../tools/get-quote-tweets.js";
 import { GetUserTweetsInput } from "../tools/get-user-tweets.js";
 import { GetUserProfileInput } from "../tools/get-user-profile.js";
+import { GetUserProfilesInput } from "../tools/get-user-profiles.js";
 import { SearchTweetsInput } from "../tools/search-tweets.js";
 import { GetThreadInput } from "../tools/get-thread.js";
+import { GetConversationTreeInput } from "../tools/get-conversation-tree.js";
 import { GetTrendingInput } from "../tools/get-trending.js";
 import { AnalyzeSentimentInput } from "../tools/analyze-sentiment.js";
 import { AnalyzeThreadInput } from "../tools/analyze-thread.js";
 import { ExtractLinksInput } from "../tools/extract-links.js";
 import { GetUserMentionsInput } from "../tools/get-user-mentions.js";
 import { GetListTweetsInput } from "../tools/get-list-tweets.js";
+import { GetUsageStatsInput } from "../tools/get-usage-stats.js";
 
-const SCHEMA_OPTS = { $refStrategy: "none" } as const;
+// The input side of each schema, as MCP clients see it: fields with defaults
+// are optional. `unrepresentable: "any"` turns transforms into `{}`.
+const SCHEMA_OPTS = { target: "draft-7", io: "input", unrepresentable: "any" } as const;
 
 const tools = [
   ["get_tweet", GetTweetInput],
+  ["get_tweets", GetTweetsInput],
   ["get_tweet_replies", GetTweetRepliesInput],
+  ["get_quote_tweets", GetQuoteTweetsInput],
   ["get_user_tweets", GetUserTweetsInput],
   ["get_user_profile", GetUserProfileInput],
+  ["get_user_profiles", GetUserProfilesInput],
   ["search_tweets", SearchTweetsInput],
   ["get_thread", GetThreadInput],
+  ["get_conversation_tree", GetConversationTreeInput],
   ["get_trending", GetTrendingInput],
   ["analyze_sentiment", AnalyzeSentimentInput],
   ["analyze_thread", AnalyzeThreadInput],
   ["extract_links", ExtractLinksInput],
   ["get_user_mentions", GetUserMentionsInput],
   ["get_list_tweets", GetListTweetsInput],
+  ["get_usage_stats", GetUsageStatsInput],
 ] as const;
 
 describe("MCP tool input schemas", () => {
   it.each(tools)("%s input schema matches snapshot", (_name, schema) => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const jsonSchema = zodToJsonSchema(schema as any, SCHEMA_OPTS);
+    const jsonSchema = z.toJSONSchema(schema, SCHEMA_OPTS);
     expect(jsonSchema).toMatchSnapshot();
   });
 });
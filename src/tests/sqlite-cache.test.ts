@@ -0,0 +1,209 @@
+/**
+ * SQLite cache backend — TtlCache behaviour on the database, namespaces,
+ * limits, visibility across connections, and backend selection.
+ * better-sqlite3 is an optional dependency: the database tests are skipped
+ * when it is not installed, while the memory fallback is tested either way.
+ */
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createRequire } from "node:module";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type BetterSqlite3 from "better-sqlite3";
+import { SqliteTtlCache, TOUCH_INTERVAL_MS } from "../lib/sqlite-cache.js";
+import { TtlCache, PersistentTtlCache } from "../lib/cache.js";
+import { createCache, parseCacheBackend, SQLITE_CACHE_FILE } from "../lib/cache-backend.js";
+
+/** better-sqlite3, or undefined when the optional dependency is not installed. */
+const Sqlite = (() => {
+  try {
+    return createRequire(import.meta.url)("better-sqlite3") as typeof BetterSqlite3;
+  } catch {
+    return undefined;
+  }
+})();
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  dir = mkdtempSync(join(tmpdir(), "mcp-sqlite-cache-"));
+  file = join(dir, SQLITE_CACHE_FILE);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe.skipIf(!Sqlite)("SqliteTtlCache", () => {
+  it("stores, expires and peeks like TtlCache", () => {
+    vi.useFakeTimers();
+    const cache = new SqliteTtlCache<{ n: number }>(1000, file, "test");
+    cache.set("key", { n: 1 });
+    expect(cache.get("key")).toEqual({ n: 1 });
+    expect(cache.get("missing")).toBeUndefined();
+
+    vi.advanceTimersByTime(1001);
+    expect(cache.peek("key")).toEqual({ value: { n: 1 }, expired: true });
+    expect(cache.entries()).toEqual([]);
+    expect(cache.get("key")).toBeUndefined();
+    expect(cache.peek("key")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 0, hits: 1, misses: 4 });
+  });
+
+  it("keeps namespaces apart in one file", () => {
+    const profiles = new SqliteTtlCache<string>(5000, file, "profile");
+    const trending = new SqliteTtlCache<string>(5000, file, "trending");
+    profiles.set("key", "profile");
+    trending.set("key", "trending");
+
+    profiles.clear();
+    expect(profiles.get("key")).toBeUndefined();
+    expect(trending.get("key")).toBe("trending");
+  });
+
+  it("evicts the least recently used rows beyond maxEntries and maxBytes", () => {
+    vi.useFakeTimers();
+    const cache = new SqliteTtlCache<string>(5 * TOUCH_INTERVAL_MS, file, "test", { maxEntries: 2 });
+    cache.set("a", "1");
+    vi.advanceTimersByTime(1);
+    cache.set("b", "2");
+    vi.advanceTimersByTime(TOUCH_INTERVAL_MS);
+    cache.get("a"); // "b" is now least recently used
+    vi.advanceTimersByTime(1);
+    cache.set("c", "3");
+    expect(cache.entries().map(([key]) => key).sort()).toEqual(["a", "c"]);
+
+    const sized = new SqliteTtlCache<string>(5000, file, "sized", { maxBytes: 30 });
+    sized.set("a", "x".repeat(10)); // 1 + 12 bytes
+    vi.advanceTimersByTime(1);
+    sized.set("b", "y".repeat(10));
+    vi.advanceTimersByTime(1);
+    sized.set("c", "z".repeat(10));
+    sized.set("d", "w".repeat(100)); // larger than the limit: not stored
+    expect(sized.entries().map(([key]) => key)).toEqual(["b", "c"]);
+    expect(sized.stats()).toMatchObject({ entries: 2, bytes: 26, evictions: 1 });
+  });
+
+  it("refreshes a row's recency on read at most every TOUCH_INTERVAL_MS", () => {
+    vi.useFakeTimers();
+    const cache = new SqliteTtlCache<string>(5 * TOUCH_INTERVAL_MS, file, "test");
+    cache.set("key", "value");
+    const written = Date.now();
+    const lastUsed = () => {
+      const other = new (Sqlite as typeof BetterSqlite3)(file);
+      const row = other.prepare("SELECT last_used FROM cache_entries WHERE namespace = 'test' AND key = 'key'").get() as {
+        last_used: number;
+      };
+      other.close();
+      return row.last_used;
+    };
+
+    vi.advanceTimersByTime(TOUCH_INTERVAL_MS - 1);
+    expect(cache.get("key")).toBe("value");
+    expect(lastUsed()).toBe(written);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get("key")).toBe("value");
+    expect(lastUsed()).toBe(written + TOUCH_INTERVAL_MS);
+  });
+
+  it("serves expired rows as stale within staleGraceMs", () => {
+    vi.useFakeTimers();
+    const cache = new SqliteTtlCache<string>(1000, file, "test", { staleGraceMs: 500 });
+    cache.set("key", "value");
+    vi.advanceTimersByTime(1200);
+    expect(cache.get("key")).toBeUndefined();
+    expect(cache.sweep()).toBe(0);
+    expect(cache.lookup("key")).toEqual({ value: "value", stale: true, ageMs: 1200 });
+
+    vi.advanceTimersByTime(301);
+    expect(cache.lookup("key")).toBeUndefined();
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it("sweeps expired rows", () => {
+    vi.useFakeTimers();
+    const cache = new SqliteTtlCache<string>(1000, file, "test");
+    cache.set("old", "value");
+    vi.advanceTimersByTime(600);
+    cache.set("new", "value");
+    vi.advanceTimersByTime(500);
+
+    expect(cache.sweep()).toBe(1);
+    expect(cache.entries()).toEqual([["new", "value"]]);
+  });
+
+  it("shares entries with other connections to the same file", () => {
+    const cache = new SqliteTtlCache<string>(5000, file, "test");
+    cache.set("mine", "from this process");
+
+    // A second connection stands in for another server process.
+    const other = new (Sqlite as typeof BetterSqlite3)(file);
+    const row = other.prepare("SELECT value FROM cache_entries WHERE namespace = 'test' AND key = 'mine'").get() as {
+      value: string;
+    };
+    expect(JSON.parse(row.value)).toBe("from this process");
+    other
+      .prepare(
+        "INSERT INTO cache_entries (namespace, key, value, bytes, expires_at, last_used) VALUES ('test', 'theirs', ?, 10, ?, 99)"
+      )
+      .run(JSON.stringify("from another process"), Date.now() + 5000);
+    other.close();
+
+    expect(cache.get("theirs")).toBe("from another process");
+  });
+
+  it("caches in memory when the database cannot be opened", () => {
+    const blocking = join(dir, "not-a-directory");
+    writeFileSync(blocking, "");
+    const cache = new SqliteTtlCache<string>(5000, join(blocking, SQLITE_CACHE_FILE), "test");
+    cache.set("key", "value");
+    expect(cache.get("key")).toBe("value");
+  });
+});
+
+describe("SqliteTtlCache without better-sqlite3", () => {
+  afterEach(() => {
+    vi.doUnmock("node:module");
+    vi.resetModules();
+  });
+
+  it("caches in memory and logs the missing module once", async () => {
+    vi.resetModules();
+    vi.doMock("node:module", async (importOriginal) => ({
+      ...(await importOriginal<typeof import("node:module")>()),
+      createRequire: () => () => {
+        throw Object.assign(new Error("Cannot find module 'better-sqlite3'"), { code: "MODULE_NOT_FOUND" });
+      },
+    }));
+    const { SqliteTtlCache: Fallback } = await import("../lib/sqlite-cache.js");
+
+    const profiles = new Fallback<string>(5000, file, "profile");
+    const trending = new Fallback<string>(5000, file, "trending");
+    profiles.set("key", "value");
+    expect(profiles.get("key")).toBe("value");
+    expect(trending.get("key")).toBeUndefined();
+    expect(existsSync(file)).toBe(false);
+
+    const logged = (vi.mocked(process.stderr.write).mock.calls as [string][]).map(([line]) => line);
+    expect(logged.filter((line) => line.includes("better-sqlite3 package is not installed"))).toHaveLength(1);
+  });
+});
+
+describe("createCache", () => {
+  it("picks the store from the directory and backend", () => {
+    expect(createCache(1000, "x", {})).toBeInstanceOf(TtlCache);
+    expect(createCache(1000, "x", { dir })).toBeInstanceOf(PersistentTtlCache);
+    expect(createCache(1000, "x", { dir, backend: "sqlite" })).toBeInstanceOf(SqliteTtlCache);
+  });
+
+  it("parses CACHE_BACKEND", () => {
+    expect(parseCacheBackend(undefined)).toBe("json");
+    expect(parseCacheBackend(" SQLite ")).toBe("sqlite");
+    expect(parseCacheBackend("redis")).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Stale-while-revalidate for get_user_profile and get_trending — expired
+ * entries within CACHE_STALE_GRACE_MS are served flagged as stale while a
+ * background refresh fetches fresh data.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../server.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { ToolCache } from "../lib/tool-cache.js";
+import { getRequestContext, runWithRequestContext, type RequestContext } from "../lib/request-context.js";
+import { getUserProfile, profileCache } from "../tools/get-user-profile.js";
+import { getTrending, trendingCache } from "../tools/get-trending.js";
+
+// The caches read the grace window when their modules load.
+vi.hoisted(() => {
+  process.env.CACHE_STALE_GRACE_MS = String(60 * 60_000);
+  delete process.env.CACHE_DIR;
+});
+
+const PROFILE = {
+  username: "jack",
+  display_name: "jack",
+  verified: true,
+  followers_count: 1,
+  following_count: 1,
+  tweet_count: 1,
+};
+
+const TRENDING = { topics: [{ name: "#AI", tweet_count: 1000, category: "technology" }] };
+
+function mockClient(...responses: unknown[]) {
+  const query = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) query.mockRejectedValueOnce(response);
+    else query.mockResolvedValueOnce(structuredClone(response));
+  }
+  return { client: { query } as unknown as GrokClient, query };
+}
+
+/** Let the background refresh settle. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  vi.useFakeTimers({ toFake: ["Date"] });
+  profileCache.clear();
+  trendingCache.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("get_user_profile stale-while-revalidate", () => {
+  it("serves an expired profile as stale and refreshes it in the background", async () => {
+    const { client, query } = mockClient(PROFILE, { ...PROFILE, followers_count: 2 });
+    await getUserProfile(client, { username: "jack" });
+    vi.advanceTimersByTime(11 * 60_000);
+
+    const stale = await getUserProfile(client, { username: "jack" });
+    expect(stale).toMatchObject({ followers_count: 1, stale: true, age_seconds: 660 });
+    await settle();
+
+    const fresh = await getUserProfile(client, { username: "jack" });
+    expect(fresh).toMatchObject({ followers_count: 2 });
+    expect(fresh).not.toHaveProperty("stale");
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("starts one refresh for concurrent stale reads", async () => {
+    const { client, query } = mockClient(PROFILE, PROFILE);
+    await getUserProfile(client, { username: "jack" });
+    vi.advanceTimersByTime(11 * 60_000);
+
+    await Promise.all([getUserProfile(client, { username: "jack" }), getUserProfile(client, { username: "jack" })]);
+    await settle();
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the stale profile and logs when the refresh fails", async () => {
+    const { client } = mockClient(PROFILE, new Error("upstream down"));
+    await getUserProfile(client, { username: "jack" });
+    vi.advanceTimersByTime(11 * 60_000);
+
+    await getUserProfile(client, { username: "jack" });
+    await settle();
+    expect(profileCache.lookup("jack")).toMatchObject({ stale: true });
+    const logged = (vi.mocked(process.stderr.write).mock.calls as [string][]).map(([line]) => line);
+    expect(logged.some((line) => line.includes("Background cache refresh failed"))).toBe(true);
+  });
+
+  it("waits for Grok once the grace window has passed", async () => {
+    const { client, query } = mockClient(PROFILE, { ...PROFILE, followers_count: 2 });
+    await getUserProfile(client, { username: "jack" });
+    vi.advanceTimersByTime(71 * 60_000);
+
+    const result = await getUserProfile(client, { username: "jack" });
+    expect(result).toMatchObject({ followers_count: 2 });
+    expect(result).not.toHaveProperty("stale");
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("refreshes outside the request, keeping the tool and client names", async () => {
+    const { client, query } = mockClient(PROFILE);
+    await getUserProfile(client, { username: "jack" });
+    vi.advanceTimersByTime(11 * 60_000);
+
+    let refreshContext: RequestContext | undefined;
+    query.mockImplementationOnce(async () => {
+      refreshContext = getRequestContext();
+      return structuredClone(PROFILE);
+    });
+    const controller = new AbortController();
+    await runWithRequestContext(
+      { tool: "get_user_profile", clientId: "ci-bot", signal: controller.signal, usage: undefined },
+      () => getUserProfile(client, { username: "jack" })
+    );
+    controller.abort();
+    await settle();
+    expect(refreshContext).toEqual({ tool: "get_user_profile", clientId: "ci-bot" });
+  });
+});
+
+describe("get_trending stale-while-revalidate", () => {
+  it("serves expired topics as stale and refreshes them in the background", async () => {
+    const newer = { topics: [{ name: "#Space", tweet_count: 5000, category: "science" }] };
+    const { client, query } = mockClient(TRENDING, newer);
+    await getTrending(client, { category: "technology" });
+    vi.advanceTimersByTime(6 * 60_000);
+
+    const stale = await getTrending(client, { category: "technology" });
+    expect(stale).toMatchObject({ ...TRENDING, stale: true, age_seconds: 360 });
+    await settle();
+
+    expect(await getTrending(client, { category: "technology" })).toEqual(newer);
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not store a truncated refresh", async () => {
+    const { client } = mockClient(TRENDING, { ...TRENDING, truncated: true });
+    await getTrending(client, {});
+    vi.advanceTimersByTime(6 * 60_000);
+
+    await getTrending(client, {});
+    await settle();
+    expect(trendingCache.lookup("|")).toMatchObject({ value: TRENDING, stale: true });
+  });
+});
+
+describe("stale results through the server", () => {
+  it("reports _meta.cache stale next to the stale flag", async () => {
+    const grok = new GrokClient("xai-" + "a".repeat(40));
+    const create = vi.fn(async (request: { input: { content: string }[] }) => ({
+      output_text: JSON.stringify(request.input[0].content.includes("profile") ? PROFILE : TRENDING),
+    }));
+    (grok as unknown as { openai: unknown }).openai = { responses: { create } };
+    const server = createServer(grok, { toolCache: new ToolCache() });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    const profile = () => client.callTool({ name: "get_user_profile", arguments: { username: "jack" } });
+    const trending = () => client.callTool({ name: "get_trending", arguments: {} });
+    expect((await profile())._meta).toEqual({ cache: "miss" });
+    expect((await trending())._meta).toEqual({ cache: "miss" });
+    vi.advanceTimersByTime(11 * 60_000);
+
+    for (const result of [await profile(), await trending()]) {
+      expect(result._meta).toEqual({ cache: "stale" });
+      expect(result.structuredContent).toMatchObject({ stale: true, age_seconds: 660 });
+    }
+    await settle();
+    const fresh = await profile();
+    expect(fresh._meta).toEqual({ cache: "miss" });
+    expect(fresh.structuredContent).not.toHaveProperty("stale");
+    await client.close();
+  });
+});
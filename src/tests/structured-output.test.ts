@@ -0,0 +1,118 @@
+/**
+ * Structured output — every tool advertises an outputSchema and returns
+ * `structuredContent` that validates against it. Tools run against the mock
+ * Grok server, whose synthetic data follows the request's JSON schema.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../server.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { DEFAULT_GROK_CONFIG, mergeGrokConfig } from "../lib/config.js";
+import { profileCache } from "../tools/get-user-profile.js";
+import { trendingCache } from "../tools/get-trending.js";
+import { startMockGrokServer, type MockGrokServer } from "./helpers/mock-grok-server.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+const CALLS: [string, Record<string, unknown>][] = [
+  ["get_tweet", { tweet_id_or_url: "1585841080431321088" }],
+  ["get_tweets", { tweet_ids_or_urls: ["1585841080431321088", "https://x.com/jack/status/20"] }],
+  ["get_tweet_replies", { tweet_id_or_url: "1585841080431321088" }],
+  ["get_quote_tweets", { tweet_id_or_url: "1585841080431321088", sort_by: "recency" }],
+  ["get_user_tweets", { username: "jack" }],
+  ["get_user_profile", { username: "jack" }],
+  ["get_user_profiles", { usernames: ["jack", "@elonmusk"] }],
+  ["search_tweets", { query: "AI" }],
+  ["get_thread", { tweet_id_or_url: "1585841080431321088" }],
+  // The mock server's first synthetic tweet ID, so the root is among the returned tweets.
+  ["get_conversation_tree", { tweet_id_or_url: "1800000000000000001" }],
+  ["get_trending", {}],
+  ["analyze_sentiment", { query: "AI" }],
+  ["analyze_thread", { tweet_id_or_url: "1585841080431321088" }],
+  ["extract_links", { username: "jack" }],
+  ["get_user_mentions", { username: "jack" }],
+  ["get_list_tweets", { list_id: "1234567890" }],
+  ["get_usage_stats", {}],
+];
+
+describe("createServer — structured output", () => {
+  let mock: MockGrokServer;
+  let client: Client;
+
+  beforeAll(async () => {
+    mock = await startMockGrokServer();
+    const grok = new GrokClient(API_KEY, {
+      config: mergeGrokConfig(DEFAULT_GROK_CONFIG, { base_url: mock.baseURL, max_retries: 0 }),
+    });
+    const server = createServer(grok);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    profileCache.clear();
+    trendingCache.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("advertises an object outputSchema for every tool", async () => {
+    const { tools } = await client.listTools();
+    expect(tools).toHaveLength(CALLS.length);
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type, tool.name).toBe("object");
+    }
+  });
+
+  it("includes next_cursor in the output schema of paginated tools", async () => {
+    const { tools } = await client.listTools();
+    const paginated = tools.filter((t) => t.outputSchema?.properties?.next_cursor).map((t) => t.name);
+    expect(paginated.sort()).toEqual([
+      "get_list_tweets",
+      "get_quote_tweets",
+      "get_user_mentions",
+      "get_user_tweets",
+      "search_tweets",
+    ]);
+  });
+
+  it.each(CALLS)("%s returns structuredContent matching its text content", async (name, args) => {
+    await client.listTools(); // the client validates structuredContent against the listed schemas
+    const result = await client.callTool({ name, arguments: args });
+    expect(result.isError).toBeFalsy();
+    const text = (result.content as { type: string; text: string }[])[0].text;
+    expect(result.structuredContent).toEqual(JSON.parse(text));
+  });
+
+  it("returns next_cursor in structuredContent", async () => {
+    const result = await client.callTool({ name: "search_tweets", arguments: { query: "AI" } });
+    expect(result.structuredContent).toHaveProperty("next_cursor");
+  });
+
+  it("accepts verbose thread results", async () => {
+    const result = await client.callTool({
+      name: "get_thread",
+      arguments: { tweet_id_or_url: "1585841080431321088", verbose: true },
+    });
+    expect(result.isError).toBeFalsy();
+    expect((result.structuredContent as { tweets: unknown[] }).tweets.length).toBeGreaterThan(0);
+  });
+
+  it("leaves structuredContent out of error results", async () => {
+    mock.inject({ kind: "unauthorized" });
+    const result = await client.callTool({ name: "search_tweets", arguments: { query: "AI" } });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
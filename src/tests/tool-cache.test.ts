@@ -0,0 +1,247 @@
+/**
+ * Tool result cache — key normalisation, use / refresh / bypass modes,
+ * expiry, and `_meta.cache` through a connected client.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../server.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { BudgetGuard } from "../lib/budget.js";
+import { ToolCache, cacheKey } from "../lib/tool-cache.js";
+import { getRequestContext, markStale, runWithRequestContext, type RequestContext } from "../lib/request-context.js";
+import { GetTweetInput } from "../tools/get-tweet.js";
+import { GetUserTweetsInput } from "../tools/get-user-tweets.js";
+import { GetTweetsInput } from "../tools/get-tweets.js";
+import { profileCache } from "../tools/get-user-profile.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+const TWEET = {
+  id: "20",
+  url: "https://x.com/jack/status/20",
+  author: { username: "jack", display_name: "jack", verified: false },
+  text: "just setting up my twttr",
+  created_at: "2006-03-21T20:50:14Z",
+  metrics: { likes: 1, retweets: 0, replies: 0 },
+  is_retweet: false,
+};
+
+const PROFILE = {
+  username: "jack",
+  display_name: "jack",
+  verified: true,
+  followers_count: 1,
+  following_count: 1,
+  tweet_count: 1,
+};
+
+beforeEach(() => {
+  vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  profileCache.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("cacheKey", () => {
+  it("shares a key between equivalent inputs", () => {
+    expect(cacheKey(GetTweetInput, { tweet_id_or_url: "https://x.com/jack/status/20" })).toBe(
+      cacheKey(GetTweetInput, { tweet_id_or_url: "20" })
+    );
+    expect(cacheKey(GetUserTweetsInput, { username: "@Jack", max_results: 10 })).toBe(
+      cacheKey(GetUserTweetsInput, { max_results: 10, username: "jack" })
+    );
+    expect(cacheKey(GetTweetsInput, { tweet_ids_or_urls: ["https://x.com/a/status/1", "2"] })).toBe(
+      cacheKey(GetTweetsInput, { tweet_ids_or_urls: ["1", "2"] })
+    );
+  });
+
+  it("keeps different inputs apart", () => {
+    expect(cacheKey(GetUserTweetsInput, { username: "jack", max_results: 5 })).not.toBe(
+      cacheKey(GetUserTweetsInput, { username: "jack", max_results: 10 })
+    );
+  });
+});
+
+describe("ToolCache.run", () => {
+  /** Run `fn` through `cache` inside a request context; returns the context. */
+  async function call(cache: ToolCache, input: object, fn: () => Promise<object>, tool = "get_tweet") {
+    const context: RequestContext = {};
+    const result = await runWithRequestContext(context, () => cache.run(tool, GetTweetInput, input, fn));
+    return { result, context };
+  }
+
+  it("serves the second identical call from the cache", async () => {
+    const cache = new ToolCache({ get_tweet: 60_000 });
+    const fn = vi.fn(async () => ({ ...TWEET }));
+    const first = await call(cache, { tweet_id_or_url: "20" }, fn);
+    const second = await call(cache, { tweet_id_or_url: "https://x.com/jack/status/20" }, fn);
+    expect(fn).toHaveBeenCalledOnce();
+    expect(first.context.cacheStatus).toBe("miss");
+    expect(second.context.cacheStatus).toBe("hit");
+    expect(second.result).toEqual(first.result);
+    expect(cache.stats().get_tweet).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  it("refetches and replaces an entry on refresh", async () => {
+    const cache = new ToolCache({ get_tweet: 60_000 });
+    const fn = vi.fn(async () => ({ ...TWEET, text: `call ${fn.mock.calls.length}` }));
+    await call(cache, { tweet_id_or_url: "20" }, fn);
+    const refreshed = await call(cache, { tweet_id_or_url: "20", cache: "refresh" }, fn);
+    const after = await call(cache, { tweet_id_or_url: "20" }, fn);
+    expect(refreshed.context).toMatchObject({ cacheStatus: "miss", cacheMode: "refresh" });
+    expect(after.result).toMatchObject({ text: "call 2" });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("neither reads nor writes on bypass", async () => {
+    const cache = new ToolCache({ get_tweet: 60_000 });
+    const fn = vi.fn(async () => ({ ...TWEET }));
+    const bypassed = await call(cache, { tweet_id_or_url: "20", cache: "bypass" }, fn);
+    const next = await call(cache, { tweet_id_or_url: "20" }, fn);
+    expect(bypassed.context.cacheStatus).toBe("miss");
+    expect(next.context.cacheStatus).toBe("miss");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("refetches an entry past its TTL as a miss", async () => {
+    vi.useFakeTimers();
+    const cache = new ToolCache({ get_tweet: 1000 });
+    const fn = vi.fn(async () => ({ ...TWEET }));
+    await call(cache, { tweet_id_or_url: "20" }, fn);
+    vi.advanceTimersByTime(1001);
+    const again = await call(cache, { tweet_id_or_url: "20" }, fn);
+    expect(again.context.cacheStatus).toBe("miss");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports a result the tool served stale as stale", async () => {
+    const cache = new ToolCache({ get_tweet: 60_000 });
+    const fn = vi.fn(async () => {
+      markStale();
+      return { ...TWEET, stale: true, age_seconds: 90 };
+    });
+    const first = await call(cache, { tweet_id_or_url: "20" }, fn);
+    const second = await call(cache, { tweet_id_or_url: "20" }, fn);
+    expect(first.context.cacheStatus).toBe("stale");
+    expect(second.context.cacheStatus).toBe("stale");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not store truncated results", async () => {
+    const cache = new ToolCache({ get_tweet: 60_000 });
+    const fn = vi.fn(async () => ({ tweets: [], truncated: true }));
+    await call(cache, { tweet_id_or_url: "20" }, fn);
+    await call(cache, { tweet_id_or_url: "20" }, fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes uncached tools through, without the cache argument", async () => {
+    const cache = new ToolCache({});
+    const context: RequestContext = {};
+    const fn = vi.fn(async (args: object) => {
+      expect(getRequestContext()?.cacheMode).toBe("bypass");
+      return { ...TWEET, args };
+    });
+    const result = await runWithRequestContext(context, () =>
+      cache.run("get_tweet", GetTweetInput, { tweet_id_or_url: "20", cache: "bypass" as const }, fn)
+    );
+    expect(result.args).toEqual({ tweet_id_or_url: "20" });
+    expect(context.cacheStatus).toBeUndefined();
+    expect(cache.has("get_tweet")).toBe(false);
+  });
+});
+
+describe("tool calls with a shared ToolCache", () => {
+  async function connect(toolCache?: ToolCache, budget?: BudgetGuard) {
+    const grok = new GrokClient(API_KEY, { budget });
+    const create = vi.fn(async (request: { input: { content: string }[] }) => ({
+      output_text: JSON.stringify(request.input[0].content.includes("profile") ? PROFILE : TWEET),
+    }));
+    (grok as unknown as { openai: unknown }).openai = { responses: { create } };
+    const server = createServer(grok, { toolCache });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+    return { client, create };
+  }
+
+  it("advertises the cache argument and reports _meta.cache", async () => {
+    const { client, create } = await connect(new ToolCache());
+    const { tools } = await client.listTools();
+    expect(tools.find((t) => t.name === "get_tweet")?.inputSchema.properties).toHaveProperty("cache");
+    expect(tools.find((t) => t.name === "get_usage_stats")?.inputSchema.properties).not.toHaveProperty("cache");
+
+    const first = await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: "20" } });
+    const second = await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: "20" } });
+    expect(first._meta).toEqual({ cache: "miss" });
+    expect(second._meta).toEqual({ cache: "hit" });
+    expect(second.structuredContent).toEqual(first.structuredContent);
+    expect(create).toHaveBeenCalledOnce();
+    await client.close();
+  });
+
+  it("refreshes the profile cache behind get_user_profile", async () => {
+    const { client, create } = await connect(new ToolCache());
+    profileCache.set("jack", { ...PROFILE, display_name: "old" });
+    const refreshed = await client.callTool({
+      name: "get_user_profile",
+      arguments: { username: "jack", cache: "refresh" },
+    });
+    expect(refreshed.structuredContent).toMatchObject({ display_name: "jack" });
+    expect(profileCache.get("jack")?.display_name).toBe("jack");
+    expect(create).toHaveBeenCalledOnce();
+    await client.close();
+  });
+
+  it("caches a result downgraded by the soft spending ceiling under the input that ran", async () => {
+    const budget = new BudgetGuard({ dailyUsd: 1 });
+    const soft = vi.spyOn(budget, "softLimited", "get").mockReturnValue(true);
+    const { client, create } = await connect(new ToolCache(), budget);
+    create.mockImplementation(async () => ({ output_text: JSON.stringify({ tweets: [TWEET] }) }));
+    const call = () => client.callTool({ name: "get_user_tweets", arguments: { username: "jack", max_results: 50 } });
+
+    expect((await call())._meta).toEqual({ cache: "miss" });
+    expect(JSON.stringify(create.mock.calls[0])).toContain("up to 10 recent tweets");
+
+    // Once the budget allows it again, the full request is not served the capped result.
+    soft.mockReturnValue(false);
+    expect((await call())._meta).toEqual({ cache: "miss" });
+    expect(JSON.stringify(create.mock.calls[1])).toContain("up to 50 recent tweets");
+
+    // Soft-limited calls still share the downgraded entry.
+    soft.mockReturnValue(true);
+    expect((await call())._meta).toEqual({ cache: "hit" });
+    expect(create).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+
+  it("fetches a batch that failed again on the next call", async () => {
+    const { client, create } = await connect(new ToolCache());
+    create.mockRejectedValueOnce(new Error("Grok returned no text output."));
+    create.mockImplementation(async () => ({ output_text: JSON.stringify({ tweets: [TWEET] }) }));
+    const call = () => client.callTool({ name: "get_tweets", arguments: { tweet_ids_or_urls: ["20"] } });
+
+    const failed = await call();
+    expect(failed.structuredContent).toMatchObject({ errors: 1 });
+    const retried = await call();
+    expect(retried._meta).toEqual({ cache: "miss" });
+    expect(retried.structuredContent).toMatchObject({ found: 1, errors: 0 });
+    expect((await call())._meta).toEqual({ cache: "hit" });
+    expect(create).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+
+  it("caches nothing without a shared ToolCache", async () => {
+    const { client, create } = await connect();
+    await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: "20" } });
+    const second = await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: "20" } });
+    expect(second._meta).toBeUndefined();
+    expect(create).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { getTweet } from "../tools/get-tweet.js";
 import { getThread } from "../tools/get-thread.js";
@@ -12,6 +13,11 @@ import { analyzeThread } from "../tools/analyze-thread.js";
 import { extractLinks } from "../tools/extract-links.js";
 import { getUserMentions } from "../tools/get-user-mentions.js";
 import { getListTweets } from "../tools/get-list-tweets.js";
+import { getTweets } from "../tools/get-tweets.js";
+import { getUserProfiles } from "../tools/get-user-profiles.js";
+import { getQuoteTweets } from "../tools/get-quote-tweets.js";
+import { getConversationTree, GetConversationTreeOutput } from "../tools/get-conversation-tree.js";
+import { GrokCancelledError } from "../lib/errors.js";
 
 // Minimal tweet fixture
 const MOCK_TWEET = {
@@ -384,6 +390,13 @@ describe("getUserProfile", () => {
     expect((client.query as ReturnType<typeof vi.fn>).mock.calls).toHaveLength(1);
   });
 
+  it("shares the cache between spellings of a handle", async () => {
+    const client = mockClient(MOCK_PROFILE);
+    await getUserProfile(client, { username: "Jack" });
+    await getUserProfile(client, { username: "@jack" });
+    expect((client.query as ReturnType<typeof vi.fn>).mock.calls).toHaveLength(1);
+  });
+
   it("does not share cache between different usernames", async () => {
     const client = mockClient(MOCK_PROFILE);
     await getUserProfile(client, { username: "userone" });
@@ -986,3 +999,344 @@ describe("getUserMentions — cursor pagination", () => {
     expect(result.next_cursor).toBe("3000000000");
   });
 });
+
+// ─── get_tweets ───────────────────────────────────────────────────────────────
+describe("getTweets", () => {
+  /** Client answering each query with the requested IDs that are in `existing`. */
+  function batchClient(existing: string[], maxOutputTokens = 1000) {
+    const query = vi.fn(async (prompt: string) => ({
+      tweets: existing.filter((id) => prompt.includes(id)).map((id) => ({ ...MOCK_TWEET, id })),
+    }));
+    return {
+      query,
+      analyzeMedia: vi.fn().mockResolvedValue("A photo."),
+      querySettings: { max_output_tokens: maxOutputTokens },
+    } as unknown as GrokClient & { query: typeof query };
+  }
+
+  it("reports found and not_found per ID, in input order", async () => {
+    const client = batchClient(["111", "333"], 16384);
+    const result = await getTweets(client, {
+      tweet_ids_or_urls: ["https://x.com/a/status/111", "222", "333"],
+    });
+    expect(client.query).toHaveBeenCalledTimes(1);
+    expect(result.results.map((r) => [r.input, r.id, r.status])).toEqual([
+      ["https://x.com/a/status/111", "111", "found"],
+      ["222", "222", "not_found"],
+      ["333", "333", "found"],
+    ]);
+    expect(result.results[0].tweet?.id).toBe("111");
+    expect(result).toMatchObject({ found: 2, not_found: 1, errors: 0 });
+  });
+
+  it("batches IDs by the output token cap and de-duplicates them", async () => {
+    // 1000 tokens / 500 per tweet → 2 IDs per call.
+    const client = batchClient(["1", "2", "3", "4", "5"]);
+    const result = await getTweets(client, { tweet_ids_or_urls: ["1", "2", "3", "4", "5", "1"] });
+    expect(client.query).toHaveBeenCalledTimes(3);
+    expect(result.found).toBe(6);
+  });
+
+  it("reports invalid inputs as errors without querying them", async () => {
+    const client = batchClient(["111"]);
+    const result = await getTweets(client, { tweet_ids_or_urls: ["not-a-tweet", "111"] });
+    expect(result.results[0]).toMatchObject({ input: "not-a-tweet", status: "error" });
+    expect(result.results[0].error).toBeTruthy();
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops returned tweets whose ID was not requested", async () => {
+    const client = mockClient({ tweets: [{ ...MOCK_TWEET, id: "999" }] });
+    (client as unknown as { querySettings: unknown }).querySettings = { max_output_tokens: 16384 };
+    const result = await getTweets(client, { tweet_ids_or_urls: ["111"] });
+    expect(result.results[0].status).toBe("not_found");
+    expect(result.results[0].tweet).toBeUndefined();
+  });
+
+  it("marks every ID of a failed batch as error and continues", async () => {
+    const client = batchClient(["3"]);
+    client.query.mockRejectedValueOnce(new Error("Grok returned no text output."));
+    const result = await getTweets(client, { tweet_ids_or_urls: ["1", "2", "3"] });
+    expect(result.results.map((r) => r.status)).toEqual(["error", "error", "found"]);
+    expect(result.results[0].error).toBe("Grok returned no text output.");
+  });
+
+  it("retries IDs missing from a truncated batch in smaller batches", async () => {
+    const client = batchClient(["1", "2"], 2000);
+    client.query.mockResolvedValueOnce({ tweets: [{ ...MOCK_TWEET, id: "1" }], truncated: true } as never);
+    const result = await getTweets(client, { tweet_ids_or_urls: ["1", "2", "3"] });
+    expect(client.query).toHaveBeenCalledTimes(2);
+    const retryPrompt = client.query.mock.calls[1][0];
+    expect(retryPrompt).not.toContain("\n1\n");
+    expect(result.results.map((r) => r.status)).toEqual(["found", "found", "not_found"]);
+  });
+
+  it("rethrows cancellation instead of reporting it per ID", async () => {
+    const client = batchClient([]);
+    client.query.mockRejectedValueOnce(new GrokCancelledError());
+    await expect(getTweets(client, { tweet_ids_or_urls: ["1"] })).rejects.toThrow(GrokCancelledError);
+  });
+
+  it("enriches media when asked", async () => {
+    const client = mockClient({ tweets: [{ ...MOCK_TWEET_WITH_IMAGE, id: "111" }] }, "A photo.");
+    (client as unknown as { querySettings: unknown }).querySettings = { max_output_tokens: 16384 };
+    const result = await getTweets(client, { tweet_ids_or_urls: ["111"], enrich_media: true });
+    expect(result.results[0].tweet?.media?.[0].media_summary).toBe("A photo.");
+    expect(client.analyzeMedia).toHaveBeenCalledOnce();
+  });
+});
+
+// ─── get_user_profiles ────────────────────────────────────────────────────────
+describe("getUserProfiles", () => {
+  beforeEach(() => { profileCache.clear(); });
+
+  /** Client answering each query with the requested handles that are in `existing`. */
+  function batchClient(existing: string[], suspended: string[] = [], maxOutputTokens = 16384) {
+    const query = vi.fn(async (_prompt: string, _schema: unknown, _name: string, params: { allowed_x_handles: string[] }) => ({
+      profiles: existing
+        .filter((u) => params.allowed_x_handles.some((h) => h.toLowerCase() === u.toLowerCase()))
+        .map((username) => ({ ...MOCK_PROFILE, username })),
+      unavailable: suspended
+        .filter((u) => params.allowed_x_handles.includes(u))
+        .map((username) => ({ username, reason: "suspended" })),
+    }));
+    return {
+      query,
+      querySettings: { max_output_tokens: maxOutputTokens },
+    } as unknown as GrokClient & { query: typeof query };
+  }
+
+  it("returns a profile or an error per username", async () => {
+    const client = batchClient(["alice"], ["spammer"]);
+    const result = await getUserProfiles(client, { usernames: ["@alice", "spammer", "ghost"] });
+    expect(client.query).toHaveBeenCalledOnce();
+    expect(result.profiles.alice.profile?.username).toBe("alice");
+    expect(result.profiles.spammer).toEqual({ error: "Account suspended." });
+    expect(result.profiles.ghost).toEqual({ error: "Account not found." });
+    expect(result).toMatchObject({ found: 1, errors: 2, cache_hits: 0 });
+  });
+
+  it("serves cached profiles and fetches only the misses", async () => {
+    profileCache.set("alice", { ...MOCK_PROFILE, username: "alice" });
+    const client = batchClient(["bob"]);
+    const result = await getUserProfiles(client, { usernames: ["alice", "bob"] });
+    expect(client.query.mock.calls[0][3]).toEqual({ allowed_x_handles: ["bob"] });
+    expect(result.profiles.alice.cached).toBe(true);
+    expect(result.cache_hits).toBe(1);
+    expect(profileCache.get("bob")?.username).toBe("bob");
+  });
+
+  it("makes no call when every profile is cached", async () => {
+    profileCache.set("alice", { ...MOCK_PROFILE, username: "alice" });
+    const client = batchClient([]);
+    const result = await getUserProfiles(client, { usernames: ["alice"] });
+    expect(client.query).not.toHaveBeenCalled();
+    expect(result.found).toBe(1);
+  });
+
+  it("batches misses by the handle limit and the output token cap", async () => {
+    const names = Array.from({ length: 25 }, (_, i) => `user${i}`);
+    // 10 handles per x_search call at most.
+    const client = batchClient(names);
+    await getUserProfiles(client, { usernames: names });
+    expect(client.query.mock.calls.map((c) => c[3].allowed_x_handles.length)).toEqual([10, 10, 5]);
+
+    profileCache.clear();
+    // 4000 tokens / 800 per profile → 5 handles per call.
+    const small = batchClient(names, [], 4000);
+    await getUserProfiles(small, { usernames: names.slice(0, 10) });
+    expect(small.query).toHaveBeenCalledTimes(2);
+  });
+
+  it("matches handles case-insensitively and looks each up once", async () => {
+    const client = batchClient(["Alice"]);
+    const result = await getUserProfiles(client, { usernames: ["alice", "ALICE"] });
+    expect(client.query.mock.calls[0][3]).toEqual({ allowed_x_handles: ["alice"] });
+    expect(result.profiles.ALICE.profile?.username).toBe("Alice");
+    expect(result.found).toBe(2);
+  });
+
+  it("shares profileCache entries between spellings of a handle", async () => {
+    const client = batchClient(["Jack"]);
+    await getUserProfiles(client, { usernames: ["Jack"] });
+    expect(profileCache.get("jack")?.username).toBe("Jack");
+
+    const again = await getUserProfiles(client, { usernames: ["@jack"] });
+    expect(client.query).toHaveBeenCalledOnce();
+    expect(again.profiles.jack.cached).toBe(true);
+  });
+
+  it("drops returned profiles that were not requested", async () => {
+    const client = mockClient({ profiles: [{ ...MOCK_PROFILE, username: "impostor" }] });
+    (client as unknown as { querySettings: unknown }).querySettings = { max_output_tokens: 16384 };
+    const result = await getUserProfiles(client, { usernames: ["alice"] });
+    expect(result.profiles.alice).toEqual({ error: "Account not found." });
+    expect(profileCache.get("impostor")).toBeUndefined();
+  });
+
+  it("reports a failed batch per username and rethrows cancellation", async () => {
+    const client = batchClient(["bob"], [], 800);
+    client.query.mockRejectedValueOnce(new Error("Grok returned no text output."));
+    const result = await getUserProfiles(client, { usernames: ["alice", "bob"] });
+    expect(result.profiles.alice).toEqual({ error: "Grok returned no text output." });
+    expect(result.profiles.bob.profile?.username).toBe("bob");
+
+    client.query.mockRejectedValueOnce(new GrokCancelledError());
+    await expect(getUserProfiles(client, { usernames: ["carol"] })).rejects.toThrow(GrokCancelledError);
+  });
+});
+
+// ─── get_quote_tweets ─────────────────────────────────────────────────────────
+describe("getQuoteTweets", () => {
+  const TARGET = "1000";
+  const QUOTED = { ...MOCK_TWEET, id: TARGET, url: `https://x.com/testuser/status/${TARGET}` };
+
+  function quote(id: string, quotedId = TARGET) {
+    return { ...MOCK_TWEET, id, quoted_tweet: { ...QUOTED, id: quotedId } };
+  }
+
+  it("returns quote tweets with next_cursor", async () => {
+    const client = mockClient({ tweets: [quote("3000"), quote("2000")] });
+    const result = await getQuoteTweets(client, { tweet_id_or_url: `https://x.com/a/status/${TARGET}` });
+    expect(result.tweets.map((t) => t.id)).toEqual(["3000", "2000"]);
+    expect(result.next_cursor).toBe("2000");
+    const prompt = (client.query as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+    expect(prompt).toContain(`quote tweets of tweet ID ${TARGET}`);
+  });
+
+  it("drops tweets whose quoted_tweet is not the target", async () => {
+    const client = mockClient({
+      tweets: [quote("3000"), quote("2500", "999"), { ...MOCK_TWEET, id: "2400" }, quote(TARGET), quote("2000", ` ${TARGET} `)],
+    });
+    const result = await getQuoteTweets(client, { tweet_id_or_url: TARGET });
+    expect(result.tweets.map((t) => t.id)).toEqual(["3000", "2000"]);
+  });
+
+  it("sorts by engagement by default and by recency on request", async () => {
+    const client = mockClient({ tweets: [] });
+    await getQuoteTweets(client, { tweet_id_or_url: TARGET });
+    await getQuoteTweets(client, { tweet_id_or_url: TARGET, sort_by: "recency" });
+    const [engagement, recency] = (client.query as ReturnType<typeof vi.fn>).mock.calls.map((c) => c[0] as string);
+    expect(engagement).toContain("Sort by engagement");
+    expect(recency).toContain("Sort by most recent first");
+  });
+
+  it("passes the date range to x_search and the cursor to the prompt", async () => {
+    const client = mockClient({ tweets: [] });
+    const result = await getQuoteTweets(client, {
+      tweet_id_or_url: TARGET,
+      from_date: "2025-03-01",
+      to_date: "2025-03-31",
+      cursor: "5000",
+    });
+    const [prompt, , , xSearchParams] = (client.query as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(xSearchParams).toEqual({ from_date: "2025-03-01", to_date: "2025-03-31" });
+    expect(prompt).toContain("strictly less than 5000");
+    expect(result.next_cursor).toBeUndefined();
+  });
+
+  it("enriches media when asked", async () => {
+    const client = mockClient(
+      { tweets: [{ ...MOCK_TWEET_WITH_IMAGE, id: "3000", quoted_tweet: QUOTED }] },
+      "A chart."
+    );
+    const result = await getQuoteTweets(client, { tweet_id_or_url: TARGET, enrich_media: true });
+    expect(result.tweets[0].media?.[0].media_summary).toBe("A chart.");
+    expect(client.analyzeMedia).toHaveBeenCalledOnce();
+  });
+});
+
+// ─── get_conversation_tree ────────────────────────────────────────────────────
+describe("getConversationTree", () => {
+  /** Lean thread tweet replying to `parent`, with `likes` likes. */
+  function reply(id: string, parent: string | undefined, likes = 0) {
+    return {
+      id,
+      url: `https://x.com/testuser/status/${id}`,
+      author: { username: "testuser", display_name: "Test User", verified: false },
+      text: `tweet ${id}`,
+      created_at: "2025-01-01T00:00:00Z",
+      metrics: { likes, retweets: 0, replies: 0 },
+      in_reply_to: parent ? { tweet_id: parent, username: "testuser" } : null,
+    };
+  }
+
+  it("nests replies under their parents, most engaged first", async () => {
+    const client = mockClient({
+      tweets: [reply("1", undefined, 100), reply("2", "1", 5), reply("3", "1", 50), reply("4", "3", 7)],
+    });
+    const result = await getConversationTree(client, { tweet_id_or_url: "https://x.com/a/status/1" });
+    expect(result.root.tweet.id).toBe("1");
+    expect(result.root.depth).toBe(0);
+    expect(result.root.replies.map((n) => n.tweet.id)).toEqual(["3", "2"]);
+    expect(result.root.replies[0].replies[0]).toMatchObject({ depth: 2, tweet: { id: "4" } });
+    expect(result.orphans).toEqual([]);
+    expect(result.total_tweets).toBe(4);
+  });
+
+  it("reports engagement totals per branch", async () => {
+    const client = mockClient({
+      tweets: [reply("1", undefined, 100), reply("2", "1", 5), reply("3", "1", 50), reply("4", "3", 7)],
+    });
+    const result = await getConversationTree(client, { tweet_id_or_url: "1" });
+    expect(result.root.replies[0].branch_engagement).toEqual({ tweets: 2, likes: 57, retweets: 0, replies: 0 });
+    expect(result.root.branch_engagement).toMatchObject({ tweets: 4, likes: 162 });
+  });
+
+  it("applies max_breadth and max_depth, counting omitted replies", async () => {
+    const client = mockClient({
+      tweets: [reply("1", undefined), reply("2", "1", 3), reply("3", "1", 2), reply("4", "1", 1), reply("5", "2")],
+    });
+    const result = await getConversationTree(client, { tweet_id_or_url: "1", max_depth: 1, max_breadth: 2 });
+    expect(result.root.replies.map((n) => n.tweet.id)).toEqual(["2", "3"]);
+    expect(result.root.omitted_replies).toBe(1);
+    expect(result.root.replies[0]).toMatchObject({ replies: [], omitted_replies: 1 });
+    expect(result.total_tweets).toBe(3);
+    const prompt = (client.query as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+    expect(prompt).toContain("at most 3 tweets total");
+  });
+
+  it("flags replies whose parent is missing as orphans", async () => {
+    const client = mockClient({
+      tweets: [reply("1", undefined), reply("2", "1"), reply("9", "8", 4), reply("10", "9"), reply("11", undefined)],
+    });
+    const result = await getConversationTree(client, { tweet_id_or_url: "1" });
+    expect(result.orphans.map((n) => [n.tweet.id, n.orphan, n.depth])).toEqual([
+      ["9", true, undefined],
+      ["11", true, undefined],
+    ]);
+    expect(result.orphans[0].replies[0].tweet.id).toBe("10");
+    expect(result.total_tweets).toBe(5);
+  });
+
+  it("visits each tweet once when replies form a cycle", async () => {
+    const client = mockClient({ tweets: [reply("1", "3"), reply("2", "1"), reply("3", "2")] });
+    const result = await getConversationTree(client, { tweet_id_or_url: "1" });
+    expect(result.root.replies[0].replies[0].tweet.id).toBe("3");
+    expect(result.root.replies[0].replies[0].replies).toEqual([]);
+    expect(result.total_tweets).toBe(3);
+  });
+
+  it("lists replies caught in a cycle away from the root as orphans", async () => {
+    const client = mockClient({
+      tweets: [reply("1", undefined), reply("2", "1"), reply("7", "8", 1), reply("8", "7", 3), reply("9", "8")],
+    });
+    const result = await getConversationTree(client, { tweet_id_or_url: "1" });
+    expect(result.orphans.map((n) => [n.tweet.id, n.orphan])).toEqual([["8", true]]);
+    expect(result.orphans[0].replies.map((n) => n.tweet.id).sort()).toEqual(["7", "9"]);
+    expect(result.total_tweets).toBe(5);
+  });
+
+  it("fits a tree of the maximum depth into the output schema, which has no self-references", async () => {
+    const chain = Array.from({ length: 8 }, (_, i) => reply(String(i + 1), i === 0 ? undefined : String(i)));
+    const client = mockClient({ tweets: chain });
+    const result = await getConversationTree(client, { tweet_id_or_url: "1", max_depth: 6 });
+    expect(GetConversationTreeOutput.safeParse(result).success).toBe(true);
+    expect(JSON.stringify(z.toJSONSchema(GetConversationTreeOutput))).not.toMatch(/\$ref|\$defs/);
+  });
+
+  it("throws when the root tweet is not returned", async () => {
+    const client = mockClient({ tweets: [reply("2", "1")] });
+    await expect(getConversationTree(client, { tweet_id_or_url: "1" })).rejects.toThrow("Tweet not found");
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { GrokClient } from "../lib/grok-client.js";
+import { UsageTracker, emptyUsage, addUsage } from "../lib/usage.js";
+import { runWithRequestContext } from "../lib/request-context.js";
+import { getUsageStats } from "../tools/get-usage-stats.js";
+import { TweetSchema } from "../schemas/tweet.js";
+import { createServer } from "../server.js";
+
+const API_KEY = "xai-" + "a".repeat(40);
+
+const CALL = { input_tokens: 100, output_tokens: 20, reasoning_tokens: 5, sources: 3 };
+
+const MOCK_TWEET = {
+  id: "1234567890",
+  url: "https://x.com/testuser/status/1234567890",
+  author: { username: "testuser", display_name: "Test User", verified: false },
+  text: "Hello world",
+  created_at: "2025-01-01T00:00:00Z",
+  metrics: { likes: 10, retweets: 2, replies: 1 },
+  is_retweet: false,
+};
+
+/**
+ * Real GrokClient with the OpenAI transport stubbed out, so the usage
+ * extraction code in query() / analyzeMedia() runs against canned responses.
+ */
+function stubbedClient(tracker = new UsageTracker()) {
+  const client = new GrokClient(API_KEY, { usageTracker: tracker });
+  const responsesCreate = vi.fn().mockResolvedValue({
+    output_text: JSON.stringify(MOCK_TWEET),
+    usage: {
+      input_tokens: 1200,
+      output_tokens: 300,
+      output_tokens_details: { reasoning_tokens: 40 },
+      num_sources_used: 7,
+    },
+  });
+  const chatCreate = vi.fn().mockResolvedValue({
+    choices: [{ message: { content: "A sunset" } }],
+    usage: { prompt_tokens: 800, completion_tokens: 50 },
+  });
+  (client as unknown as { openai: unknown }).openai = {
+    responses: { create: responsesCreate },
+    chat: { completions: { create: chatCreate } },
+  };
+  return { client, tracker };
+}
+
+describe("UsageTracker", () => {
+  it("starts with zero totals", () => {
+    const snapshot = new UsageTracker().snapshot();
+    expect(snapshot.totals).toEqual(emptyUsage());
+    expect(snapshot.by_tool).toEqual({});
+  });
+
+  it("accumulates totals overall and per tool", () => {
+    const tracker = new UsageTracker();
+    tracker.record("get_tweet", CALL);
+    tracker.record("get_tweet", CALL);
+    tracker.record("analyze_sentiment", CALL);
+
+    const { totals, by_tool } = tracker.snapshot();
+    expect(totals).toEqual({ calls: 3, input_tokens: 300, output_tokens: 60, reasoning_tokens: 15, sources: 9 });
+    expect(by_tool.get_tweet.calls).toBe(2);
+    expect(by_tool.analyze_sentiment.input_tokens).toBe(100);
+  });
+
+  it("snapshot is a copy, not a live view", () => {
+    const tracker = new UsageTracker();
+    tracker.record("get_tweet", CALL);
+    const snapshot = tracker.snapshot();
+    tracker.record("get_tweet", CALL);
+    expect(snapshot.totals.calls).toBe(1);
+    expect(snapshot.by_tool.get_tweet.calls).toBe(1);
+  });
+
+  it("reset() zeroes counters and restarts the window", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    const tracker = new UsageTracker();
+    tracker.record("get_tweet", CALL);
+    vi.setSystemTime(new Date("2025-01-02T00:00:00Z"));
+    tracker.reset();
+
+    const snapshot = tracker.snapshot();
+    expect(snapshot.totals).toEqual(emptyUsage());
+    expect(snapshot.by_tool).toEqual({});
+    expect(snapshot.since).toBe("2025-01-02T00:00:00.000Z");
+    vi.useRealTimers();
+  });
+
+  it("addUsage() counts one call", () => {
+    const totals = emptyUsage();
+    addUsage(totals, CALL);
+    expect(totals.calls).toBe(1);
+    expect(totals.sources).toBe(3);
+  });
+});
+
+describe("GrokClient — usage recording", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("records responses usage including reasoning tokens and sources", async () => {
+    const { client, tracker } = stubbedClient();
+    await runWithRequestContext({ tool: "get_tweet" }, () =>
+      client.query("prompt", TweetSchema, "tweet")
+    );
+    expect(tracker.snapshot().by_tool.get_tweet).toEqual({
+      calls: 1,
+      input_tokens: 1200,
+      output_tokens: 300,
+      reasoning_tokens: 40,
+      sources: 7,
+    });
+  });
+
+  it("records vision usage from analyzeMedia", async () => {
+    const { client, tracker } = stubbedClient();
+    await runWithRequestContext({ tool: "get_tweet" }, () =>
+      client.analyzeMedia("https://pbs.twimg.com/media/a.jpg", "image")
+    );
+    const usage = tracker.snapshot().by_tool.get_tweet;
+    expect(usage.input_tokens).toBe(800);
+    expect(usage.output_tokens).toBe(50);
+    expect(usage.sources).toBe(0);
+  });
+
+  it("attributes calls outside a tool to 'unknown'", async () => {
+    const { client, tracker } = stubbedClient();
+    await client.analyzeMedia("https://pbs.twimg.com/media/a.jpg", "image");
+    expect(tracker.snapshot().by_tool.unknown.calls).toBe(1);
+  });
+
+  it("adds usage to the per-call accumulator in the request context", async () => {
+    const { client } = stubbedClient();
+    const usage = emptyUsage();
+    await runWithRequestContext({ tool: "get_tweet", usage }, async () => {
+      await client.analyzeMedia("https://pbs.twimg.com/media/a.jpg", "image");
+      await client.analyzeMedia("https://pbs.twimg.com/media/b.jpg", "image");
+    });
+    expect(usage.calls).toBe(2);
+    expect(usage.input_tokens).toBe(1600);
+  });
+});
+
+describe("getUsageStats", () => {
+  it("returns the client's running totals", async () => {
+    const tracker = new UsageTracker();
+    tracker.record("search_tweets", CALL);
+    const client = new GrokClient(API_KEY, { usageTracker: tracker });
+    const result = await getUsageStats(client, {});
+    expect(result.by_tool.search_tweets.input_tokens).toBe(100);
+  });
+
+  it("resets the counters after reading when reset is true", async () => {
+    const tracker = new UsageTracker();
+    tracker.record("search_tweets", CALL);
+    const client = new GrokClient(API_KEY, { usageTracker: tracker });
+    const result = await getUsageStats(client, { reset: true });
+    expect(result.totals.calls).toBe(1);
+    expect(tracker.snapshot().totals.calls).toBe(0);
+  });
+});
+
+describe("createServer — _meta.usage", () => {
+  async function connect(includeUsageMeta: boolean) {
+    const { client: grok, tracker } = stubbedClient();
+    const server = createServer(grok, { includeUsageMeta });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+    return { client, tracker };
+  }
+
+  it("attaches the call's usage when enabled", async () => {
+    const { client, tracker } = await connect(true);
+    const result = await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: "1234567890" } });
+    expect(result._meta?.usage).toEqual({
+      calls: 1,
+      input_tokens: 1200,
+      output_tokens: 300,
+      reasoning_tokens: 40,
+      sources: 7,
+    });
+    expect(tracker.snapshot().by_tool.get_tweet.calls).toBe(1);
+    await client.close();
+  });
+
+  it("omits _meta when disabled", async () => {
+    const { client } = await connect(false);
+    const result = await client.callTool({ name: "get_tweet", arguments: { tweet_id_or_url: "1234567890" } });
+    expect(result._meta).toBeUndefined();
+    await client.close();
+  });
+});
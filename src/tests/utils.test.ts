@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { extractTweetId, sanitizeUsername, escapeForPrompt, extractListId, computeNextCursor } from "../lib/utils.js";
+import {
+  extractTweetId,
+  sanitizeUsername,
+  escapeForPrompt,
+  extractListId,
+  computeNextCursor,
+  computeHighWaterMark,
+  chunk,
+} from "../lib/utils.js";
 
 describe("extractTweetId", () => {
   it("returns raw ID unchanged", () => {
@@ -93,6 +101,23 @@ describe("computeNextCursor", () => {
   });
 });
 
+describe("computeHighWaterMark", () => {
+  it("returns undefined for an empty array", () => {
+    expect(computeHighWaterMark([])).toBeUndefined();
+  });
+
+  it("returns the largest (newest) ID via BigInt comparison", () => {
+    const tweets = [{ id: "1585841080431321087" }, { id: "1585841080431321089" }, { id: "1585841080431321088" }];
+    expect(computeHighWaterMark(tweets)).toBe("1585841080431321089");
+  });
+
+  it("ignores non-numeric IDs", () => {
+    expect(computeHighWaterMark([{ id: "100" }, { id: "abc" }, { id: "200" }])).toBe("200");
+    expect(computeHighWaterMark([{ id: "abc" }, { id: "100" }])).toBe("100");
+    expect(computeHighWaterMark([{ id: "12ab" }, { id: "" }])).toBeUndefined();
+  });
+});
+
 describe("escapeForPrompt", () => {
   it("replaces < with ‹", () => {
     expect(escapeForPrompt("a < b")).toBe("a \u2039 b");
@@ -116,3 +141,13 @@ describe("escapeForPrompt", () => {
     expect(escapeForPrompt("  hello world  ")).toBe("hello world");
   });
 });
+
+describe("chunk", () => {
+  it("splits into slices of the given size, keeping order", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it("returns no slices for an empty array", () => {
+    expect(chunk([], 3)).toEqual([]);
+  });
+});
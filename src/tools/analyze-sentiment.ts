@@ -27,6 +27,7 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { SentimentAnalysisSchema } from "../schemas/sentiment.js";
+import { withResultMeta } from "../schemas/result.js";
 import { escapeForPrompt, sanitizeUsername } from "../lib/utils.js";
 
 /** MCP input schema for the analyze_sentiment tool. */
@@ -69,6 +70,9 @@ export const AnalyzeSentimentInput = z.object({
     .describe("Filter by language code (e.g. 'fr', 'en')"),
 });
 
+/** MCP output schema for the analyze_sentiment tool. */
+export const AnalyzeSentimentOutput = withResultMeta(SentimentAnalysisSchema);
+
 /**
  * Fetch tweets matching a query and analyze their collective sentiment via Grok.
  *
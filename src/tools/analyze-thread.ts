@@ -24,6 +24,7 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { ThreadAnalysisSchema } from "../schemas/thread-analysis.js";
+import { withResultMeta } from "../schemas/result.js";
 import { extractTweetId } from "../lib/utils.js";
 
 /** MCP input schema for the analyze_thread tool. */
@@ -41,6 +42,9 @@ export const AnalyzeThreadInput = z.object({
     .describe("Maximum number of thread tweets to include in the analysis (default: 20)"),
 });
 
+/** MCP output schema for the analyze_thread tool. */
+export const AnalyzeThreadOutput = withResultMeta(ThreadAnalysisSchema);
+
 /**
  * Retrieve a thread and analyze its content and tone via Grok.
  *
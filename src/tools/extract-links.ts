@@ -24,6 +24,7 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { LinkExtractSchema } from "../schemas/link-extract.js";
+import { withResultMeta } from "../schemas/result.js";
 import { sanitizeUsername } from "../lib/utils.js";
 
 /** MCP input schema for the extract_links tool. */
@@ -55,6 +56,9 @@ export const ExtractLinksInput = z.object({
     .describe("End date in YYYY-MM-DD format"),
 });
 
+/** MCP output schema for the extract_links tool. */
+export const ExtractLinksOutput = withResultMeta(LinkExtractSchema);
+
 /**
  * Scan a user's recent tweets and extract all shared external links via Grok.
  *
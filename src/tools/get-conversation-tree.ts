@@ -0,0 +1,265 @@
+/**
+ * Tool: get_conversation_tree
+ *
+ * Builds the nested reply tree under a tweet — replies, replies to those
+ * replies, and so on — so you can see which sub-discussions took off under
+ * a viral post. get_thread follows a single chain and get_tweet_replies is
+ * one level deep; this tool keeps the branching.
+ *
+ * Returns:
+ *   root    — the requested tweet as a tree node; each node carries its
+ *             depth, its shown replies (nested nodes), the number of
+ *             fetched replies left out by the breadth / depth limits, and
+ *             branch_engagement: likes, retweets, replies and tweet count
+ *             summed over the node and every reply shown below it
+ *   orphans — replies whose parent was not returned (or that name no
+ *             parent), each with its own subtree and `orphan: true`
+ *
+ * Input:
+ *   tweet_id_or_url — the tweet at the top of the tree (ID or full URL)
+ *   max_depth       — reply levels below the root (1–6, default 3)
+ *   max_breadth     — replies kept per tweet, most engaged first (1–20, default 5)
+ *
+ * Implementation notes:
+ *   One x_search call returns the conversation as a flat list of lean
+ *   tweets (ThreadSchema, at most MAX_TREE_TWEETS); the tree is assembled
+ *   locally by linking each tweet to its parent through
+ *   `in_reply_to.tweet_id`. Siblings are ordered by engagement
+ *   (likes + retweets + replies). Reply cycles are broken by visiting each
+ *   tweet once. The node schema is nested MAX_TREE_DEPTH levels deep rather
+ *   than recursive, which CONTRIBUTING rules out for every schema.
+ *
+ * Errors thrown:
+ *   - Tweet not found (Grok did not return the requested tweet)
+ */
+
+import { z } from "zod";
+import type { GrokClient } from "../lib/grok-client.js";
+import { ThreadSchema, ThreadTweetSchema } from "../schemas/tweet.js";
+import { withResultMeta } from "../schemas/result.js";
+import { extractTweetId } from "../lib/utils.js";
+
+type ThreadTweet = z.infer<typeof ThreadTweetSchema>;
+
+/** Upper bound on tweets requested for one tree (keeps the lean list within the output cap). */
+const MAX_TREE_TWEETS = 100;
+
+/** Upper bound on `max_depth`: reply levels below the root, and the nesting of ConversationNodeSchema. */
+const MAX_TREE_DEPTH = 6;
+
+/** MCP input schema for the get_conversation_tree tool. */
+export const GetConversationTreeInput = z.object({
+  tweet_id_or_url: z
+    .string()
+    .describe("ID or URL of the tweet at the top of the tree (e.g. a viral post)"),
+  max_depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_TREE_DEPTH)
+    .default(3)
+    .optional()
+    .describe("Reply levels to include below the root tweet (default: 3)"),
+  max_breadth: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .default(5)
+    .optional()
+    .describe("Replies kept per tweet, most engaged first (default: 5)"),
+});
+
+/** Engagement summed over a node and every reply shown below it. */
+export const BranchEngagementSchema = z.object({
+  tweets: z.number().int(),
+  likes: z.number(),
+  retweets: z.number(),
+  replies: z.number(),
+});
+
+/** One tweet of the tree with its shown replies. */
+export interface ConversationNode {
+  tweet: ThreadTweet;
+  depth?: number | null;
+  orphan?: boolean | null;
+  omitted_replies: number;
+  branch_engagement: z.infer<typeof BranchEngagementSchema>;
+  replies: ConversationNode[];
+}
+
+/**
+ * Schema of a node whose replies nest `levels` more levels (none below the
+ * last). Built to a fixed depth instead of recursively, so the JSON schema
+ * stays free of self-references.
+ */
+function conversationNodeSchema(levels: number): z.ZodType<ConversationNode> {
+  return z.object({
+    tweet: ThreadTweetSchema,
+    depth: z
+      .number()
+      .int()
+      .nullish()
+      .describe("Reply levels below the root (0 for the root); absent in orphan subtrees"),
+    orphan: z
+      .boolean()
+      .nullish()
+      .describe("True when the tweet is cut off from the root: its parent was not returned, or its reply chain loops"),
+    omitted_replies: z
+      .number()
+      .int()
+      .describe("Fetched replies to this tweet left out by max_breadth / max_depth"),
+    branch_engagement: BranchEngagementSchema,
+    replies: levels > 0 ? z.array(conversationNodeSchema(levels - 1)) : z.array(z.never()).max(0),
+  });
+}
+
+/** A tree node: the root nests at most MAX_TREE_DEPTH levels of replies. */
+export const ConversationNodeSchema = conversationNodeSchema(MAX_TREE_DEPTH);
+
+/** MCP output schema for the get_conversation_tree tool. */
+export const GetConversationTreeOutput = withResultMeta(
+  z.object({
+    root: ConversationNodeSchema,
+    orphans: z
+      .array(ConversationNodeSchema)
+      .describe("Replies whose parent is missing or whose reply chain loops, most engaged first"),
+    total_tweets: z.number().int().describe("Tweets placed in the tree, orphans included"),
+  })
+);
+
+function engagement(tweet: ThreadTweet): number {
+  return tweet.metrics.likes + tweet.metrics.retweets + tweet.metrics.replies;
+}
+
+/** Most engaged first. */
+function byEngagement(a: ThreadTweet, b: ThreadTweet): number {
+  return engagement(b) - engagement(a);
+}
+
+/**
+ * Fetch the reply tree under a tweet via Grok.
+ *
+ * @param client  Shared GrokClient instance.
+ * @param input   Validated input matching GetConversationTreeInput.
+ * @returns       The root node with nested replies, plus orphaned subtrees.
+ * @throws        If Grok does not return the requested tweet.
+ */
+export async function getConversationTree(
+  client: GrokClient,
+  input: z.infer<typeof GetConversationTreeInput>
+) {
+  const tweetId = extractTweetId(input.tweet_id_or_url);
+  const maxDepth = input.max_depth ?? 3;
+  const maxBreadth = input.max_breadth ?? 5;
+
+  // A full tree has 1 + b + b² + … + b^depth tweets; never ask for more.
+  let fullTree = 1;
+  for (let level = 1, width = 1; level <= maxDepth && fullTree < MAX_TREE_TWEETS; level++) {
+    width *= maxBreadth;
+    fullTree += width;
+  }
+  const maxTweets = Math.min(fullTree, MAX_TREE_TWEETS);
+
+  const prompt = `Retrieve the reply tree of the conversation under tweet ID ${tweetId} on Twitter/X.
+Steps:
+1. Find tweet ID ${tweetId} (the root of the tree).
+2. Collect its replies, then the replies to those replies, down to ${maxDepth} levels below the root.
+3. For each tweet keep at most ${maxBreadth} replies, the most engaged (likes, retweets, replies) first.
+4. Return at most ${maxTweets} tweets total, including tweet ID ${tweetId}; prefer the most engaged branches.
+
+Return as a JSON object with a "tweets" array (flat list, root first).
+For each tweet include: id, url, author (username, display_name, verified), text (max 300 chars, truncate if longer),
+created_at, metrics (likes, retweets, replies), and in_reply_to (tweet_id and username of the parent tweet) for every reply.
+Do NOT fabricate tweets.`;
+
+  // `meta` keeps the truncated / repair fields GrokClient may add.
+  const { tweets: flat, ...meta } = await client.query(prompt, ThreadSchema, "thread");
+
+  // Index tweets by ID (first occurrence wins) and group replies by parent.
+  // .trim() guards against Grok returning IDs with a stray whitespace character.
+  const tweets = new Map<string, ThreadTweet>();
+  for (const tweet of flat) {
+    const id = tweet.id.trim();
+    if (!tweets.has(id)) tweets.set(id, { ...tweet, id });
+  }
+  const root = tweets.get(tweetId);
+  if (!root) {
+    throw new Error(`Tweet not found: ID "${tweetId}" does not exist, is private, or has been deleted.`);
+  }
+
+  const children = new Map<string, ThreadTweet[]>();
+  const orphanTweets: ThreadTweet[] = [];
+  for (const [id, tweet] of tweets) {
+    if (id === tweetId) continue;
+    const parent = tweet.in_reply_to?.tweet_id?.trim();
+    if (parent && parent !== id && tweets.has(parent)) {
+      children.set(parent, [...(children.get(parent) ?? []), tweet]);
+    } else {
+      orphanTweets.push(tweet);
+    }
+  }
+
+  // Tweets whose parent chain loops without reaching the root or an orphan
+  // (A replies to B, B replies to A) would otherwise vanish: the most engaged
+  // tweet of each loop becomes an orphan too, and the rest of the loop hangs below it.
+  const reached = new Set<string>();
+  const reach = (id: string) => {
+    const stack = [id];
+    for (let next = stack.pop(); next !== undefined; next = stack.pop()) {
+      if (reached.has(next)) continue;
+      reached.add(next);
+      for (const kid of children.get(next) ?? []) stack.push(kid.id);
+    }
+  };
+  reach(tweetId);
+  for (const tweet of orphanTweets) reach(tweet.id);
+  for (const tweet of [...tweets.values()].sort(byEngagement)) {
+    if (reached.has(tweet.id)) continue;
+    reach(tweet.id);
+    orphanTweets.push(tweet);
+  }
+
+  const visited = new Set<string>();
+  const build = (tweet: ThreadTweet, depth: number | undefined, levelsLeft: number): ConversationNode => {
+    visited.add(tweet.id);
+    const kids = (children.get(tweet.id) ?? []).filter((kid) => !visited.has(kid.id)).sort(byEngagement);
+    const shown = levelsLeft > 0 ? kids.slice(0, maxBreadth) : [];
+    // Claim the shown replies before descending so a cycle cannot revisit them.
+    for (const kid of shown) visited.add(kid.id);
+    const replies = shown.map((kid) =>
+      build(kid, depth === undefined ? undefined : depth + 1, levelsLeft - 1)
+    );
+
+    const branch_engagement = {
+      tweets: 1,
+      likes: tweet.metrics.likes,
+      retweets: tweet.metrics.retweets,
+      replies: tweet.metrics.replies,
+    };
+    for (const reply of replies) {
+      branch_engagement.tweets += reply.branch_engagement.tweets;
+      branch_engagement.likes += reply.branch_engagement.likes;
+      branch_engagement.retweets += reply.branch_engagement.retweets;
+      branch_engagement.replies += reply.branch_engagement.replies;
+    }
+    return {
+      tweet,
+      ...(depth !== undefined && { depth }),
+      omitted_replies: kids.length - shown.length,
+      branch_engagement,
+      replies,
+    };
+  };
+
+  const rootNode = build(root, 0, maxDepth);
+  // An orphan is at least one level below the root, so its subtree gets one level less.
+  const orphans = orphanTweets
+    .sort(byEngagement)
+    .filter((tweet) => !visited.has(tweet.id))
+    .map((tweet) => ({ ...build(tweet, undefined, maxDepth - 1), orphan: true }));
+
+  const total_tweets =
+    rootNode.branch_engagement.tweets + orphans.reduce((n, node) => n + node.branch_engagement.tweets, 0);
+  return { ...meta, root: rootNode, orphans, total_tweets };
+}
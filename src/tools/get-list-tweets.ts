@@ -23,7 +23,14 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { TweetArraySchema } from "../schemas/tweet.js";
+import { withResultMeta, NextCursorSchema } from "../schemas/result.js";
 import { extractListId, computeNextCursor } from "../lib/utils.js";
+import { enrichMedia } from "../lib/media-enrichment.js";
+import { RecentValues } from "../lib/recent-values.js";
+
+// Lists queried recently, offered as completions for list ID arguments.
+// Exported so test suites can call recentListIds.clear() between tests.
+export const recentListIds = new RecentValues(100);
 
 /** MCP input schema for the get_list_tweets tool. */
 export const GetListTweetsInput = z.object({
@@ -65,6 +72,9 @@ export const GetListTweetsInput = z.object({
     ),
 });
 
+/** MCP output schema for the get_list_tweets tool. */
+export const GetListTweetsOutput = withResultMeta(TweetArraySchema).extend({ next_cursor: NextCursorSchema });
+
 /**
  * Fetch recent tweets from a Twitter/X list via Grok.
  *
@@ -99,24 +109,11 @@ Sort by most recent first.`;
     from_date: input.from_date,
     to_date: input.to_date,
   });
+  recentListIds.add(listId);
 
-  // Optionally enrich media items with Grok Vision summaries.
+  // Optionally enrich media items with Grok Vision summaries (see lib/media-enrichment.ts).
   if (input.enrich_media) {
-    result.tweets = await Promise.all(
-      result.tweets.map(async (tweet) => {
-        if (!tweet.media || tweet.media.length === 0) return tweet;
-        const enrichedMedia = await Promise.all(
-          tweet.media.map(async (item) => {
-            const urlToAnalyze =
-              item.type === "video" ? (item.thumbnail_url ?? item.url) : item.url;
-            if (!urlToAnalyze) return item;
-            const summary = await client.analyzeMedia(urlToAnalyze, item.type, tweet.text);
-            return summary ? { ...item, media_summary: summary } : item;
-          })
-        );
-        return { ...tweet, media: enrichedMedia };
-      })
-    );
+    result.tweets = await enrichMedia(client, result.tweets);
   }
 
   return { ...result, next_cursor: computeNextCursor(result.tweets) };
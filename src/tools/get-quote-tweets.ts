@@ -0,0 +1,140 @@
+/**
+ * Tool: get_quote_tweets
+ *
+ * Retrieves the quote tweets of a given tweet — the tweets that embed it with
+ * their own commentary, which is often where the discussion happens.
+ * Returns a TweetArraySchema: { tweets: Tweet[] } with `next_cursor`.
+ *
+ * Input:
+ *   tweet_id_or_url — tweet ID or full URL (x.com / twitter.com)
+ *   max_results     — how many quote tweets to return (1–100, default 10)
+ *   sort_by         — "engagement" (most-liked first, default) or "recency"
+ *   from_date       — start of date range (YYYY-MM-DD, optional)
+ *   to_date         — end of date range (YYYY-MM-DD, optional)
+ *   enrich_media    — when true, media items get Grok Vision summaries (optional)
+ *   cursor          — next_cursor from the previous page (optional)
+ *
+ * Implementation note:
+ *   A returned tweet is only kept when its `quoted_tweet.id` matches the
+ *   target exactly — replies, retweets and tweets quoting something else
+ *   that Grok mixes in are dropped, as are fabricated quotes without one.
+ */
+
+import { z } from "zod";
+import type { GrokClient } from "../lib/grok-client.js";
+import { log } from "../lib/logger.js";
+import { TweetArraySchema } from "../schemas/tweet.js";
+import { withResultMeta, NextCursorSchema } from "../schemas/result.js";
+import { extractTweetId, computeNextCursor } from "../lib/utils.js";
+import { enrichMedia } from "../lib/media-enrichment.js";
+
+/** MCP input schema for the get_quote_tweets tool. */
+export const GetQuoteTweetsInput = z.object({
+  tweet_id_or_url: z
+    .string()
+    .describe("Tweet ID or full URL (x.com/twitter.com) of the quoted tweet"),
+  max_results: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(10)
+    .optional()
+    .describe("Maximum number of quote tweets to return (default: 10)"),
+  sort_by: z
+    .enum(["engagement", "recency"])
+    .default("engagement")
+    .optional()
+    .describe('"engagement" (most liked/quoted first, default) or "recency" (newest first)'),
+  from_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Start date in YYYY-MM-DD format"),
+  to_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("End date in YYYY-MM-DD format"),
+  enrich_media: z
+    .boolean()
+    .optional()
+    .describe(
+      "When true, each tweet's media items are analysed with Grok Vision and a media_summary field is added. Increases latency."
+    ),
+  cursor: z
+    .string()
+    .regex(/^\d+$/, "Cursor must be a numeric tweet ID")
+    .optional()
+    .describe(
+      "Pagination cursor: tweet ID returned as next_cursor in the previous response. Pass it to fetch the next (older) page."
+    ),
+});
+
+/** MCP output schema for the get_quote_tweets tool. */
+export const GetQuoteTweetsOutput = withResultMeta(TweetArraySchema).extend({ next_cursor: NextCursorSchema });
+
+/**
+ * Fetch the quote tweets of a tweet via Grok.
+ *
+ * @param client  Shared GrokClient instance.
+ * @param input   Validated input matching GetQuoteTweetsInput.
+ * @returns       Object with a `tweets` array of verified quote tweets.
+ */
+export async function getQuoteTweets(
+  client: GrokClient,
+  input: z.infer<typeof GetQuoteTweetsInput>
+) {
+  const tweetId = extractTweetId(input.tweet_id_or_url);
+  const maxResults = input.max_results ?? 10;
+  const sortBy = input.sort_by ?? "engagement";
+
+  // Build a human-readable date range description for the prompt (optional).
+  const dateRange =
+    input.from_date || input.to_date
+      ? ` between ${input.from_date ?? "the beginning"} and ${input.to_date ?? "now"}`
+      : "";
+
+  const cursorInstruction = input.cursor
+    ? ` Only return tweets with a numeric ID strictly less than ${input.cursor} (pagination: older tweets only).`
+    : "";
+
+  const order =
+    sortBy === "recency"
+      ? "Sort by most recent first."
+      : "Sort by engagement (most liked/retweeted first).";
+
+  const prompt = `Find the quote tweets of tweet ID ${tweetId} on Twitter/X${dateRange} — tweets that quote it with their own commentary.${cursorInstruction}
+Return up to ${maxResults} quote tweets as a JSON object with a "tweets" array.
+IMPORTANT: Only include tweets that quote tweet ${tweetId}. Do NOT include replies or plain retweets, and do NOT fabricate tweets.
+For each quote tweet include: id, url, author (username, display_name, verified), text, created_at,
+metrics (likes, retweets, replies, views if available), media if any, is_retweet: false, language,
+and quoted_tweet (id: "${tweetId}", url, author, text, created_at, metrics, is_retweet).
+${order}`;
+
+  // No x_search handle filter here — quotes can come from any account.
+  const result = await client.query(prompt, TweetArraySchema, "tweet_array", {
+    from_date: input.from_date,
+    to_date: input.to_date,
+  });
+
+  // Keep only tweets that verifiably quote the target. .trim() guards against
+  // Grok returning the ID with a stray whitespace character.
+  result.tweets = result.tweets.filter((tweet) => {
+    const quotes = tweet.quoted_tweet?.id.trim() === tweetId && tweet.id.trim() !== tweetId;
+    if (!quotes) {
+      log("debug", "get_quote_tweets dropped a tweet that does not quote the target", {
+        id: tweet.id,
+        quoted_id: tweet.quoted_tweet?.id,
+      });
+    }
+    return quotes;
+  });
+
+  // Optionally enrich media items with Grok Vision summaries (see lib/media-enrichment.ts).
+  if (input.enrich_media) {
+    result.tweets = await enrichMedia(client, result.tweets);
+  }
+
+  return { ...result, next_cursor: computeNextCursor(result.tweets) };
+}
@@ -28,7 +28,8 @@
 
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
-import { ThreadSchema, TweetArraySchema } from "../schemas/tweet.js";
+import { ThreadSchema, ThreadTweetSchema, TweetArraySchema, TweetSchema } from "../schemas/tweet.js";
+import { withResultMeta } from "../schemas/result.js";
 import { extractTweetId } from "../lib/utils.js";
 
 /** MCP input schema for the get_thread tool. */
@@ -53,6 +54,11 @@ export const GetThreadInput = z.object({
     ),
 });
 
+/** MCP output schema for the get_thread tool — full tweets when verbose, lean ones otherwise. */
+export const GetThreadOutput = withResultMeta(
+  z.object({ tweets: z.array(z.union([TweetSchema, ThreadTweetSchema])) })
+);
+
 /**
  * Fetch and reconstruct a conversation thread via Grok.
  *
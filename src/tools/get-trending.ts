@@ -12,26 +12,40 @@
  * Note:
  *   Trending data is sourced in real-time via Grok's x_search tool.
  *   Results reflect what is trending at the time of the API call.
+ *   trendingCache honours the call's `cache` mode (see lib/tool-cache.ts).
+ *   With CACHE_STALE_GRACE_MS set, topics up to that long past their TTL
+ *   are returned at once with `stale: true` and their `age_seconds` (and
+ *   `_meta.cache: "stale"`), and refreshed in the background (see
+ *   lib/revalidate.ts).
  */
 
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { TrendingTopicsSchema } from "../schemas/trending.js";
-import { join } from "node:path";
-import { TtlCache, PersistentTtlCache } from "../lib/cache.js";
+import { withResultMeta, StaleMetaShape } from "../schemas/result.js";
+import type { TtlCache, CacheLimits } from "../lib/cache.js";
+import { createCache, cacheStorageFromEnv, staleGraceFromEnv } from "../lib/cache-backend.js";
 import { escapeForPrompt } from "../lib/utils.js";
+import { currentCacheMode, markStale } from "../lib/request-context.js";
+import { revalidate } from "../lib/revalidate.js";
 
 // Trending topics rarely change within a 5-minute window; caching avoids
 // redundant API calls when the same category is queried in quick succession.
-// If CACHE_DIR is set the cache persists across server restarts (JSON file).
+// If CACHE_DIR is set the cache persists across server restarts (JSON file,
+// or the shared SQLite database with CACHE_BACKEND=sqlite).
 // Exported so test suites can call cache.clear() between tests.
-const CACHE_DIR = process.env.CACHE_DIR;
-export const trendingCache: TtlCache<string, z.infer<typeof TrendingTopicsSchema>> = CACHE_DIR
-  ? new PersistentTtlCache<z.infer<typeof TrendingTopicsSchema>>(
-      5 * 60_000,
-      join(CACHE_DIR, "trending.json")
-    )
-  : new TtlCache<string, z.infer<typeof TrendingTopicsSchema>>(5 * 60_000);
+const TRENDING_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 200,
+  maxBytes: 2 * 1024 * 1024,
+  sweepIntervalMs: 60_000,
+  staleGraceMs: staleGraceFromEnv(),
+};
+export const trendingCache: TtlCache<string, z.infer<typeof TrendingTopicsSchema>> = createCache(
+  5 * 60_000,
+  "trending",
+  cacheStorageFromEnv(),
+  TRENDING_CACHE_LIMITS
+);
 
 /** MCP input schema for the get_trending tool. */
 export const GetTrendingInput = z.object({
@@ -49,24 +63,11 @@ export const GetTrendingInput = z.object({
     ),
 });
 
-/**
- * Fetch current trending topics from Twitter/X via Grok.
- *
- * @param client  Shared GrokClient instance.
- * @param input   Validated input matching GetTrendingInput.
- * @returns       Object with a `topics` array of trending topic objects.
- */
-export async function getTrending(
-  client: GrokClient,
-  input: z.infer<typeof GetTrendingInput>
-) {
-  // Use category + country as the cache key.
-  const categorySuffix = input.category ? input.category.toLowerCase().trim() : "";
-  const countrySuffix = input.country ? input.country.toLowerCase().trim() : "";
-  const cacheKey = `${categorySuffix}|${countrySuffix}`;
-  const cached = trendingCache.get(cacheKey);
-  if (cached) return cached;
+/** MCP output schema for the get_trending tool. */
+export const GetTrendingOutput = withResultMeta(TrendingTopicsSchema).extend(StaleMetaShape);
 
+/** Query Grok for the trending topics matching `input`. */
+function fetchTrending(client: GrokClient, input: z.infer<typeof GetTrendingInput>) {
   // Build optional clause fragments for the prompt.
   const categoryFilter = input.category
     ? ` in the <category>${escapeForPrompt(input.category)}</category> category`
@@ -83,7 +84,39 @@ and a brief description of why it's trending.
 Return at least 10 trending topics if available.`;
 
   // No x_search handle filter — trending is platform-wide.
-  const result = await client.query(prompt, TrendingTopicsSchema, "trending_topics");
-  trendingCache.set(cacheKey, result);
+  return client.query(prompt, TrendingTopicsSchema, "trending_topics");
+}
+
+/**
+ * Fetch current trending topics from Twitter/X via Grok.
+ *
+ * @param client  Shared GrokClient instance.
+ * @param input   Validated input matching GetTrendingInput.
+ * @returns       Object with a `topics` array of trending topic objects,
+ *                flagged `stale` when served from an expired cache entry.
+ */
+export async function getTrending(
+  client: GrokClient,
+  input: z.infer<typeof GetTrendingInput>
+) {
+  // Use category + country as the cache key.
+  const categorySuffix = input.category ? input.category.toLowerCase().trim() : "";
+  const countrySuffix = input.country ? input.country.toLowerCase().trim() : "";
+  const cacheKey = `${categorySuffix}|${countrySuffix}`;
+  const mode = currentCacheMode();
+  const cached = mode === "use" ? trendingCache.lookup(cacheKey) : undefined;
+  if (cached && !cached.stale) return cached.value;
+  if (cached) {
+    void revalidate("trending", cacheKey, async () => {
+      const fresh = await fetchTrending(client, input);
+      if (!("truncated" in fresh)) trendingCache.set(cacheKey, fresh);
+    });
+    markStale();
+    return { ...cached.value, stale: true, age_seconds: Math.floor(cached.ageMs / 1000) };
+  }
+
+  const result = await fetchTrending(client, input);
+  // A truncated list is incomplete — serve it, but don't pin it for the TTL.
+  if (mode !== "bypass" && !("truncated" in result)) trendingCache.set(cacheKey, result);
   return result;
 }
@@ -16,6 +16,7 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { TweetArraySchema } from "../schemas/tweet.js";
+import { withResultMeta } from "../schemas/result.js";
 import { extractTweetId } from "../lib/utils.js";
 
 /** MCP input schema for the get_tweet_replies tool. */
@@ -43,6 +44,9 @@ export const GetTweetRepliesInput = z.object({
     .describe("End date in YYYY-MM-DD format"),
 });
 
+/** MCP output schema for the get_tweet_replies tool. */
+export const GetTweetRepliesOutput = withResultMeta(TweetArraySchema);
+
 /**
  * Fetch replies to a tweet via Grok.
  *
@@ -19,6 +19,7 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { TweetSchema } from "../schemas/tweet.js";
+import { withResultMeta } from "../schemas/result.js";
 import { extractTweetId } from "../lib/utils.js";
 
 /** MCP input schema for the get_tweet tool. */
@@ -28,6 +29,9 @@ export const GetTweetInput = z.object({
     .describe("Tweet ID or full URL (x.com/twitter.com)"),
 });
 
+/** MCP output schema for the get_tweet tool. */
+export const GetTweetOutput = withResultMeta(TweetSchema);
+
 /**
  * Fetch a single tweet from Twitter/X via Grok.
  *
@@ -0,0 +1,170 @@
+/**
+ * Tool: get_tweets
+ *
+ * Retrieves many tweets by ID or URL in as few Grok calls as the output
+ * token cap allows, instead of one get_tweet round trip per ID.
+ *
+ * Returns one entry per requested ID, in input order, with a status:
+ *   found     — the tweet, as TweetSchema
+ *   not_found — Grok did not return the tweet (deleted, private, unknown ID)
+ *   error     — the input is not a tweet ID / URL, or the call for its batch
+ *               failed (the message says why)
+ *
+ * Input:
+ *   tweet_ids_or_urls — 1–50 raw tweet IDs or x.com / twitter.com URLs
+ *   enrich_media      — when true, media items get Grok Vision summaries (optional)
+ *
+ * Implementation notes:
+ *   IDs are validated with extractTweetId() and de-duplicated, then split
+ *   into batches sized to the tool's `max_output_tokens` (about
+ *   TOKENS_PER_TWEET each). As in get_tweet, a returned tweet is only
+ *   accepted when its ID matches a requested one exactly — anything else is
+ *   treated as fabricated and dropped. IDs missing from a truncated batch
+ *   are retried once in smaller batches. A result with a failed batch is
+ *   kept out of the tool cache, so the next call tries those IDs again.
+ */
+
+import { z } from "zod";
+import type { GrokClient } from "../lib/grok-client.js";
+import { GrokCancelledError } from "../lib/errors.js";
+import { log } from "../lib/logger.js";
+import { markUncacheable } from "../lib/request-context.js";
+import { enrichMedia } from "../lib/media-enrichment.js";
+import { TweetArraySchema, TweetSchema, type Tweet } from "../schemas/tweet.js";
+import { chunk, extractTweetId } from "../lib/utils.js";
+
+/** Maximum number of IDs per call to the tool. */
+const MAX_IDS = 50;
+
+/** Output tokens budgeted per full tweet (text, metrics, media, quoted tweet). */
+const TOKENS_PER_TWEET = 500;
+
+/** MCP input schema for the get_tweets tool. */
+export const GetTweetsInput = z.object({
+  tweet_ids_or_urls: z
+    .array(z.string())
+    .min(1)
+    .max(MAX_IDS)
+    .describe(`Tweet IDs or full URLs (x.com/twitter.com), 1–${MAX_IDS}`),
+  enrich_media: z
+    .boolean()
+    .optional()
+    .describe(
+      "When true, each tweet's media items are analysed with Grok Vision and a media_summary field is added. Increases latency."
+    ),
+});
+
+/** Outcome for one requested ID. */
+export const TweetLookupSchema = z.object({
+  input: z.string().describe("The ID or URL as given"),
+  id: z.string().nullish().describe("Extracted tweet ID (absent when the input is invalid)"),
+  status: z.enum(["found", "not_found", "error"]),
+  tweet: TweetSchema.nullish().describe("The tweet, when found"),
+  error: z.string().nullish().describe("Why the lookup failed, when status is error"),
+});
+
+/** MCP output schema for the get_tweets tool. */
+export const GetTweetsOutput = z.object({
+  results: z.array(TweetLookupSchema).describe("One entry per requested ID, in input order"),
+  found: z.number().int(),
+  not_found: z.number().int(),
+  errors: z.number().int(),
+});
+
+type Outcome = { status: "found"; tweet: Tweet } | { status: "not_found" } | { status: "error"; error: string };
+
+/** Fetch one batch. Returns the tweets whose ID was requested, keyed by ID. */
+async function fetchBatch(client: GrokClient, ids: string[]) {
+  const prompt = `Retrieve the following tweets from Twitter/X by ID:
+${ids.join("\n")}
+Return as a JSON object with a "tweets" array containing ONLY the tweets from this list that exist.
+IMPORTANT: If a tweet does not exist, is deleted, or is inaccessible, leave it out. Do NOT fabricate tweet content, and never return a tweet whose ID is not in the list.
+For each tweet include: id (exactly as listed), url, author (username, display_name, verified), text, created_at,
+metrics (likes, retweets, replies, views/bookmarks if available), media if any, in_reply_to if reply, is_retweet, language.
+The tweet URL should be https://x.com/<username>/status/<id>.`;
+
+  const result = await client.query(prompt, TweetArraySchema, "tweet_array");
+  const wanted = new Set(ids);
+  const found = new Map<string, Tweet>();
+  for (const tweet of result.tweets) {
+    // .trim() guards against Grok returning the ID with a stray whitespace character.
+    const id = tweet.id.trim();
+    if (wanted.has(id)) {
+      found.set(id, { ...tweet, id });
+    } else {
+      log("debug", "get_tweets dropped a tweet that was not requested", { id });
+    }
+  }
+  return { found, truncated: "truncated" in result };
+}
+
+/**
+ * Fetch many tweets from Twitter/X via Grok, batching the IDs.
+ *
+ * @param client  Shared GrokClient instance.
+ * @param input   Validated input matching GetTweetsInput.
+ * @returns       Per-ID results in input order, plus status counts.
+ * @throws        GrokCancelledError when the request is cancelled; other
+ *                failures are reported per ID.
+ */
+export async function getTweets(
+  client: GrokClient,
+  input: z.infer<typeof GetTweetsInput>
+): Promise<z.infer<typeof GetTweetsOutput>> {
+  // Normalise and validate every input; invalid ones are reported, not thrown.
+  const requested = input.tweet_ids_or_urls.map((raw) => {
+    try {
+      return { input: raw, id: extractTweetId(raw) };
+    } catch (err) {
+      return { input: raw, error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+  const unique = [...new Set(requested.flatMap((r) => (r.id ? [r.id] : [])))];
+
+  const outcomes = new Map<string, Outcome>();
+  const batchSize = Math.max(1, Math.floor(client.querySettings.max_output_tokens / TOKENS_PER_TWEET));
+  let pending = unique;
+  let size = batchSize;
+
+  // Second round: IDs a truncated response did not reach, in smaller batches.
+  for (let round = 0; round < 2 && pending.length > 0; round++) {
+    const retry: string[] = [];
+    for (const batch of chunk(pending, size)) {
+      try {
+        const { found, truncated } = await fetchBatch(client, batch);
+        for (const id of batch) {
+          const tweet = found.get(id);
+          if (tweet) outcomes.set(id, { status: "found", tweet });
+          else if (truncated) retry.push(id);
+          else outcomes.set(id, { status: "not_found" });
+        }
+      } catch (err) {
+        if (err instanceof GrokCancelledError) throw err;
+        markUncacheable();
+        const error = err instanceof Error ? err.message : String(err);
+        for (const id of batch) outcomes.set(id, { status: "error", error });
+      }
+    }
+    pending = retry;
+    size = Math.max(1, Math.floor(size / 2));
+  }
+  if (pending.length > 0) markUncacheable();
+  for (const id of pending) {
+    outcomes.set(id, { status: "error", error: "Response truncated before this tweet — retry it on its own." });
+  }
+
+  // Optionally enrich media items with Grok Vision summaries (see lib/media-enrichment.ts).
+  if (input.enrich_media) {
+    const found = [...outcomes.values()].flatMap((o) => (o.status === "found" ? [o] : []));
+    const enriched = await enrichMedia(client, found.map((o) => o.tweet));
+    for (const [i, outcome] of found.entries()) outcome.tweet = enriched[i];
+  }
+
+  const results = requested.map((r): z.infer<typeof TweetLookupSchema> =>
+    r.id === undefined
+      ? { input: r.input, status: "error" as const, error: r.error }
+      : { input: r.input, id: r.id, ...(outcomes.get(r.id) ?? { status: "not_found" as const }) }
+  );
+  const count = (status: Outcome["status"]) => results.filter((r) => r.status === status).length;
+  return { results, found: count("found"), not_found: count("not_found"), errors: count("error") };
+}
@@ -0,0 +1,57 @@
+/**
+ * Tool: get_usage_stats
+ *
+ * Reports the Grok token usage accumulated by this server process:
+ * input, output and reasoning tokens plus x_search sources, overall and
+ * broken down per tool. No Grok API call is made.
+ *
+ * Counters live in memory and start at zero when the process starts.
+ * When a spending budget is configured, the current day/month spend and
+ * limits are included under `budget` (not affected by `reset`).
+ * Pass `reset: true` to read the totals and zero them in one step (e.g. to
+ * measure a single workflow). The counters are shared by every client, so
+ * over authenticated HTTP only admin clients may reset them.
+ *
+ * Input:
+ *   reset — when true, zero the counters after reading them (default false)
+ */
+
+import { z } from "zod";
+import type { GrokClient } from "../lib/grok-client.js";
+import { getRequestContext } from "../lib/request-context.js";
+import { UsageStatsSchema } from "../schemas/usage.js";
+
+/** MCP input schema for the get_usage_stats tool. */
+export const GetUsageStatsInput = z.object({
+  reset: z
+    .boolean()
+    .optional()
+    .describe("When true, zero all counters after returning the current totals (admin clients only over authenticated HTTP)"),
+});
+
+/** MCP output schema for the get_usage_stats tool. */
+export const GetUsageStatsOutput = UsageStatsSchema;
+
+/**
+ * Return the running usage totals of the shared GrokClient.
+ *
+ * @param client  Shared GrokClient instance.
+ * @param input   Validated input matching GetUsageStatsInput.
+ * @returns       Snapshot with `since`, overall `totals`, `by_tool` breakdown
+ *                and, when configured, the spending `budget` status.
+ * @throws        When `reset` is requested by a client without the admin scope.
+ */
+export async function getUsageStats(
+  client: GrokClient,
+  input: z.infer<typeof GetUsageStatsInput>
+) {
+  if (input.reset && getRequestContext()?.admin === false) {
+    throw new Error('Only admin clients may reset usage counters (set "admin": true in MCP_AUTH_FILE).');
+  }
+  const snapshot = client.usage.snapshot();
+  if (input.reset) {
+    client.usage.reset();
+  }
+  const budget = client.budget?.status();
+  return budget ? { ...snapshot, budget } : snapshot;
+}
@@ -20,6 +20,7 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { TweetArraySchema } from "../schemas/tweet.js";
+import { withResultMeta, NextCursorSchema } from "../schemas/result.js";
 import { sanitizeUsername, computeNextCursor } from "../lib/utils.js";
 
 /** MCP input schema for the get_user_mentions tool. */
@@ -58,6 +59,9 @@ export const GetUserMentionsInput = z.object({
     ),
 });
 
+/** MCP output schema for the get_user_mentions tool. */
+export const GetUserMentionsOutput = withResultMeta(TweetArraySchema).extend({ next_cursor: NextCursorSchema });
+
 /**
  * Fetch tweets mentioning a Twitter/X user via Grok.
  *
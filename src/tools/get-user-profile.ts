@@ -11,38 +11,72 @@
  * Implementation note:
  *   The x_search `allowed_x_handles` filter is set to the target username so
  *   that Grok focuses its search on that specific account's data.
+ *   profileCache honours the call's `cache` mode (see lib/tool-cache.ts).
+ *   With CACHE_STALE_GRACE_MS set, a profile up to that long past its TTL is
+ *   returned at once with `stale: true` and its `age_seconds` (and
+ *   `_meta.cache: "stale"`), and refreshed in the background (see
+ *   lib/revalidate.ts).
  */
 
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { UserProfileSchema } from "../schemas/user.js";
+import { withResultMeta, StaleMetaShape } from "../schemas/result.js";
 import { sanitizeUsername } from "../lib/utils.js";
-import { join } from "node:path";
-import { TtlCache, PersistentTtlCache } from "../lib/cache.js";
+import type { TtlCache, CacheLimits } from "../lib/cache.js";
+import { createCache, cacheStorageFromEnv, staleGraceFromEnv } from "../lib/cache-backend.js";
+import { currentCacheMode, markStale } from "../lib/request-context.js";
+import { revalidate } from "../lib/revalidate.js";
 
 // User profiles change infrequently; a 10-minute TTL avoids duplicate API
 // calls when the same handle is resolved multiple times in a short session.
-// If CACHE_DIR is set the cache persists across server restarts (JSON file).
+// If CACHE_DIR is set the cache persists across server restarts (JSON file,
+// or the shared SQLite database with CACHE_BACKEND=sqlite).
+// Bounded so a long-running server does not accumulate every handle it sees.
+// Keyed by the lowercased username, without "@".
 // Exported so test suites can call profileCache.clear() between tests.
-const CACHE_DIR = process.env.CACHE_DIR;
-export const profileCache: TtlCache<string, z.infer<typeof UserProfileSchema>> = CACHE_DIR
-  ? new PersistentTtlCache<z.infer<typeof UserProfileSchema>>(
-      10 * 60_000,
-      join(CACHE_DIR, "profile.json")
-    )
-  : new TtlCache<string, z.infer<typeof UserProfileSchema>>(10 * 60_000);
+const PROFILE_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 2000,
+  maxBytes: 4 * 1024 * 1024,
+  sweepIntervalMs: 60_000,
+  staleGraceMs: staleGraceFromEnv(),
+};
+export const profileCache: TtlCache<string, z.infer<typeof UserProfileSchema>> = createCache(
+  10 * 60_000,
+  "profile",
+  cacheStorageFromEnv(),
+  PROFILE_CACHE_LIMITS
+);
 
 /** MCP input schema for the get_user_profile tool. */
 export const GetUserProfileInput = z.object({
   username: z.string().describe("Twitter/X username (with or without @)"),
 });
 
+/** MCP output schema for the get_user_profile tool. */
+export const GetUserProfileOutput = withResultMeta(UserProfileSchema).extend(StaleMetaShape);
+
+/** Query Grok for one profile. */
+function fetchProfile(client: GrokClient, username: string) {
+  const prompt = `Retrieve the Twitter/X profile information for @${username}.
+Return as a JSON object with: username, display_name, bio, location (if available),
+website (if available), verified (blue checkmark or other verification), profile_image_url (if available),
+banner_url (if available), followers_count, following_count, tweet_count, created_at (account creation date if known),
+and pinned_tweet (if they have one pinned).`;
+
+  // Restrict x_search to the target handle to improve result accuracy.
+  return client.query(prompt, UserProfileSchema, "user_profile", {
+    allowed_x_handles: [username],
+  });
+}
+
 /**
  * Fetch a user's public profile from Twitter/X via Grok.
  *
  * @param client  Shared GrokClient instance.
  * @param input   Validated input matching GetUserProfileInput.
- * @returns       User profile object conforming to UserProfileSchema.
+ * @returns       User profile object conforming to UserProfileSchema, flagged
+ *                `stale` when served from an expired cache entry.
  */
 export async function getUserProfile(
   client: GrokClient,
@@ -51,19 +85,21 @@ export async function getUserProfile(
   // Strip leading "@" so the username is always in bare form (e.g. "elonmusk").
   const username = sanitizeUsername(input.username);
 
-  const cached = profileCache.get(username);
-  if (cached) return cached;
+  // Handles are case-insensitive: "Jack" and "jack" share one cache entry.
+  const key = username.toLowerCase();
 
-  const prompt = `Retrieve the Twitter/X profile information for @${username}.
-Return as a JSON object with: username, display_name, bio, location (if available),
-website (if available), verified (blue checkmark or other verification), profile_image_url (if available),
-banner_url (if available), followers_count, following_count, tweet_count, created_at (account creation date if known),
-and pinned_tweet (if they have one pinned).`;
+  const mode = currentCacheMode();
+  const cached = mode === "use" ? profileCache.lookup(key) : undefined;
+  if (cached && !cached.stale) return cached.value;
+  if (cached) {
+    void revalidate("profile", key, async () => {
+      profileCache.set(key, await fetchProfile(client, username));
+    });
+    markStale();
+    return { ...cached.value, stale: true, age_seconds: Math.floor(cached.ageMs / 1000) };
+  }
 
-  // Restrict x_search to the target handle to improve result accuracy.
-  const result = await client.query(prompt, UserProfileSchema, "user_profile", {
-    allowed_x_handles: [username],
-  });
-  profileCache.set(username, result);
+  const result = await fetchProfile(client, username);
+  if (mode !== "bypass") profileCache.set(key, result);
   return result;
 }
@@ -0,0 +1,198 @@
+/**
+ * Tool: get_user_profiles
+ *
+ * Retrieves the profiles of many Twitter/X accounts at once — e.g. every
+ * author in a search result — instead of one get_user_profile call each.
+ *
+ * Returns a map keyed by username (as given, without "@"). Each entry holds
+ * either the profile or an error:
+ *   profile — the account, as UserProfileSchema
+ *   error   — the account is suspended or does not exist, or the call for
+ *             its batch failed (the message says why)
+ *
+ * Input:
+ *   usernames — 1–50 Twitter/X handles, with or without leading "@"
+ *
+ * Implementation notes:
+ *   Profiles already in profileCache (shared with get_user_profile) are
+ *   served without a call; only the misses are sent to Grok, in batches of
+ *   at most MAX_HANDLES_PER_CALL — the x_search `allowed_x_handles` limit —
+ *   and fewer when the tool's `max_output_tokens` cannot hold that many
+ *   profiles. Every returned profile is validated against UserProfileSchema
+ *   and only accepted when its username matches a requested one
+ *   (case-insensitively); fetched profiles are added to the cache. The
+ *   call's `cache` mode applies to profileCache (see lib/tool-cache.ts). A
+ *   result with a failed batch is kept out of the tool cache.
+ */
+
+import { z } from "zod";
+import type { GrokClient } from "../lib/grok-client.js";
+import { GrokCancelledError } from "../lib/errors.js";
+import { log } from "../lib/logger.js";
+import { UserProfileSchema } from "../schemas/user.js";
+import { chunk, sanitizeUsername } from "../lib/utils.js";
+import { currentCacheMode, markUncacheable } from "../lib/request-context.js";
+import { profileCache } from "./get-user-profile.js";
+
+type UserProfile = z.infer<typeof UserProfileSchema>;
+
+/** Maximum number of usernames per call to the tool. */
+const MAX_USERNAMES = 50;
+
+/** x_search accepts at most this many `allowed_x_handles`. */
+const MAX_HANDLES_PER_CALL = 10;
+
+/** Output tokens budgeted per profile (fields plus an optional pinned tweet). */
+const TOKENS_PER_PROFILE = 800;
+
+/** MCP input schema for the get_user_profiles tool. */
+export const GetUserProfilesInput = z.object({
+  usernames: z
+    .array(
+      z
+        .string()
+        .regex(
+          /^@?[A-Za-z0-9_]{1,50}$/,
+          "Username must contain only letters, digits, or underscores (max 50 characters)"
+        )
+    )
+    .min(1)
+    .max(MAX_USERNAMES)
+    .describe(`Twitter/X usernames (with or without @), 1–${MAX_USERNAMES}`),
+});
+
+/** Outcome for one requested username. */
+export const ProfileLookupSchema = z.object({
+  profile: UserProfileSchema.nullish().describe("The profile, when the account was found"),
+  error: z
+    .string()
+    .nullish()
+    .describe("Why no profile is returned: suspended, not found, or a failed call"),
+  cached: z.boolean().nullish().describe("True when the profile was served from the cache"),
+});
+
+/** MCP output schema for the get_user_profiles tool. */
+export const GetUserProfilesOutput = z.object({
+  profiles: z
+    .record(z.string(), ProfileLookupSchema)
+    .describe("One entry per requested username (as given, without @)"),
+  found: z.number().int(),
+  errors: z.number().int(),
+  cache_hits: z.number().int(),
+});
+
+/** Shape Grok is asked to return for one batch of handles. */
+const ProfileBatchSchema = z.object({
+  profiles: z.array(UserProfileSchema),
+  unavailable: z
+    .array(z.object({ username: z.string(), reason: z.string() }))
+    .nullish(),
+});
+
+type Lookup = z.infer<typeof ProfileLookupSchema>;
+
+/**
+ * Fetch one batch. Returns the outcome for each requested handle, keyed by
+ * its lowercased form.
+ */
+async function fetchBatch(client: GrokClient, usernames: string[]) {
+  const prompt = `Retrieve the Twitter/X profile information for each of these accounts:
+${usernames.map((u) => `@${u}`).join("\n")}
+Return as a JSON object with:
+- "profiles": one object per account that exists and is not suspended, with: username, display_name, bio,
+  location (if available), website (if available), verified (blue checkmark or other verification),
+  profile_image_url (if available), banner_url (if available), followers_count, following_count, tweet_count,
+  created_at (account creation date if known), and pinned_tweet (if they have one pinned).
+- "unavailable": one object per account that is suspended or does not exist, with username and
+  reason ("suspended" or "not found").
+IMPORTANT: Do NOT fabricate profiles, and never return an account that is not in the list.`;
+
+  // Restrict x_search to the requested handles to improve result accuracy.
+  const result = await client.query(prompt, ProfileBatchSchema, "user_profile_batch", {
+    allowed_x_handles: usernames,
+  });
+
+  const wanted = new Set(usernames.map((u) => u.toLowerCase()));
+  const outcomes = new Map<string, Lookup>();
+  for (const profile of result.profiles) {
+    const key = sanitizeUsername(profile.username).toLowerCase();
+    if (wanted.has(key)) {
+      outcomes.set(key, { profile });
+    } else {
+      log("debug", "get_user_profiles dropped a profile that was not requested", {
+        username: profile.username,
+      });
+    }
+  }
+  for (const { username, reason } of result.unavailable ?? []) {
+    const key = sanitizeUsername(username).toLowerCase();
+    if (!wanted.has(key) || outcomes.has(key)) continue;
+    outcomes.set(key, {
+      error: /suspend/i.test(reason) ? "Account suspended." : "Account not found.",
+    });
+  }
+  return outcomes;
+}
+
+/**
+ * Fetch many users' public profiles from Twitter/X via Grok, reusing cached
+ * profiles and batching the rest.
+ *
+ * @param client  Shared GrokClient instance.
+ * @param input   Validated input matching GetUserProfilesInput.
+ * @returns       A profile or error per username, plus counts.
+ * @throws        GrokCancelledError when the request is cancelled; other
+ *                failures are reported per username.
+ */
+export async function getUserProfiles(
+  client: GrokClient,
+  input: z.infer<typeof GetUserProfilesInput>
+): Promise<z.infer<typeof GetUserProfilesOutput>> {
+  // Strip leading "@"; handles are case-insensitive, so "Jack" and "jack"
+  // share one lookup.
+  const requested = input.usernames.map((raw) => sanitizeUsername(raw));
+  const mode = currentCacheMode();
+  const outcomes = new Map<string, Lookup>();
+  const misses: string[] = [];
+
+  for (const username of requested) {
+    const key = username.toLowerCase();
+    if (outcomes.has(key) || misses.some((m) => m.toLowerCase() === key)) continue;
+    const cached = mode === "use" ? profileCache.get(key) : undefined;
+    if (cached) outcomes.set(key, { profile: cached, cached: true });
+    else misses.push(username);
+  }
+
+  const batchSize = Math.max(
+    1,
+    Math.min(MAX_HANDLES_PER_CALL, Math.floor(client.querySettings.max_output_tokens / TOKENS_PER_PROFILE))
+  );
+  for (const batch of chunk(misses, batchSize)) {
+    try {
+      const found = await fetchBatch(client, batch);
+      for (const username of batch) {
+        const key = username.toLowerCase();
+        const outcome = found.get(key) ?? { error: "Account not found." };
+        if (outcome.profile && mode !== "bypass") profileCache.set(key, outcome.profile as UserProfile);
+        outcomes.set(key, outcome);
+      }
+    } catch (err) {
+      if (err instanceof GrokCancelledError) throw err;
+      markUncacheable();
+      const error = err instanceof Error ? err.message : String(err);
+      for (const username of batch) outcomes.set(username.toLowerCase(), { error });
+    }
+  }
+
+  const profiles: Record<string, Lookup> = {};
+  for (const username of requested) {
+    profiles[username] = outcomes.get(username.toLowerCase()) as Lookup;
+  }
+  const entries = Object.values(profiles);
+  return {
+    profiles,
+    found: entries.filter((e) => e.profile).length,
+    errors: entries.filter((e) => e.error).length,
+    cache_hits: entries.filter((e) => e.cached).length,
+  };
+}
@@ -19,7 +19,9 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { TweetArraySchema } from "../schemas/tweet.js";
+import { withResultMeta, NextCursorSchema } from "../schemas/result.js";
 import { sanitizeUsername, computeNextCursor } from "../lib/utils.js";
+import { enrichMedia } from "../lib/media-enrichment.js";
 
 /** MCP input schema for the get_user_tweets tool. */
 export const GetUserTweetsInput = z.object({
@@ -57,6 +59,9 @@ export const GetUserTweetsInput = z.object({
     ),
 });
 
+/** MCP output schema for the get_user_tweets tool. */
+export const GetUserTweetsOutput = withResultMeta(TweetArraySchema).extend({ next_cursor: NextCursorSchema });
+
 /**
  * Fetch recent tweets from a Twitter/X user via Grok.
  *
@@ -94,23 +99,9 @@ Sort by most recent first.`;
     to_date: input.to_date,
   });
 
-  // Optionally enrich media items with Grok Vision summaries.
+  // Optionally enrich media items with Grok Vision summaries (see lib/media-enrichment.ts).
   if (input.enrich_media) {
-    result.tweets = await Promise.all(
-      result.tweets.map(async (tweet) => {
-        if (!tweet.media || tweet.media.length === 0) return tweet;
-        const enrichedMedia = await Promise.all(
-          tweet.media.map(async (item) => {
-            const urlToAnalyze =
-              item.type === "video" ? (item.thumbnail_url ?? item.url) : item.url;
-            if (!urlToAnalyze) return item;
-            const summary = await client.analyzeMedia(urlToAnalyze, item.type, tweet.text);
-            return summary ? { ...item, media_summary: summary } : item;
-          })
-        );
-        return { ...tweet, media: enrichedMedia };
-      })
-    );
+    result.tweets = await enrichMedia(client, result.tweets);
   }
 
   return { ...result, next_cursor: computeNextCursor(result.tweets) };
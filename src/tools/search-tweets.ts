@@ -21,7 +21,9 @@
 import { z } from "zod";
 import type { GrokClient } from "../lib/grok-client.js";
 import { TweetArraySchema } from "../schemas/tweet.js";
+import { withResultMeta, NextCursorSchema } from "../schemas/result.js";
 import { escapeForPrompt, computeNextCursor } from "../lib/utils.js";
+import { enrichMedia } from "../lib/media-enrichment.js";
 
 /** MCP input schema for the search_tweets tool. */
 export const SearchTweetsInput = z.object({
@@ -59,6 +61,9 @@ export const SearchTweetsInput = z.object({
     ),
 });
 
+/** MCP output schema for the search_tweets tool. */
+export const SearchTweetsOutput = withResultMeta(TweetArraySchema).extend({ next_cursor: NextCursorSchema });
+
 /**
  * Search Twitter/X for tweets matching a query via Grok.
  *
@@ -95,23 +100,9 @@ Sort by relevance and engagement.`;
     to_date: input.to_date,
   });
 
-  // Optionally enrich media items with Grok Vision summaries.
+  // Optionally enrich media items with Grok Vision summaries (see lib/media-enrichment.ts).
   if (input.enrich_media) {
-    result.tweets = await Promise.all(
-      result.tweets.map(async (tweet) => {
-        if (!tweet.media || tweet.media.length === 0) return tweet;
-        const enrichedMedia = await Promise.all(
-          tweet.media.map(async (item) => {
-            const urlToAnalyze =
-              item.type === "video" ? (item.thumbnail_url ?? item.url) : item.url;
-            if (!urlToAnalyze) return item;
-            const summary = await client.analyzeMedia(urlToAnalyze, item.type, tweet.text);
-            return summary ? { ...item, media_summary: summary } : item;
-          })
-        );
-        return { ...tweet, media: enrichedMedia };
-      })
-    );
+    result.tweets = await enrichMedia(client, result.tweets);
   }
 
   return { ...result, next_cursor: computeNextCursor(result.tweets) };